@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive } from 'lucide-react';
+import { AUXILIARY_TABLES, AuxiliaryTableName } from '@/lib/auxiliary-tables';
+import { ArchiveTable } from '@/lib/ingest-client';
+
+export interface ArchiveSelection {
+  application: string | null;
+  auxiliary: { entry: string; table: AuxiliaryTableName }[];
+}
+
+interface ArchiveContentsProps {
+  fileName: string;
+  tables: ArchiveTable[];
+  onConfirm: (selection: ArchiveSelection) => void;
+  onCancel: () => void;
+}
+
+const SKIP = 'skip';
+const APPLICATION = 'application';
+
+const initialRole = (table: ArchiveTable) =>
+  table.role === 'application' ? APPLICATION : table.role === 'auxiliary' ? table.table : SKIP;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export function ArchiveContents({ fileName, tables, onConfirm, onCancel }: ArchiveContentsProps) {
+  const [roles, setRoles] = useState<Record<string, string>>(() =>
+    Object.fromEntries(tables.map(table => [table.entry.name, initialRole(table)]))
+  );
+
+  // Only one entry can be the application table
+  const setRole = (entry: string, role: string) => {
+    setRoles(current => {
+      const next = { ...current, [entry]: role };
+      if (role === APPLICATION) {
+        Object.keys(next).forEach(name => {
+          if (name !== entry && next[name] === APPLICATION) next[name] = SKIP;
+        });
+      }
+      return next;
+    });
+  };
+
+  const confirm = () => {
+    const entries = Object.entries(roles);
+    onConfirm({
+      application: entries.find(([, role]) => role === APPLICATION)?.[0] ?? null,
+      auxiliary: entries
+        .filter(([, role]) => role !== APPLICATION && role !== SKIP)
+        .map(([entry, role]) => ({ entry, table: role as AuxiliaryTableName }))
+    });
+  };
+
+  const selectedCount = Object.values(roles).filter(role => role !== SKIP).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Archive Contents
+        </CardTitle>
+        <CardDescription>
+          Tables found in <code>{fileName}</code>. Roles were detected from file names and headers;
+          auxiliary tables are joined after the application table is loaded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No supported data files in this archive.</p>
+        ) : (
+          <div className="space-y-2">
+            {tables.map(({ entry }) => (
+              <div key={entry.name} className="border rounded-lg p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <code className="text-sm truncate block">{entry.name}</code>
+                  <span className="text-xs text-muted-foreground">
+                    {formatSize(entry.size)} ({formatSize(entry.compressedSize)} compressed)
+                  </span>
+                </div>
+                <Select value={roles[entry.name]} onValueChange={(role) => setRole(entry.name, role)}>
+                  <SelectTrigger className="h-8 w-56 flex-shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>Skip</SelectItem>
+                    <SelectItem value={APPLICATION}>Application table</SelectItem>
+                    {AUXILIARY_TABLES.map(table => (
+                      <SelectItem key={table.name} value={table.name}>{table.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button disabled={selectedCount === 0} onClick={confirm}>
+            Import {selectedCount} {selectedCount === 1 ? 'Table' : 'Tables'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Database, Trash2, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AUXILIARY_TABLES,
+  AuxiliaryAggregates,
+  AuxiliaryAggregateSet,
+  AuxiliaryTableName,
+  detectAuxiliaryTable
+} from '@/lib/auxiliary-tables';
+import { IngestJob, startAuxiliaryIngestion } from '@/lib/ingest-client';
+import { ACCEPTED_EXTENSIONS } from '@/lib/readers';
+
+interface AuxiliaryTablesUploaderProps {
+  tables: AuxiliaryAggregateSet;
+  onTableLoaded: (aggregates: AuxiliaryAggregates) => void;
+  onTableRemoved: (table: AuxiliaryTableName) => void;
+}
+
+interface ActiveUpload {
+  table: AuxiliaryTableName;
+  progress: number;
+}
+
+function pickFiles(multiple: boolean, onPicked: (files: File[]) => void) {
+  const input = document.createElement('input');
+  input.type = 'file';
+  // Archives go through the main uploader, which splits them into tables
+  input.accept = ACCEPTED_EXTENSIONS.filter(extension => extension !== '.zip').join(',');
+  input.multiple = multiple;
+  input.onchange = (e) => {
+    const files = Array.from((e.target as HTMLInputElement).files || []);
+    if (files.length > 0) onPicked(files);
+  };
+  input.click();
+}
+
+export function AuxiliaryTablesUploader({ tables, onTableLoaded, onTableRemoved }: AuxiliaryTablesUploaderProps) {
+  const [active, setActive] = useState<ActiveUpload | null>(null);
+  const jobRef = useRef<IngestJob<AuxiliaryAggregates> | null>(null);
+  const { toast } = useToast();
+
+  // Tables are aggregated one at a time to keep a single worker busy
+  const uploadFiles = async (files: { file: File; table: AuxiliaryTableName }[]) => {
+    for (const { file, table } of files) {
+      setActive({ table, progress: 0 });
+      const job = startAuxiliaryIngestion(file, table, ({ bytesRead, totalBytes }) => {
+        setActive({ table, progress: totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100 });
+      });
+      jobRef.current = job;
+
+      try {
+        const aggregates = await job.result;
+        onTableLoaded(aggregates);
+        toast({
+          title: `${file.name} joined`,
+          description: `Aggregated ${aggregates.rowCount.toLocaleString()} rows for ${aggregates.values.size.toLocaleString()} keys`,
+        });
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') break;
+        toast({
+          title: `Could not load ${file.name}`,
+          description: err instanceof Error ? err.message : 'An error occurred',
+          variant: 'destructive',
+        });
+      }
+    }
+    jobRef.current = null;
+    setActive(null);
+  };
+
+  const uploadDetected = (files: File[]) => {
+    const matched = files
+      .map(file => ({ file, table: detectAuxiliaryTable(file.name) }))
+      .filter((entry): entry is { file: File; table: AuxiliaryTableName } => entry.table !== null);
+    const unmatched = files.filter(file => !detectAuxiliaryTable(file.name));
+
+    if (unmatched.length > 0) {
+      toast({
+        title: 'Unrecognized tables skipped',
+        description: unmatched.map(file => file.name).join(', '),
+        variant: 'destructive',
+      });
+    }
+    // bureau must come before bureau_balance so balances can be linked to applicants
+    matched.sort((a, b) =>
+      AUXILIARY_TABLES.findIndex(t => t.name === a.table) - AUXILIARY_TABLES.findIndex(t => t.name === b.table)
+    );
+    uploadFiles(matched);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Database className="w-5 h-5" />
+              Auxiliary Tables
+            </CardTitle>
+            <CardDescription>
+              Bureau, previous application and payment history aggregated per applicant (SK_ID_CURR)
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={active !== null}
+            onClick={() => pickFiles(true, uploadDetected)}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Upload Tables
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {AUXILIARY_TABLES.map((definition) => {
+          const loaded = tables[definition.name];
+          const isActive = active?.table === definition.name;
+          const needsBureau = definition.keyColumn === 'SK_ID_BUREAU' && loaded && !tables.bureau;
+
+          return (
+            <div key={definition.name} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{definition.label}</span>
+                    <code className="text-xs text-muted-foreground">{definition.fileName}</code>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1 truncate">
+                    Adds {definition.aggregates.map(a => a.column).join(', ')}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {loaded && (
+                    <Badge variant="secondary">{loaded.rowCount.toLocaleString()} rows</Badge>
+                  )}
+                  {isActive ? (
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => jobRef.current?.cancel()}>
+                      <X className="w-3 h-3 mr-1" />
+                      Cancel
+                    </Button>
+                  ) : loaded ? (
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onTableRemoved(definition.name)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      disabled={active !== null}
+                      onClick={() => pickFiles(false, files => uploadFiles([{ file: files[0], table: definition.name }]))}
+                    >
+                      <Upload className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isActive && <Progress value={active.progress} />}
+              {needsBureau && (
+                <p className="text-xs text-warning">Load bureau.csv to link balances to applicants</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, ArrowRight, Columns, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { RawRow } from '@/lib/ingestion';
+import { LABEL_COLUMN, REQUIRED_COLUMNS } from '@/lib/home-credit-schema';
+import {
+  COLUMN_TRANSFORMS,
+  ColumnMapping,
+  ColumnTransform,
+  MAPPING_TARGETS,
+  MappingTemplate,
+  applyTemplate,
+  convertValue,
+  deleteMappingTemplate,
+  loadMappingTemplates,
+  saveMappingTemplate,
+  suggestMappings,
+  suggestTransform,
+  unmappedRequiredColumns
+} from '@/lib/column-mapping';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: RawRow[];
+  onConfirm: (mappings: ColumnMapping[]) => void;
+  onCancel: () => void;
+}
+
+const UNMAPPED = '__unmapped__';
+
+export function ColumnMappingWizard({ fileName, headers, sampleRows, onConfirm, onCancel }: ColumnMappingWizardProps) {
+  const [mappings, setMappings] = useState<ColumnMapping[]>(() => suggestMappings(headers, sampleRows));
+  const [templates, setTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [templateName, setTemplateName] = useState('');
+  const { toast } = useToast();
+
+  const missingRequired = unmappedRequiredColumns(mappings);
+  const referenceTime = useMemo(() => Date.now(), []);
+  const firstRow = sampleRows[0] || {};
+
+  const updateMapping = (target: string, source: string | null, transform: ColumnTransform = 'none') => {
+    setMappings(current => {
+      const rest = current.filter(mapping => mapping.target !== target && mapping.source !== source);
+      if (!source) return rest;
+      return [...rest, { target, source, transform }];
+    });
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    const applied = applyTemplate(template, headers);
+    setTemplateId(id);
+    setTemplateName(template.name);
+    setMappings(applied);
+    if (applied.length < template.mappings.length) {
+      toast({
+        title: `Template "${template.name}" partially applied`,
+        description: `${template.mappings.length - applied.length} source columns are not in ${fileName}`,
+      });
+    }
+  };
+
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    const saved = saveMappingTemplate(name, mappings);
+    setTemplates(saved);
+    setTemplateId(saved.find(t => t.name === name)?.id ?? '');
+    toast({ title: 'Mapping template saved', description: name });
+  };
+
+  const removeTemplate = () => {
+    setTemplates(deleteMappingTemplate(templateId));
+    setTemplateId('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns className="w-5 h-5" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          <code>{fileName}</code> does not use Home Credit column names. Match its columns to the fields
+          below; unmapped columns are kept under their own names.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Templates */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={templateId} onValueChange={selectTemplate} disabled={templates.length === 0}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder={templates.length === 0 ? 'No saved templates' : 'Apply template'} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {templateId && (
+            <Button variant="ghost" size="sm" className="h-9 px-2" onClick={removeTemplate}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Input
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name"
+            className="w-56"
+          />
+          <Button variant="outline" size="sm" className="h-9" disabled={!templateName.trim()} onClick={saveTemplate}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Template
+          </Button>
+        </div>
+
+        {/* Field mappings */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Home Credit field</th>
+                <th className="text-left p-2 font-medium">Source column</th>
+                <th className="text-left p-2 font-medium">Conversion</th>
+                <th className="text-left p-2 font-medium">Sample</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MAPPING_TARGETS.map(spec => {
+                const mapping = mappings.find(m => m.target === spec.name);
+                const transforms = COLUMN_TRANSFORMS.filter(t => t.appliesTo(spec));
+                const sample = mapping ? firstRow[mapping.source] : undefined;
+
+                return (
+                  <tr key={spec.name} className="border-b">
+                    <td className="p-2">
+                      <div className="flex items-center gap-2">
+                        <code className="text-xs">{spec.name}</code>
+                        {REQUIRED_COLUMNS.includes(spec.name) && <Badge variant="secondary">Required</Badge>}
+                        {spec.name === LABEL_COLUMN && <Badge variant="outline">Label</Badge>}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <Select
+                        value={mapping?.source ?? UNMAPPED}
+                        onValueChange={(source) => source === UNMAPPED
+                          ? updateMapping(spec.name, null)
+                          : updateMapping(spec.name, source, suggestTransform(spec, source, sampleRows.map(row => row[source] ?? '')))
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <Select
+                        value={mapping?.transform ?? 'none'}
+                        disabled={!mapping || transforms.length === 1}
+                        onValueChange={(transform) => updateMapping(spec.name, mapping.source, transform as ColumnTransform)}
+                      >
+                        <SelectTrigger className="h-8 w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {transforms.map(t => (
+                            <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2 text-muted-foreground whitespace-nowrap">
+                      {sample !== undefined && sample !== '' && (
+                        <span className="flex items-center gap-1">
+                          {sample}
+                          {mapping.transform !== 'none' && (
+                            <>
+                              <ArrowRight className="w-3 h-3" />
+                              {convertValue(sample, mapping.transform, referenceTime)}
+                            </>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {missingRequired.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Map the required fields before importing: {missingRequired.join(', ')}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button disabled={missingRequired.length > 0} onClick={() => onConfirm(mappings)}>
+            Import with Mapping
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,126 +1,281 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, FileText, CheckCircle, AlertCircle, Download } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileText, CheckCircle, AlertCircle, Download, X, Sheet, Loader2, Shuffle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import Papa from 'papaparse';
-import { HomeCreditRecord, generateCompleteDataset } from '@/lib/synthetic-data';
+import { HomeCreditRecord, generateAuxiliaryTables } from '@/lib/synthetic-data';
+import { DEFAULT_SAMPLE_OPTIONS, SAMPLE_SIZE, generateSampleDataset, generateSampleRecords } from '@/lib/sample-data';
+import { DEFAULT_SEED, parseSeed, randomSeed } from '@/lib/random';
+import { IngestionReport as IngestionReportData } from '@/lib/ingestion';
+import { ArchiveTable, inspectArchive, previewFile, startAuxiliaryIngestion, startIngestion } from '@/lib/ingest-client';
+import { AUXILIARY_TABLES, AuxiliaryAggregates } from '@/lib/auxiliary-tables';
+import { ACCEPTED_EXTENSIONS, FilePreview, ReadOptions, baseName, getReader } from '@/lib/readers';
+import { ColumnMapping, needsMapping } from '@/lib/column-mapping';
+import { APPLICATION_COLUMNS } from '@/lib/home-credit-schema';
+import { DatasetSource } from '@/lib/dataset-catalog';
+import { IngestionReport } from '@/components/IngestionReport';
+import { ColumnMappingWizard } from '@/components/ColumnMappingWizard';
+import { ArchiveContents, ArchiveSelection } from '@/components/ArchiveContents';
 
 interface DataUploaderProps {
-  onDataLoaded: (data: HomeCreditRecord[]) => void;
+  onDataLoaded: (data: HomeCreditRecord[], source: DatasetSource) => void;
+  onAuxiliaryLoaded: (aggregates: AuxiliaryAggregates) => void;
 }
 
-export function DataUploader({ onDataLoaded }: DataUploaderProps) {
+type AuxiliaryQueue = { file: File; tables: ArchiveSelection['auxiliary'] };
+
+export function DataUploader({ onDataLoaded, onAuxiliaryLoaded }: DataUploaderProps) {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [preview, setPreview] = useState<any[] | null>(null);
+  const [report, setReport] = useState<IngestionReportData | null>(null);
+  const [reportFile, setReportFile] = useState<string | null>(null);
+  const [rowsRead, setRowsRead] = useState(0);
+  const [status, setStatus] = useState('Parsing...');
+  const [inspecting, setInspecting] = useState(false);
+  const [seedInput, setSeedInput] = useState(String(DEFAULT_SEED));
+  const [withExtSources, setWithExtSources] = useState(DEFAULT_SAMPLE_OPTIONS.extSources);
+  const [withHistory, setWithHistory] = useState(DEFAULT_SAMPLE_OPTIONS.history);
+  const [pendingArchive, setPendingArchive] = useState<{ file: File; tables: ArchiveTable[] } | null>(null);
+  const [pendingSheet, setPendingSheet] = useState<{ file: File; sheets: string[]; sheet: string } | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<{ file: File; options: ReadOptions; preview: FilePreview } | null>(null);
+  const jobRef = useRef<{ cancel: () => void } | null>(null);
+  // Auxiliary tables from an archive, joined once its application table is in
+  const auxiliaryQueueRef = useRef<AuxiliaryQueue | null>(null);
   const { toast } = useToast();
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  // Aggregates archive tables one at a time into the current dataset
+  const importAuxiliary = useCallback(async ({ file, tables }: AuxiliaryQueue) => {
+    setUploading(true);
+    const ordered = [...tables].sort((a, b) =>
+      AUXILIARY_TABLES.findIndex(t => t.name === a.table) - AUXILIARY_TABLES.findIndex(t => t.name === b.table)
+    );
+
+    for (const { entry, table } of ordered) {
+      setStatus(`Joining ${entry}...`);
+      setProgress(0);
+      setRowsRead(0);
+      const job = startAuxiliaryIngestion(file, table, ({ bytesRead, totalBytes, rowsRead }) => {
+        setProgress(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100);
+        setRowsRead(rowsRead);
+      }, { entry });
+      jobRef.current = job;
+
+      try {
+        const aggregates = await job.result;
+        onAuxiliaryLoaded(aggregates);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          toast({ title: "Upload cancelled", description: entry });
+          break;
+        }
+        toast({
+          title: `Could not load ${entry}`,
+          description: err instanceof Error ? err.message : 'An error occurred',
+          variant: 'destructive',
+        });
+      }
+    }
+
+    jobRef.current = null;
+    setUploading(false);
+  }, [onAuxiliaryLoaded, toast]);
+
+  const ingestFile = useCallback(async (file: File, options: ReadOptions, mapping?: ColumnMapping[]) => {
     setUploading(true);
+    setStatus('Parsing...');
     setError(null);
     setProgress(0);
+    setRowsRead(0);
+    setReport(null);
+    let loaded = false;
 
     try {
-      if (!file.name.endsWith('.csv')) {
-        throw new Error('Please upload a CSV file');
+      const job = startIngestion(file, ({ bytesRead, totalBytes, rowsRead }) => {
+        setProgress(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100);
+        setRowsRead(rowsRead);
+      }, options, mapping);
+      jobRef.current = job;
+
+      const { records, report, preview } = await job.result;
+      setReport(report);
+      setReportFile(file.name);
+      setPreview(preview);
+
+      if (records.length === 0) {
+        throw new Error('No rows passed validation');
       }
 
-      Papa.parse(file, {
-        header: true,
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            setError(`CSV parsing error: ${results.errors[0].message}`);
-            return;
-          }
-
-          const data = results.data as any[];
-          if (data.length === 0) {
-            setError('File appears to be empty');
-            return;
-          }
-
-          // Validate required columns
-          const requiredColumns = ['TARGET', 'CODE_GENDER', 'DAYS_BIRTH', 'AMT_INCOME_TOTAL', 'AMT_CREDIT'];
-          const columns = Object.keys(data[0] || {});
-          const missingColumns = requiredColumns.filter(col => !columns.includes(col));
-          
-          if (missingColumns.length > 0) {
-            setError(`Missing required columns: ${missingColumns.join(', ')}`);
-            return;
-          }
-
-          setPreview(data.slice(0, 5));
-          setProgress(100);
-          setUploading(false);
-
-          // Convert to proper format
-          const processedData = data.map((row, index) => ({
-            SK_ID_CURR: row.SK_ID_CURR || 100000 + index,
-            TARGET: parseInt(row.TARGET) as 0 | 1,
-            CODE_GENDER: row.CODE_GENDER,
-            DAYS_BIRTH: parseInt(row.DAYS_BIRTH),
-            DAYS_EMPLOYED: parseInt(row.DAYS_EMPLOYED || '0'),
-            NAME_FAMILY_STATUS: row.NAME_FAMILY_STATUS || 'Unknown',
-            CNT_CHILDREN: parseInt(row.CNT_CHILDREN || '0'),
-            CNT_FAM_MEMBERS: parseInt(row.CNT_FAM_MEMBERS || '1'),
-            NAME_EDUCATION_TYPE: row.NAME_EDUCATION_TYPE || 'Unknown',
-            OCCUPATION_TYPE: row.OCCUPATION_TYPE || '',
-            NAME_HOUSING_TYPE: row.NAME_HOUSING_TYPE || 'Unknown',
-            AMT_INCOME_TOTAL: parseFloat(row.AMT_INCOME_TOTAL),
-            AMT_CREDIT: parseFloat(row.AMT_CREDIT),
-            AMT_ANNUITY: parseFloat(row.AMT_ANNUITY || '0'),
-            AMT_GOODS_PRICE: parseFloat(row.AMT_GOODS_PRICE || '0'),
-            NAME_CONTRACT_TYPE: row.NAME_CONTRACT_TYPE || 'Cash loans',
-            REGION_RATING_CLIENT: parseInt(row.REGION_RATING_CLIENT || '1'),
-            FLAG_OWN_CAR: row.FLAG_OWN_CAR || 'N',
-            FLAG_OWN_REALTY: row.FLAG_OWN_REALTY || 'N'
-          })) as HomeCreditRecord[];
-
-          onDataLoaded(processedData);
-          
-          toast({
-            title: "Data loaded successfully",
-            description: `Loaded ${data.length} records from ${file.name}`,
-          });
-        },
-        error: (error) => {
-          setError(`Failed to parse CSV: ${error.message}`);
-          setUploading(false);
-        }
+      const sheetSuffix = options.sheet ? ` (${options.sheet})` : '';
+      const name = baseName((options.entry ?? file.name).split('/').pop()) + sheetSuffix;
+      onDataLoaded(records, { name, sourceFile: file.name });
+      loaded = true;
+      
+      toast({
+        title: "Data loaded successfully",
+        description: `Loaded ${records.length.toLocaleString()} of ${report.totalRows.toLocaleString()} records from ${options.entry ?? file.name}`,
       });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        toast({ title: "Upload cancelled", description: file.name });
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
+    } finally {
+      jobRef.current = null;
       setUploading(false);
     }
-  }, [onDataLoaded, toast]);
+
+    const queued = auxiliaryQueueRef.current;
+    auxiliaryQueueRef.current = null;
+    if (loaded && queued) await importAuxiliary(queued);
+  }, [onDataLoaded, importAuxiliary, toast]);
+
+  // Files with non-standard headers, including a renamed label, go through the mapping wizard first
+  const prepareFile = useCallback(async (file: File, options: ReadOptions) => {
+    try {
+      const filePreview = await previewFile(file, options);
+      if (needsMapping(filePreview.fields, filePreview.rows)) {
+        setPendingMapping({ file, options, preview: filePreview });
+        return;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return;
+    }
+
+    await ingestFile(file, options);
+  }, [ingestFile]);
+
+  // Archives list their tables and workbooks with several sheets ask which one to import
+  const handleFileUpload = useCallback(async (file: File) => {
+    setError(null);
+    setPendingSheet(null);
+    setPendingMapping(null);
+    setPendingArchive(null);
+    auxiliaryQueueRef.current = null;
+
+    const reader = getReader(file.name);
+    if (!reader) {
+      setError(`Unsupported file type. Please upload one of: ${ACCEPTED_EXTENSIONS.join(', ')}`);
+      return;
+    }
+
+    if (reader.listEntries) {
+      setInspecting(true);
+      try {
+        setPendingArchive({ file, tables: await inspectArchive(file) });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setInspecting(false);
+      }
+      return;
+    }
+
+    if (reader.listSheets) {
+      try {
+        const sheets = await reader.listSheets(file);
+        if (sheets.length > 1) {
+          setPendingSheet({ file, sheets, sheet: sheets[0] });
+          return;
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        return;
+      }
+    }
+
+    await prepareFile(file, {});
+  }, [prepareFile]);
+
+  const confirmSheet = () => {
+    const { file, sheet } = pendingSheet;
+    setPendingSheet(null);
+    prepareFile(file, { sheet });
+  };
+
+  const confirmArchive = ({ application, auxiliary }: ArchiveSelection) => {
+    const { file } = pendingArchive;
+    setPendingArchive(null);
+    const queue = auxiliary.length > 0 ? { file, tables: auxiliary } : null;
+
+    if (application) {
+      auxiliaryQueueRef.current = queue;
+      prepareFile(file, { entry: application });
+    } else if (queue) {
+      importAuxiliary(queue);
+    }
+  };
+
+  const cancelMapping = () => {
+    auxiliaryQueueRef.current = null;
+    setPendingMapping(null);
+  };
+
+  const confirmMapping = (mapping: ColumnMapping[]) => {
+    const { file, options } = pendingMapping;
+    setPendingMapping(null);
+    ingestFile(file, options, mapping);
+  };
+
+  const cancelUpload = () => {
+    jobRef.current?.cancel();
+  };
+
+  // Same seed, same sample: keeps screenshots and demos reproducible
+  const seed = parseSeed(seedInput);
+
+  const sampleOptions = { extSources: withExtSources, history: withHistory };
 
   const loadSampleData = () => {
-    const sampleData = generateCompleteDataset(10000);
-    onDataLoaded(sampleData);
+    const { records: sampleData, auxiliary } = generateSampleDataset(seed, sampleOptions);
+    onDataLoaded(sampleData, { name: `Synthetic sample (seed ${seed})`, sourceFile: null });
+    Object.values(auxiliary).forEach(onAuxiliaryLoaded);
     setPreview(sampleData.slice(0, 5));
+    setReport(null);
     
     toast({
       title: "Sample data loaded",
-      description: "Loaded 10,000 synthetic Home Credit records for demonstration",
+      description: `Loaded ${SAMPLE_SIZE.toLocaleString()} synthetic Home Credit records from seed ${seed}${withHistory ? ' with bureau and installment history' : ''}`,
     });
   };
 
-  const downloadSampleCSV = () => {
-    const sampleData = generateCompleteDataset(100);
-    const csv = Papa.unparse(sampleData);
-    const blob = new Blob([csv], { type: 'text/csv' });
+  const saveBlob = (blob: Blob, fileName: string) => {
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'home_credit_sample.csv';
+    a.download = fileName;
     a.click();
     window.URL.revokeObjectURL(url);
   };
 
+  // With history enabled the sample is a zip laid out like the Kaggle download
+  const downloadSampleCSV = async () => {
+    const sampleData = generateSampleRecords(100, seed, sampleOptions);
+    const csv = Papa.unparse(sampleData);
+    if (!withHistory) {
+      saveBlob(new Blob([csv], { type: 'text/csv' }), `home_credit_sample_seed_${seed}.csv`);
+      return;
+    }
+
+    const tables = generateAuxiliaryTables(sampleData, seed);
+    const { ZipWriter, BlobWriter, TextReader } = await import('@zip.js/zip.js');
+    const zip = new ZipWriter(new BlobWriter('application/zip'));
+    await zip.add('application_train.csv', new TextReader(csv));
+    await zip.add('bureau.csv', new TextReader(Papa.unparse(tables.bureau)));
+    await zip.add('installments_payments.csv', new TextReader(Papa.unparse(tables.installments_payments)));
+    saveBlob(await zip.close(), `home_credit_sample_seed_${seed}.zip`);
+  };
+
   return (
     <div className="space-y-6">
       {/* Upload Area */}
@@ -131,7 +286,8 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
             Data Upload
           </CardTitle>
           <CardDescription>
-            Upload your Home Credit dataset CSV file or use sample data for exploration
+            Upload your Home Credit dataset as CSV, Parquet, Excel or NDJSON (optionally gzipped or zipped),
+            or use sample data for exploration
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -156,7 +312,7 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
             onClick={() => {
               const input = document.createElement('input');
               input.type = 'file';
-              input.accept = '.csv';
+              input.accept = ACCEPTED_EXTENSIONS.join(',');
               input.onchange = (e) => {
                 const file = (e.target as HTMLInputElement).files?.[0];
                 if (file) handleFileUpload(file);
@@ -165,26 +321,68 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
             }}
           >
             <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-            <p className="text-lg font-medium mb-2">Drop your CSV file here</p>
+            <p className="text-lg font-medium mb-2">Drop your data file here</p>
             <p className="text-sm text-muted-foreground mb-4">
               Or click to browse and select a file
             </p>
             <p className="text-xs text-muted-foreground">
-              Supports CSV files with Home Credit schema (TARGET, CODE_GENDER, DAYS_BIRTH, etc.)
+              Supports {ACCEPTED_EXTENSIONS.join(', ')} files with Home Credit schema (TARGET, CODE_GENDER,
+              DAYS_BIRTH, etc.); other headers can be mapped after selecting the file. Zip archives such as
+              the Kaggle download are unpacked and their tables detected
             </p>
           </div>
 
           {/* Progress Bar */}
           {uploading && (
             <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Uploading...</span>
-                <span>{progress}%</span>
+              <div className="flex justify-between items-center text-sm">
+                <span>{status} {rowsRead.toLocaleString()} rows read</span>
+                <div className="flex items-center gap-2">
+                  <span>{progress}%</span>
+                  <Button variant="ghost" size="sm" className="h-7 px-2" onClick={cancelUpload}>
+                    <X className="w-3 h-3 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
               <Progress value={progress} />
             </div>
           )}
 
+          {inspecting && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Reading archive contents...
+            </div>
+          )}
+
+          {/* Sheet Picker */}
+          {pendingSheet && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Sheet className="w-4 h-4" />
+                {pendingSheet.file.name} has {pendingSheet.sheets.length} sheets. Choose the one to import:
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={pendingSheet.sheet}
+                  onValueChange={(sheet) => setPendingSheet({ ...pendingSheet, sheet })}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pendingSheet.sheets.map(sheet => (
+                      <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" onClick={confirmSheet}>Continue</Button>
+                <Button size="sm" variant="ghost" onClick={() => setPendingSheet(null)}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <Alert variant="destructive">
@@ -204,18 +402,64 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
           )}
 
           {/* Action Buttons */}
-          <div className="flex gap-3 flex-wrap">
-            <Button onClick={loadSampleData} variant="default">
+          <div className="flex gap-3 flex-wrap items-center">
+            <div className="flex items-center gap-1">
+              <span className="text-sm text-muted-foreground mr-1">Seed</span>
+              <Input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                inputMode="numeric"
+                className="w-32"
+                aria-invalid={seed === null}
+              />
+              <Button variant="ghost" size="sm" className="h-9 px-2" title="Random seed" onClick={() => setSeedInput(String(randomSeed()))}>
+                <Shuffle className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button onClick={loadSampleData} variant="default" disabled={seed === null}>
               Load Sample Data
             </Button>
-            <Button onClick={downloadSampleCSV} variant="outline">
+            <Button onClick={downloadSampleCSV} variant="outline" disabled={seed === null}>
               <Download className="w-4 h-4 mr-2" />
-              Download Sample CSV
+              {withHistory ? 'Download Sample Tables' : 'Download Sample CSV'}
             </Button>
           </div>
+          <div className="flex gap-4 flex-wrap">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="sample-ext-sources" checked={withExtSources} onCheckedChange={(checked) => setWithExtSources(checked === true)} />
+              <Label htmlFor="sample-ext-sources" className="text-sm">EXT_SOURCE scores</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="sample-history" checked={withHistory} onCheckedChange={(checked) => setWithHistory(checked === true)} />
+              <Label htmlFor="sample-history" className="text-sm">Bureau and installment history</Label>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
+      {pendingArchive && (
+        <ArchiveContents
+          key={pendingArchive.file.name}
+          fileName={pendingArchive.file.name}
+          tables={pendingArchive.tables}
+          onConfirm={confirmArchive}
+          onCancel={() => setPendingArchive(null)}
+        />
+      )}
+
+      {pendingMapping && (
+        <ColumnMappingWizard
+          key={pendingMapping.file.name}
+          fileName={pendingMapping.file.name}
+          headers={pendingMapping.preview.fields}
+          sampleRows={pendingMapping.preview.rows}
+          onConfirm={confirmMapping}
+          onCancel={cancelMapping}
+        />
+      )}
+
+      {report && <IngestionReport report={report} fileName={reportFile ?? undefined} />}
+
       {/* Data Preview */}
       {preview && (
         <Card>
@@ -273,7 +517,6 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
             <div>
               <h4 className="font-medium text-primary mb-2">Required Columns</h4>
               <ul className="space-y-1 text-muted-foreground">
-                <li>• <code>TARGET</code> - 0 (repaid) or 1 (default)</li>
                 <li>• <code>CODE_GENDER</code> - M, F, or XNA</li>
                 <li>• <code>DAYS_BIRTH</code> - Age in negative days</li>
                 <li>• <code>AMT_INCOME_TOTAL</code> - Annual income</li>
@@ -283,6 +526,7 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
             <div>
               <h4 className="font-medium text-primary mb-2">Optional Columns</h4>
               <ul className="space-y-1 text-muted-foreground">
+                <li>• <code>TARGET</code> - 0 (repaid) or 1 (default); without it the dataset loads unlabelled</li>
                 <li>• <code>NAME_EDUCATION_TYPE</code> - Education level</li>
                 <li>• <code>NAME_FAMILY_STATUS</code> - Marital status</li>
                 <li>• <code>NAME_HOUSING_TYPE</code> - Housing situation</li>
@@ -291,6 +535,11 @@ export function DataUploader({ onDataLoaded }: DataUploaderProps) {
               </ul>
             </div>
           </div>
+          <p className="text-xs text-muted-foreground mt-4">
+            All {APPLICATION_COLUMNS.length} columns of <code>application_train.csv</code> are kept with their
+            types, including <code>EXT_SOURCE_1/2/3</code>, <code>FLAG_DOCUMENT_*</code> and the building-info
+            averages. Any other column is kept as numeric or categorical based on its values.
+          </p>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Check, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import { DatasetSummary } from '@/lib/dataset-catalog';
+
+interface DatasetCatalogProps {
+  datasets: DatasetSummary[];
+  activeId: string | null;
+  onActivate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function DatasetCatalog({ datasets, activeId, onActivate, onRename, onDelete }: DatasetCatalogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (dataset: DatasetSummary) => {
+    setEditingId(dataset.id);
+    setDraftName(dataset.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderOpen className="w-5 h-5" />
+          Dataset Catalog
+        </CardTitle>
+        <CardDescription>
+          Datasets saved in this browser. The active dataset is restored on startup.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {datasets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved datasets yet. Uploaded files are saved here automatically; generated data can be recreated from its seed.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {datasets.map((dataset) => {
+              const isActive = dataset.id === activeId;
+              const numericColumns = dataset.columns.filter(c => c.type === 'numeric').length;
+
+              return (
+                <div
+                  key={dataset.id}
+                  className={`border rounded-lg p-3 flex items-center justify-between gap-3 ${isActive ? 'border-primary bg-primary/5' : ''}`}
+                >
+                  <div className="min-w-0 flex-1 space-y-1">
+                    {editingId === dataset.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={draftName}
+                          onChange={(e) => setDraftName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="h-8"
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="sm" className="h-8 px-2" onClick={commitRename}>
+                          <Check className="w-3 h-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => setEditingId(null)}>
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{dataset.name}</span>
+                        {isActive && <Badge>Active</Badge>}
+                        {dataset.labelled === false && <Badge variant="outline">Unlabelled</Badge>}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {dataset.rowCount.toLocaleString()} rows
+                      {' · '}{dataset.columns.length} columns ({numericColumns} numeric, {dataset.columns.length - numericColumns} categorical)
+                      {' · '}{dataset.sourceFile || 'generated'}
+                      {' · '}{format(new Date(dataset.uploadedAt), 'MMM d, yyyy HH:mm')}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {!isActive && (
+                      <Button variant="outline" size="sm" className="h-8" onClick={() => onActivate(dataset.id)}>
+                        Activate
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => startEditing(dataset)}>
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 px-2">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete "{dataset.name}"?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This removes the {dataset.rowCount.toLocaleString()} stored rows from this browser.{dataset.id === activeId && ' The sample data is loaded in its place.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => onDelete(dataset.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
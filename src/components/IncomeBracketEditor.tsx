@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Layers } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { HomeCreditRecord } from '@/lib/synthetic-data';
+import {
+  DEFAULT_INCOME_BRACKETS,
+  IncomeBracketScheme,
+  MAX_INCOME_BRACKETS,
+  bracketIndex,
+  describeIncomeBrackets,
+  incomeThresholds,
+  quantileScheme,
+  validateIncomeBrackets
+} from '@/lib/income-brackets';
+
+interface IncomeBracketEditorProps {
+  // Active dataset; quantile cut points and the preview are computed on it
+  data: HomeCreditRecord[];
+  datasetName: string;
+  scheme: IncomeBracketScheme;
+  // null restores the default scheme
+  onChange: (scheme: IncomeBracketScheme | null) => void;
+}
+
+const QUICK_SCHEMES: { label: string; scheme: IncomeBracketScheme }[] = [
+  { label: 'Low / Mid / High', scheme: DEFAULT_INCOME_BRACKETS },
+  { label: 'Quartiles', scheme: quantileScheme(4) },
+  { label: 'Quintiles', scheme: quantileScheme(5) },
+  { label: 'Deciles', scheme: quantileScheme(10) }
+];
+
+const listText = (values: (string | number)[]) => values.join(', ');
+
+// Cut points and labels are edited as comma-separated lists
+function parseDraft(basis: IncomeBracketScheme['basis'], cutsText: string, labelsText: string): IncomeBracketScheme {
+  return {
+    basis,
+    cuts: cutsText.trim() ? cutsText.split(',').map(part => (part.trim() === '' ? NaN : Number(part))) : [],
+    labels: labelsText.split(',').map(label => label.trim())
+  };
+}
+
+export function IncomeBracketEditor({ data, datasetName, scheme, onChange }: IncomeBracketEditorProps) {
+  const [basis, setBasis] = useState(scheme.basis);
+  const [cutsText, setCutsText] = useState(listText(scheme.cuts));
+  const [labelsText, setLabelsText] = useState(listText(scheme.labels));
+  const [quantileCount, setQuantileCount] = useState(4);
+  const { toast } = useToast();
+
+  // The active scheme changes with the dataset
+  useEffect(() => {
+    setBasis(scheme.basis);
+    setCutsText(listText(scheme.cuts));
+    setLabelsText(listText(scheme.labels));
+  }, [scheme]);
+
+  const draft = useMemo(() => parseDraft(basis, cutsText, labelsText), [basis, cutsText, labelsText]);
+  const problems = useMemo(() => validateIncomeBrackets(draft), [draft]);
+  const modified = JSON.stringify(draft) !== JSON.stringify(scheme);
+
+  const preview = useMemo(() => {
+    if (problems.length > 0) return null;
+    const thresholds = incomeThresholds(data.map(r => r.AMT_INCOME_TOTAL), draft);
+    const rows = draft.labels.map((label, i) => ({
+      label,
+      from: i === 0 ? null : thresholds[i - 1],
+      to: i === thresholds.length ? null : thresholds[i],
+      count: 0,
+      labelled: 0,
+      defaults: 0
+    }));
+    data.forEach(record => {
+      if (!Number.isFinite(record.AMT_INCOME_TOTAL)) return;
+      const row = rows[bracketIndex(record.AMT_INCOME_TOTAL, thresholds)];
+      row.count++;
+      if (record.TARGET !== null) row.labelled++;
+      if (record.TARGET === 1) row.defaults++;
+    });
+    return rows;
+  }, [data, draft, problems]);
+
+  const loadDraft = (next: IncomeBracketScheme) => {
+    setBasis(next.basis);
+    setCutsText(listText(next.cuts));
+    setLabelsText(listText(next.labels));
+  };
+
+  const apply = () => {
+    onChange(draft);
+    toast({ title: 'Income brackets updated', description: `${datasetName}: ${describeIncomeBrackets(draft)}` });
+  };
+
+  const formatIncome = (value: number | null) => (value === null ? '' : `$${Math.round(value).toLocaleString()}`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Income Brackets
+        </CardTitle>
+        <CardDescription>
+          How {datasetName} is split into income brackets for the filters, the income bracket charts
+          and exports. Brackets start at their cut point.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {QUICK_SCHEMES.map(quick => (
+            <Button key={quick.label} variant="outline" size="sm" className="h-8 text-xs" onClick={() => loadDraft(quick.scheme)}>
+              {quick.label}
+            </Button>
+          ))}
+          <span className="text-xs text-muted-foreground ml-2">Equal brackets</span>
+          <Input
+            type="number"
+            min={2}
+            max={MAX_INCOME_BRACKETS}
+            value={quantileCount}
+            onChange={(e) => setQuantileCount(Number(e.target.value))}
+            className="w-20 h-8 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={!Number.isInteger(quantileCount) || quantileCount < 2 || quantileCount > MAX_INCOME_BRACKETS}
+            onClick={() => loadDraft(quantileScheme(quantileCount))}
+          >
+            Split
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr_1fr] gap-3">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>Cut points are</span>
+            <Select value={basis} onValueChange={(value) => setBasis(value as IncomeBracketScheme['basis'])}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="quantile">Percentiles</SelectItem>
+                <SelectItem value="amount">Income amounts</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>{basis === 'quantile' ? 'Percentiles, e.g. 25, 75' : 'Incomes, e.g. 100000, 200000'}</span>
+            <Input value={cutsText} onChange={(e) => setCutsText(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>Labels, lowest bracket first</span>
+            <Input value={labelsText} onChange={(e) => setLabelsText(e.target.value)} />
+          </label>
+        </div>
+
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{problems.join('; ')}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Bracket</th>
+                  <th className="text-left p-2 font-medium">Income</th>
+                  <th className="text-right p-2 font-medium">Records</th>
+                  <th className="text-right p-2 font-medium">Default rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(row => (
+                  <tr key={row.label} className="border-b">
+                    <td className="p-2 font-medium">{row.label}</td>
+                    <td className="p-2 text-muted-foreground">
+                      {row.from === null ? `below ${formatIncome(row.to)}` : row.to === null ? `${formatIncome(row.from)} and above` : `${formatIncome(row.from)} – ${formatIncome(row.to)}`}
+                    </td>
+                    <td className="p-2 text-right tabular-nums">{row.count.toLocaleString()}</td>
+                    <td className="p-2 text-right tabular-nums">
+                      {row.labelled > 0 ? `${((row.defaults / row.labelled) * 100).toFixed(2)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+          <span className="text-xs text-muted-foreground">Active: {describeIncomeBrackets(scheme)}</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              disabled={JSON.stringify(scheme) === JSON.stringify(DEFAULT_INCOME_BRACKETS)}
+              onClick={() => onChange(null)}
+            >
+              Reset to Default
+            </Button>
+            <Button disabled={problems.length > 0 || !modified} onClick={apply}>
+              Apply Brackets
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { IngestionReport as IngestionReportData } from '@/lib/ingestion';
+
+interface IngestionReportProps {
+  report: IngestionReportData;
+  fileName?: string;
+}
+
+const VISIBLE_ISSUES = 50;
+
+export function IngestionReport({ report, fileName }: IngestionReportProps) {
+  const totalIssues = report.issues.length + report.truncatedIssues;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ingestion Report</CardTitle>
+        <CardDescription>
+          Validation and type coercion results{fileName ? ` for ${fileName}` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Rows read</div>
+            <div className="text-xl font-semibold">{report.totalRows.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Rows accepted</div>
+            <div className="text-xl font-semibold text-success">{report.acceptedRows.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Rows rejected</div>
+            <div className="text-xl font-semibold text-destructive">{report.rejectedRows.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Values coerced</div>
+            <div className="text-xl font-semibold text-warning">{report.coercedValues.toLocaleString()}</div>
+          </div>
+        </div>
+
+        {totalIssues > 0 ? (
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Row</th>
+                  <th className="text-left p-2 font-medium">Column</th>
+                  <th className="text-left p-2 font-medium">Value</th>
+                  <th className="text-left p-2 font-medium">Action</th>
+                  <th className="text-left p-2 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.issues.slice(0, VISIBLE_ISSUES).map((issue, index) => (
+                  <tr key={index} className="border-b">
+                    <td className="p-2 text-muted-foreground">{issue.row}</td>
+                    <td className="p-2"><code>{issue.column}</code></td>
+                    <td className="p-2 text-muted-foreground">{issue.value === '' ? '(empty)' : issue.value.substring(0, 20)}</td>
+                    <td className="p-2">
+                      <Badge variant={issue.action === 'rejected' ? 'destructive' : 'secondary'}>
+                        {issue.action}
+                      </Badge>
+                    </td>
+                    <td className="p-2 text-muted-foreground">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">All rows passed validation without changes.</p>
+        )}
+
+        {totalIssues > VISIBLE_ISSUES && (
+          <p className="text-xs text-muted-foreground">
+            Showing first {VISIBLE_ISSUES} of {totalIssues.toLocaleString()} issues
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, FlaskConical, Save, Shuffle, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CohortSettings,
+  DEFAULT_COHORTS,
+  HomeCreditRecord,
+  OCCUPATION_TYPES,
+  RiskMultipliers,
+  ScenarioParameters,
+  generateCompleteDataset,
+  offsetMonth
+} from '@/lib/synthetic-data';
+import { DEFAULT_SEED, parseSeed, randomSeed } from '@/lib/random';
+import { DatasetSource } from '@/lib/dataset-catalog';
+import {
+  PRESET_SCENARIOS,
+  Scenario,
+  deleteScenario,
+  loadScenarios,
+  previewDefaultRate,
+  saveScenario,
+  validateScenario
+} from '@/lib/scenarios';
+
+interface ScenarioBuilderProps {
+  onGenerate: (data: HomeCreditRecord[], source: DatasetSource) => void;
+}
+
+type PortfolioKey = Exclude<keyof ScenarioParameters, 'multipliers' | 'cohorts'>;
+
+// Rates are edited as percentages and stored as fractions
+const PORTFOLIO_FIELDS: { key: PortfolioKey; label: string; percent?: boolean; step: number }[] = [
+  { key: 'baselineDefaultRate', label: 'Baseline default rate (%)', percent: true, step: 0.5 },
+  { key: 'unemploymentRate', label: 'Unemployed share (%)', percent: true, step: 1 },
+  { key: 'femaleShare', label: 'Female share (%)', percent: true, step: 1 },
+  { key: 'incomeLogMean', label: 'Income log-mean', step: 0.1 },
+  { key: 'incomeLogStd', label: 'Income log-std', step: 0.1 },
+  { key: 'ageMean', label: 'Mean age (years)', step: 1 },
+  { key: 'ageStd', label: 'Age spread (years)', step: 1 }
+];
+
+const MULTIPLIER_FIELDS: { key: keyof RiskMultipliers; label: string }[] = [
+  { key: 'ageUnder25', label: 'Age under 25' },
+  { key: 'age25To35', label: 'Age 25–35' },
+  { key: 'ageOver65', label: 'Age over 65' },
+  { key: 'incomeUnder100k', label: 'Income under 100K' },
+  { key: 'income100kTo200k', label: 'Income 100K–200K' },
+  { key: 'incomeOver500k', label: 'Income over 500K' },
+  { key: 'higherEducation', label: 'Higher education' },
+  { key: 'lowerSecondary', label: 'Lower secondary' },
+  { key: 'employedUnder1Year', label: 'Employed under 1 year' },
+  { key: 'employedOver10Years', label: 'Employed over 10 years' }
+];
+
+const MAX_RECORDS = 200000;
+const NO_OCCUPATION_DRIFT = 'none';
+
+export function ScenarioBuilder({ onGenerate }: ScenarioBuilderProps) {
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+  const [scenarioId, setScenarioId] = useState(PRESET_SCENARIOS[0].id);
+  const [parameters, setParameters] = useState<ScenarioParameters>(PRESET_SCENARIOS[0].parameters);
+  const [scenarioName, setScenarioName] = useState('');
+  const [seedInput, setSeedInput] = useState(String(DEFAULT_SEED));
+  const [recordCount, setRecordCount] = useState(10000);
+  const { toast } = useToast();
+
+  const seed = parseSeed(seedInput);
+  const invalid = validateScenario(parameters);
+  const validCount = Number.isInteger(recordCount) && recordCount > 0 && recordCount <= MAX_RECORDS;
+  const canGenerate = invalid.length === 0 && seed !== null && validCount;
+
+  const previewRate = useMemo(
+    () => (invalid.length === 0 && seed !== null ? previewDefaultRate(parameters, seed) : null),
+    [parameters, seed, invalid.length]
+  );
+
+  const selected = scenarios.find(scenario => scenario.id === scenarioId);
+  const modified = selected && JSON.stringify(selected.parameters) !== JSON.stringify(parameters);
+
+  const selectScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    setScenarioId(id);
+    setParameters(scenario.parameters);
+    setScenarioName(scenario.builtIn ? '' : scenario.name);
+  };
+
+  const setParameter = (key: PortfolioKey, value: number) => {
+    setParameters(current => ({ ...current, [key]: value }));
+  };
+
+  const setMultiplier = (key: keyof RiskMultipliers, value: number) => {
+    setParameters(current => ({ ...current, multipliers: { ...current.multipliers, [key]: value } }));
+  };
+
+  const setCohorts = (update: Partial<CohortSettings> | null) => {
+    setParameters(current => ({
+      ...current,
+      cohorts: update === null ? null : { ...(current.cohorts ?? DEFAULT_COHORTS), ...update }
+    }));
+  };
+
+  const invalidClass = (key: string) => (invalid.includes(key) ? 'border-destructive' : '');
+
+  const save = () => {
+    const name = scenarioName.trim();
+    if (!name) return;
+    const saved = saveScenario(name, parameters);
+    setScenarios(saved);
+    setScenarioId(saved.find(s => !s.builtIn && s.name === name)?.id ?? '');
+    toast({ title: 'Scenario saved', description: name });
+  };
+
+  const remove = () => {
+    setScenarios(deleteScenario(scenarioId));
+    setScenarioId('');
+    setScenarioName('');
+  };
+
+  const generate = () => {
+    const name = scenarioName.trim() || (selected && !modified ? selected.name : 'Custom scenario');
+    const data = generateCompleteDataset(recordCount, seed, parameters);
+    onGenerate(data, { name: `${name} (seed ${seed})`, sourceFile: null });
+    toast({
+      title: 'Scenario generated',
+      description: `${data.length.toLocaleString()} synthetic records from "${name}"`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Scenario Builder
+        </CardTitle>
+        <CardDescription>
+          Adjust the synthetic generator's portfolio mix and risk multipliers, check the resulting
+          default rate, and generate a dataset from it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Scenarios */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={scenarioId} onValueChange={selectScenario}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Custom scenario" />
+            </SelectTrigger>
+            <SelectContent>
+              {scenarios.map(scenario => (
+                <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && !selected.builtIn && (
+            <Button variant="ghost" size="sm" className="h-9 px-2" onClick={remove}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Input
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            placeholder="Scenario name"
+            className="w-56"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9"
+            disabled={!scenarioName.trim() || invalid.length > 0}
+            onClick={save}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Scenario
+          </Button>
+        </div>
+
+        {/* Portfolio parameters */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Portfolio</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {PORTFOLIO_FIELDS.map(field => {
+              const value = parameters[field.key];
+              return (
+                <label key={field.key} className="space-y-1 text-xs text-muted-foreground">
+                  <span>{field.label}</span>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    value={field.percent ? Number((value * 100).toFixed(2)) : value}
+                    onChange={(e) => setParameter(field.key, field.percent ? Number(e.target.value) / 100 : Number(e.target.value))}
+                    aria-invalid={invalid.includes(field.key)}
+                    className={invalid.includes(field.key) ? 'border-destructive' : ''}
+                  />
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Risk multipliers */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Risk multipliers</h4>
+          <p className="text-xs text-muted-foreground">
+            Each factor scales the baseline default probability; the result is capped at 50%.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {MULTIPLIER_FIELDS.map(field => (
+              <label key={field.key} className="space-y-1 text-xs text-muted-foreground">
+                <span>{field.label}</span>
+                <Input
+                  type="number"
+                  step={0.1}
+                  value={parameters.multipliers[field.key]}
+                  onChange={(e) => setMultiplier(field.key, Number(e.target.value))}
+                  aria-invalid={invalid.includes(`multipliers.${field.key}`)}
+                  className={invalid.includes(`multipliers.${field.key}`) ? 'border-destructive' : ''}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Time cohorts */}
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="scenario-cohorts"
+              checked={!!parameters.cohorts}
+              onCheckedChange={(checked) => setCohorts(checked === true ? {} : null)}
+            />
+            <Label htmlFor="scenario-cohorts" className="text-sm font-medium">Time cohorts</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Assigns each record an APPLICATION_MONTH and drifts the portfolio linearly from the first month to the last.
+          </p>
+          {parameters.cohorts && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <label className="space-y-1 text-xs text-muted-foreground">
+                <span>First month</span>
+                <Input
+                  type="month"
+                  value={parameters.cohorts.startMonth}
+                  onChange={(e) => setCohorts({ startMonth: e.target.value })}
+                  aria-invalid={invalid.includes('cohorts.startMonth')}
+                  className={invalidClass('cohorts.startMonth')}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                <span>Months</span>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={parameters.cohorts.months}
+                  onChange={(e) => setCohorts({ months: Number(e.target.value) })}
+                  aria-invalid={invalid.includes('cohorts.months')}
+                  className={invalidClass('cohorts.months')}
+                />
+              </label>
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <span>Range</span>
+                <div className="h-10 flex items-center text-sm text-foreground">
+                  {invalid.some(key => key === 'cohorts.startMonth' || key === 'cohorts.months')
+                    ? '—'
+                    : `${parameters.cohorts.startMonth} to ${offsetMonth(parameters.cohorts.startMonth, parameters.cohorts.months - 1)}`}
+                </div>
+              </div>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                <span>Income drift (log-mean change)</span>
+                <Input
+                  type="number"
+                  step={0.05}
+                  value={parameters.cohorts.incomeDrift}
+                  onChange={(e) => setCohorts({ incomeDrift: Number(e.target.value) })}
+                  aria-invalid={invalid.includes('cohorts.incomeDrift')}
+                  className={invalidClass('cohorts.incomeDrift')}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                <span>Default rate drift (% change)</span>
+                <Input
+                  type="number"
+                  step={5}
+                  value={Number((parameters.cohorts.defaultRateDrift * 100).toFixed(2))}
+                  onChange={(e) => setCohorts({ defaultRateDrift: Number(e.target.value) / 100 })}
+                  aria-invalid={invalid.includes('cohorts.defaultRateDrift')}
+                  className={invalidClass('cohorts.defaultRateDrift')}
+                />
+              </label>
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <span>Occupation mix shift</span>
+                <div className="flex gap-2">
+                  <Select
+                    value={parameters.cohorts.occupationDrift?.occupation ?? NO_OCCUPATION_DRIFT}
+                    onValueChange={(value) =>
+                      setCohorts({
+                        occupationDrift: value === NO_OCCUPATION_DRIFT
+                          ? null
+                          : { occupation: value, share: parameters.cohorts.occupationDrift?.share ?? 0.2 }
+                      })
+                    }
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_OCCUPATION_DRIFT}>None</SelectItem>
+                      {OCCUPATION_TYPES.map(occupation => (
+                        <SelectItem key={occupation} value={occupation}>{occupation}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {parameters.cohorts.occupationDrift && (
+                    <Input
+                      type="number"
+                      step={5}
+                      title="Share of applicants moved into this occupation by the last month (%)"
+                      value={Number((parameters.cohorts.occupationDrift.share * 100).toFixed(2))}
+                      onChange={(e) =>
+                        setCohorts({
+                          occupationDrift: { ...parameters.cohorts.occupationDrift, share: Number(e.target.value) / 100 }
+                        })
+                      }
+                      aria-invalid={invalid.includes('cohorts.occupationDrift')}
+                      className={`w-20 ${invalidClass('cohorts.occupationDrift')}`}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {invalid.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Some parameters are out of range: {invalid.join(', ')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Preview and generation */}
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+          <div className="text-sm">
+            <span className="text-muted-foreground">Preview default rate: </span>
+            <span className="font-semibold">{previewRate === null ? '—' : `${previewRate.toFixed(2)}%`}</span>
+            <span className="text-xs text-muted-foreground"> (5,000-record sample)</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Records</span>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_RECORDS}
+              value={recordCount}
+              onChange={(e) => setRecordCount(Number(e.target.value))}
+              aria-invalid={!validCount}
+              className="w-28"
+            />
+            <span className="text-sm text-muted-foreground ml-2">Seed</span>
+            <Input
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              inputMode="numeric"
+              aria-invalid={seed === null}
+              className="w-32"
+            />
+            <Button variant="ghost" size="sm" className="h-9 px-2" title="Random seed" onClick={() => setSeedInput(String(randomSeed()))}>
+              <Shuffle className="w-4 h-4" />
+            </Button>
+            <Button disabled={!canGenerate} onClick={generate}>
+              Generate Dataset
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
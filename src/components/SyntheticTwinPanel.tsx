@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Download, Loader2, Shuffle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { HomeCreditRecord, addIncomeBrackets } from '@/lib/synthetic-data';
+import { IncomeBracketScheme } from '@/lib/income-brackets';
+import { downloadCSV } from '@/lib/csv-file';
+import { DatasetSource } from '@/lib/dataset-catalog';
+import { DEFAULT_SEED, parseSeed, randomSeed } from '@/lib/random';
+import { FidelityReport, compareFidelity, fitTwinModel, sampleTwin } from '@/lib/synthetic-twin';
+
+interface SyntheticTwinPanelProps {
+  data: HomeCreditRecord[];
+  datasetName: string;
+  // The source dataset's bracketing, applied to the downloaded twin
+  incomeBrackets: IncomeBracketScheme;
+  onUseDataset: (data: HomeCreditRecord[], source: DatasetSource) => void;
+}
+
+const MAX_RECORDS = 500000;
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(2)}%`);
+
+// KS / total variation below 0.05 is close, above 0.1 noticeably off
+function distanceBadge(distance: number) {
+  if (distance < 0.05) return <Badge variant="secondary">Close</Badge>;
+  if (distance < 0.1) return <Badge variant="outline">Fair</Badge>;
+  return <Badge variant="destructive">Off</Badge>;
+}
+
+export function SyntheticTwinPanel({ data, datasetName, incomeBrackets, onUseDataset }: SyntheticTwinPanelProps) {
+  const [recordCount, setRecordCount] = useState(() => Math.min(data.length, MAX_RECORDS));
+  const [seedInput, setSeedInput] = useState(String(DEFAULT_SEED));
+  const [working, setWorking] = useState(false);
+  const [twin, setTwin] = useState<{ records: HomeCreditRecord[]; report: FidelityReport } | null>(null);
+  const { toast } = useToast();
+
+  const seed = parseSeed(seedInput);
+  const validCount = Number.isInteger(recordCount) && recordCount > 0 && recordCount <= MAX_RECORDS;
+
+  const synthesize = () => {
+    setWorking(true);
+    setTwin(null);
+    // Let the spinner render before the main thread is busy fitting
+    setTimeout(() => {
+      try {
+        const model = fitTwinModel(data, seed);
+        const records = sampleTwin(model, recordCount, seed + 1);
+        setTwin({ records, report: compareFidelity(data, records, model) });
+      } catch (err) {
+        toast({
+          title: 'Could not synthesize dataset',
+          description: err instanceof Error ? err.message : 'Unknown error',
+          variant: 'destructive',
+        });
+      } finally {
+        setWorking(false);
+      }
+    }, 0);
+  };
+
+  const useTwin = () => {
+    onUseDataset(twin.records, { name: `${datasetName} (synthetic twin, seed ${seed})`, sourceFile: null });
+    toast({
+      title: 'Synthetic twin loaded',
+      description: `${twin.records.length.toLocaleString()} records modelled on ${datasetName}`,
+    });
+  };
+
+  const downloadTwin = () => {
+    downloadCSV(`${datasetName.replace(/[^\w-]+/g, '_')}_synthetic.csv`, addIncomeBrackets(twin.records, incomeBrackets));
+  };
+
+  const report = twin?.report;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="w-5 h-5" />
+          Synthetic Twin
+        </CardTitle>
+        <CardDescription>
+          Synthesize a shareable dataset from <strong>{datasetName}</strong>. Column distributions and their
+          dependence are learned from the active data; no source row is copied.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Records</span>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_RECORDS}
+            value={recordCount}
+            onChange={(e) => setRecordCount(Number(e.target.value))}
+            aria-invalid={!validCount}
+            className="w-32"
+          />
+          <span className="text-sm text-muted-foreground ml-2">Seed</span>
+          <Input
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            inputMode="numeric"
+            aria-invalid={seed === null}
+            className="w-32"
+          />
+          <Button variant="ghost" size="sm" className="h-9 px-2" title="Random seed" onClick={() => setSeedInput(String(randomSeed()))}>
+            <Shuffle className="w-4 h-4" />
+          </Button>
+          <Button disabled={working || seed === null || !validCount || data.length === 0} onClick={synthesize}>
+            {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Synthesize from This Dataset
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-4">
+            {/* Fidelity summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div className="border rounded-lg p-3">
+                <div className="text-xs text-muted-foreground">Default rate (real → synthetic)</div>
+                <div className="font-semibold">
+                  {formatRate(report.realDefaultRate)} → {formatRate(report.syntheticDefaultRate)}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-xs text-muted-foreground">Records (real → synthetic)</div>
+                <div className="font-semibold">
+                  {report.realRows.toLocaleString()} → {report.syntheticRows.toLocaleString()}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-xs text-muted-foreground">Correlation error</div>
+                <div className="font-semibold">{report.correlationError.toFixed(3)}</div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-xs text-muted-foreground">Exact copies of real rows</div>
+                <div className="font-semibold">{report.exactCopies.toLocaleString()}</div>
+              </div>
+            </div>
+
+            {/* Default rate by segment */}
+            {report.defaultRateBySegment.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2 font-medium">Segment</th>
+                      <th className="text-right p-2 font-medium">Real default rate</th>
+                      <th className="text-right p-2 font-medium">Synthetic default rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.defaultRateBySegment.map(segment => (
+                      <tr key={`${segment.column}:${segment.category}`} className="border-b">
+                        <td className="p-2">
+                          <code className="text-xs">{segment.column}</code> = {segment.category}
+                        </td>
+                        <td className="p-2 text-right">{formatRate(segment.realRate)}</td>
+                        <td className="p-2 text-right">{formatRate(segment.syntheticRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Per-column distribution distance */}
+            <div className="overflow-x-auto max-h-80">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Column</th>
+                    <th className="text-left p-2 font-medium">Distance</th>
+                    <th className="text-right p-2 font-medium">Real mean</th>
+                    <th className="text-right p-2 font-medium">Synthetic mean</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.columns.map(column => (
+                    <tr key={column.column} className="border-b">
+                      <td className="p-2"><code className="text-xs">{column.column}</code></td>
+                      <td className="p-2">
+                        <span className="flex items-center gap-2">
+                          {column.distance.toFixed(3)}
+                          <span className="text-xs text-muted-foreground">{column.type === 'numeric' ? 'KS' : 'TV'}</span>
+                          {distanceBadge(column.distance)}
+                        </span>
+                      </td>
+                      <td className="p-2 text-right">{column.realMean?.toLocaleString(undefined, { maximumFractionDigits: 2 }) ?? '—'}</td>
+                      <td className="p-2 text-right">{column.syntheticMean?.toLocaleString(undefined, { maximumFractionDigits: 2 }) ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={downloadTwin}>
+                <Download className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+              <Button onClick={useTwin}>Use as Active Dataset</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
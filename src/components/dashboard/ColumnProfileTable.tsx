@@ -0,0 +1,62 @@
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { ColumnProfile } from "@/lib/data-profile"
+
+interface ColumnProfileTableProps {
+  columns: ColumnProfile[]
+}
+
+function formatNumber(value: number | null) {
+  if (value === null) return "—"
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString() : Number(value.toFixed(3)).toString()
+}
+
+export function ColumnProfileTable({ columns }: ColumnProfileTableProps) {
+  return (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-card">
+          <tr className="border-b">
+            <th className="text-left p-2 font-medium">Column</th>
+            <th className="text-left p-2 font-medium">Type</th>
+            <th className="text-right p-2 font-medium">Missing</th>
+            <th className="text-right p-2 font-medium">Distinct</th>
+            <th className="text-right p-2 font-medium">Min</th>
+            <th className="text-right p-2 font-medium">Max</th>
+            <th className="text-right p-2 font-medium">Zeros</th>
+            <th className="text-left p-2 font-medium">Sentinels</th>
+          </tr>
+        </thead>
+        <tbody>
+          {columns.map((column) => (
+            <tr key={column.column} className="border-b">
+              <td className="p-2">
+                <code className="text-xs">{column.column}</code>
+                {column.derived && (
+                  <Badge variant="outline" className="ml-2 text-[10px]">derived</Badge>
+                )}
+              </td>
+              <td className="p-2 text-muted-foreground">{column.type}</td>
+              <td className={`p-2 text-right ${column.missingRate > 0 ? "text-warning" : "text-muted-foreground"}`}>
+                {column.missingRate}%
+              </td>
+              <td className="p-2 text-right text-muted-foreground">{column.distinctCount.toLocaleString()}</td>
+              <td className="p-2 text-right text-muted-foreground">{formatNumber(column.min)}</td>
+              <td className="p-2 text-right text-muted-foreground">{formatNumber(column.max)}</td>
+              <td className="p-2 text-right text-muted-foreground">
+                {column.zeroRate === null ? "—" : `${column.zeroRate}%`}
+              </td>
+              <td className="p-2 text-xs text-muted-foreground">
+                {column.sentinels.map((sentinel) => (
+                  <div key={String(sentinel.value)} title={sentinel.description}>
+                    <code>{sentinel.value}</code> × {sentinel.count.toLocaleString()} ({sentinel.rate}%)
+                  </div>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import * as React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { MetricComparison, formatDelta, formatMetric, formatPValue, isSignificant } from "@/lib/compare"
+
+interface ComparisonKPICardProps {
+  metric: MetricComparison
+  className?: string
+}
+
+// A KPI for segments A and B side by side, with the A - B delta and, for
+// proportions, whether the difference is statistically significant
+export function ComparisonKPICard({ metric, className }: ComparisonKPICardProps) {
+  const significant = isSignificant(metric.test)
+
+  return (
+    <Card className={cn(
+      "transition-all duration-300 hover:shadow-hover",
+      significant && "border-primary/30 bg-primary/5",
+      className
+    )}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">
+          {metric.label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-xs text-muted-foreground">A</div>
+              <div className="text-lg font-bold">{formatMetric(metric.a, metric.format)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">B</div>
+              <div className="text-lg font-bold">{formatMetric(metric.b, metric.format)}</div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Δ {formatDelta(metric.delta, metric.format)}</span>
+            {metric.test && (
+              <span
+                className={cn("text-xs font-medium", significant ? "text-primary" : "text-muted-foreground")}
+                title={`Two-proportion z-test, z = ${metric.test.z.toFixed(2)}`}
+              >
+                {significant ? "Significant" : "Not significant"} · {formatPValue(metric.test.pValue)}
+              </span>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
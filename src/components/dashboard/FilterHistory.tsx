@@ -0,0 +1,100 @@
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Redo2, Undo2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { RangeBounds } from "@/lib/filters"
+import { describeFilterChange } from "@/lib/filter-history"
+import { encodeFilters } from "@/lib/filter-url"
+import { SelectionSummary } from "@/lib/data-engine"
+import { FilterHistory } from "@/hooks/use-filter-history"
+
+// Shortcuts stay with the text field while one has focus
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+interface FilterHistoryControlsProps {
+  history: FilterHistory
+}
+
+// Undo/redo buttons; also binds Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y
+export function FilterHistoryControls({ history }: FilterHistoryControlsProps) {
+  const { canUndo, canRedo, undo, redo } = history
+  const historyRef = React.useRef(history)
+  historyRef.current = history
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return
+      const key = event.key.toLowerCase()
+      const current = historyRef.current
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        current.undo()
+      } else if ((key === "z" && event.shiftKey) || (key === "y" && event.ctrlKey)) {
+        event.preventDefault()
+        current.redo()
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  return (
+    <div className="flex items-center">
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={!canUndo} onClick={undo} title="Undo filter change (Ctrl+Z)" aria-label="Undo filter change">
+        <Undo2 className="w-3 h-3" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={!canRedo} onClick={redo} title="Redo filter change (Ctrl+Shift+Z)" aria-label="Redo filter change">
+        <Redo2 className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
+
+interface FilterTimelineProps {
+  history: FilterHistory
+  // Full span of each range column, shown for ranges that were unset
+  bounds: Record<string, RangeBounds | null>
+  // Record counts by encoded filter state, from the data engine
+  summaries: Record<string, SelectionSummary>
+}
+
+// Every filter change this session, newest first; clicking one returns to it
+export function FilterTimeline({ history, bounds, summaries }: FilterTimelineProps) {
+  const { entries, index, jumpTo } = history
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No filter changes yet.</p>
+  }
+
+  return (
+    <div className="space-y-1 max-h-72 overflow-y-auto">
+      {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+        <button
+          key={entry.id}
+          type="button"
+          onClick={() => jumpTo(i)}
+          className={cn(
+            "w-full text-left rounded px-3 py-2 text-sm border transition-colors",
+            i === index ? "border-primary/40 bg-primary/10" : "border-transparent hover:bg-muted",
+            i > index && "opacity-60"
+          )}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="space-y-0.5 min-w-0">
+              {describeFilterChange(entry.previous, entry.filters, bounds).map(line => (
+                <div key={line} className="truncate" title={line}>{line}</div>
+              ))}
+            </div>
+            <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+              <div className="tabular-nums">{summaries[encodeFilters(entry.filters)]?.count.toLocaleString() ?? "…"} records</div>
+              <div>{new Date(entry.at).toLocaleTimeString()}</div>
+            </div>
+          </div>
+        </button>
+      ))}
+    </div>
+  )
+}
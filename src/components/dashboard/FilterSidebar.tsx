@@ -5,68 +5,205 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { Checkbox } from "@/components/ui/checkbox"
-import { RotateCcw } from "lucide-react"
-
-export interface FilterState {
-  gender: string[]
-  education: string[]
-  familyStatus: string[]
-  housingType: string[]
-  ageRange: [number, number]
-  incomeBracket: string
-  employmentRange: [number, number]
-}
+import { Plus, RotateCcw, X } from "lucide-react"
+import type { ColumnProfile } from "@/lib/data-profile"
+import {
+  FacetKind,
+  FacetOption,
+  FilterField,
+  FilterState,
+  RangeBounds,
+  filterFieldLabel,
+  formatFilterValue,
+  withCategory,
+  withRange
+} from "@/lib/filters"
 
 interface FilterSidebarProps {
   filters: FilterState
+  // Facets shown in the sidebar, in order
+  fields: FilterField[]
+  // Options and slider bounds derived from the active dataset
+  facets: Record<string, FacetOption[]>
+  bounds: Record<string, RangeBounds | null>
+  // Columns of the active dataset that can be added as facets
+  columns: ColumnProfile[]
   onFiltersChange: (filters: FilterState) => void
+  onFieldsChange: (fields: FilterField[]) => void
   onReset: () => void
 }
 
-const genderOptions = ["M", "F", "XNA"]
-const educationOptions = [
-  "Secondary / secondary special",
-  "Higher education", 
-  "Incomplete higher",
-  "Lower secondary",
-  "Academic degree"
-]
-const familyStatusOptions = [
-  "Married",
-  "Single / not married",
-  "Civil marriage",
-  "Separated",
-  "Widow"
-]
-const housingTypeOptions = [
-  "House / apartment",
-  "With parents",
-  "Municipal apartment",
-  "Rented apartment",
-  "Office apartment",
-  "Co-op apartment"
-]
-const incomeBracketOptions = [
-  { value: "all", label: "All Income Levels" },
-  { value: "low", label: "Low (Q1)" },
-  { value: "mid", label: "Mid (Q2-Q3)" },
-  { value: "high", label: "High (Q4)" }
-]
-
-export function FilterSidebar({ filters, onFiltersChange, onReset }: FilterSidebarProps) {
-  const updateFilter = (key: keyof FilterState, value: any) => {
-    onFiltersChange({
-      ...filters,
-      [key]: value
-    })
+// Long option lists (e.g. ORGANIZATION_TYPE) show the most frequent values
+const MAX_OPTIONS = 50
+
+const fieldKey = (field: FilterField) => `${field.kind}:${field.column}`
+
+function formatBound(value: number, step: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: step >= 1 ? 0 : Math.round(-Math.log10(step)) })
+}
+
+interface CategoryFacetProps {
+  column: string
+  options: FacetOption[]
+  selected: string[]
+  onChange: (values: string[]) => void
+}
+
+function CategoryFacet({ column, options, selected, onChange }: CategoryFacetProps) {
+  if (options.length === 0) {
+    return <p className="text-xs text-muted-foreground">No values in this dataset</p>
+  }
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value])
+  }
+
+  const shown = options.filter((option, i) => i < MAX_OPTIONS || selected.includes(option.value))
+
+  return (
+    <>
+      {shown.map((option) => (
+        <div key={option.value} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${column}-${option.value}`}
+            checked={selected.includes(option.value)}
+            onCheckedChange={() => toggle(option.value)}
+          />
+          <Label
+            htmlFor={`${column}-${option.value}`}
+            className={`flex-1 text-xs leading-tight ${option.count === 0 ? "text-muted-foreground" : ""}`}
+          >
+            {formatFilterValue(column, option.value)}
+          </Label>
+          <span className="text-xs text-muted-foreground tabular-nums">{option.count.toLocaleString()}</span>
+        </div>
+      ))}
+      {options.length > shown.length && (
+        <p className="text-xs text-muted-foreground">
+          +{(options.length - shown.length).toLocaleString()} less frequent values
+        </p>
+      )}
+    </>
+  )
+}
+
+interface RangeFacetProps {
+  bounds: RangeBounds | null
+  range: [number, number] | undefined
+  onChange: (range: [number, number] | null) => void
+}
+
+function RangeFacet({ bounds, range, onChange }: RangeFacetProps) {
+  if (!bounds) {
+    return <p className="text-xs text-muted-foreground">No numeric values in this dataset</p>
+  }
+
+  const value = range ?? [bounds.min, bounds.max]
+
+  return (
+    <div className="space-y-3">
+      <Slider
+        value={value}
+        onValueChange={(next) => {
+          const [min, max] = next as [number, number]
+          // Dragging back to the full span clears the filter
+          onChange(min <= bounds.min && max >= bounds.max ? null : [min, max])
+        }}
+        min={bounds.min}
+        max={bounds.max}
+        step={bounds.step}
+        className="w-full"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatBound(value[0], bounds.step)}</span>
+        <span>{formatBound(value[1], bounds.step)}</span>
+      </div>
+    </div>
+  )
+}
+
+interface AddFacetProps {
+  fields: FilterField[]
+  columns: ColumnProfile[]
+  onAdd: (field: FilterField) => void
+}
+
+function AddFacet({ fields, columns, onAdd }: AddFacetProps) {
+  const [column, setColumn] = React.useState("")
+  const [kind, setKind] = React.useState<FacetKind>("category")
+
+  const used = new Set(fields.map(fieldKey))
+  const profile = columns.find(c => c.column === column)
+  // Any column can be a category facet; ranges need numeric values
+  const kinds: FacetKind[] = profile?.type === "numeric" ? ["category", "range"] : ["category"]
+  const effectiveKind = kinds.includes(kind) ? kind : "category"
+  const available = columns.filter(c => !used.has(`category:${c.column}`) || (c.type === "numeric" && !used.has(`range:${c.column}`)))
+
+  const add = () => {
+    onAdd({ column, kind: effectiveKind })
+    setColumn("")
   }
 
-  const toggleArrayFilter = (key: "gender" | "education" | "familyStatus" | "housingType", value: string) => {
-    const current = filters[key]
-    const updated = current.includes(value)
-      ? current.filter(item => item !== value)
-      : [...current, value]
-    updateFilter(key, updated)
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm">Add Filter</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Select value={column} onValueChange={setColumn}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a column" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((c) => (
+              <SelectItem key={c.column} value={c.column}>
+                {filterFieldLabel(c.column)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Select value={effectiveKind} onValueChange={(value) => setKind(value as FacetKind)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {kinds.map((k) => (
+                <SelectItem key={k} value={k}>
+                  {k === "category" ? "Values" : "Range"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-10"
+            disabled={!column || used.has(`${effectiveKind}:${column}`)}
+            onClick={add}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function FilterSidebar({
+  filters,
+  fields,
+  facets,
+  bounds,
+  columns,
+  onFiltersChange,
+  onFieldsChange,
+  onReset
+}: FilterSidebarProps) {
+  const removeField = (field: FilterField) => {
+    onFieldsChange(fields.filter(f => fieldKey(f) !== fieldKey(field)))
+    onFiltersChange(field.kind === "category" ? withCategory(filters, field.column, []) : withRange(filters, field.column, null))
   }
 
   return (
@@ -85,160 +222,45 @@ export function FilterSidebar({ filters, onFiltersChange, onReset }: FilterSideb
       </div>
 
       <div className="space-y-6">
-        {/* Gender Filter */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Gender</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            {genderOptions.map((option) => (
-              <div key={option} className="flex items-center space-x-2">
-                <Checkbox
-                  id={`gender-${option}`}
-                  checked={filters.gender.includes(option)}
-                  onCheckedChange={() => toggleArrayFilter("gender", option)}
+        {fields.map((field) => (
+          <Card key={fieldKey(field)}>
+            <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-sm">{filterFieldLabel(field.column)}</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                title="Remove filter"
+                onClick={() => removeField(field)}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </CardHeader>
+            <CardContent className={field.kind === "category" ? "space-y-2 max-h-40 overflow-y-auto" : undefined}>
+              {field.kind === "category" ? (
+                <CategoryFacet
+                  column={field.column}
+                  options={facets[field.column] || []}
+                  selected={filters.categories[field.column] || []}
+                  onChange={(values) => onFiltersChange(withCategory(filters, field.column, values))}
                 />
-                <Label htmlFor={`gender-${option}`} className="text-sm">
-                  {option === "XNA" ? "Not Specified" : option === "M" ? "Male" : "Female"}
-                </Label>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
-
-        {/* Age Range */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Age Range</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              <Slider
-                value={filters.ageRange}
-                onValueChange={(value) => updateFilter("ageRange", value as [number, number])}
-                min={18}
-                max={80}
-                step={1}
-                className="w-full"
-              />
-              <div className="flex justify-between text-xs text-muted-foreground">
-                <span>{filters.ageRange[0]} years</span>
-                <span>{filters.ageRange[1]} years</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Income Bracket */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Income Bracket</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <Select
-              value={filters.incomeBracket}
-              onValueChange={(value) => updateFilter("incomeBracket", value)}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {incomeBracketOptions.map((option) => (
-                  <SelectItem key={option.value} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </CardContent>
-        </Card>
-
-        {/* Employment Range */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Employment Years</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              <Slider
-                value={filters.employmentRange}
-                onValueChange={(value) => updateFilter("employmentRange", value as [number, number])}
-                min={0}
-                max={40}
-                step={1}
-                className="w-full"
-              />
-              <div className="flex justify-between text-xs text-muted-foreground">
-                <span>{filters.employmentRange[0]} years</span>
-                <span>{filters.employmentRange[1]} years</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Education */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Education Level</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2 max-h-40 overflow-y-auto">
-            {educationOptions.map((option) => (
-              <div key={option} className="flex items-center space-x-2">
-                <Checkbox
-                  id={`education-${option}`}
-                  checked={filters.education.includes(option)}
-                  onCheckedChange={() => toggleArrayFilter("education", option)}
-                />
-                <Label htmlFor={`education-${option}`} className="text-xs leading-tight">
-                  {option}
-                </Label>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
-
-        {/* Family Status */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Family Status</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            {familyStatusOptions.map((option) => (
-              <div key={option} className="flex items-center space-x-2">
-                <Checkbox
-                  id={`family-${option}`}
-                  checked={filters.familyStatus.includes(option)}
-                  onCheckedChange={() => toggleArrayFilter("familyStatus", option)}
+              ) : (
+                <RangeFacet
+                  bounds={bounds[field.column]}
+                  range={filters.ranges[field.column]}
+                  onChange={(range) => onFiltersChange(withRange(filters, field.column, range))}
                 />
-                <Label htmlFor={`family-${option}`} className="text-xs">
-                  {option}
-                </Label>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
-
-        {/* Housing Type */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Housing Type</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2 max-h-40 overflow-y-auto">
-            {housingTypeOptions.map((option) => (
-              <div key={option} className="flex items-center space-x-2">
-                <Checkbox
-                  id={`housing-${option}`}
-                  checked={filters.housingType.includes(option)}
-                  onCheckedChange={() => toggleArrayFilter("housingType", option)}
-                />
-                <Label htmlFor={`housing-${option}`} className="text-xs">
-                  {option}
-                </Label>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+
+        <AddFacet
+          fields={fields}
+          columns={columns}
+          onAdd={(field) => onFieldsChange([...fields, field])}
+        />
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,314 @@
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, FolderOpen, ListPlus, Plus, Save, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { ColumnProfile } from "@/lib/data-profile"
+import { filterFieldLabel } from "@/lib/filters"
+import { downloadJSON, pickJSONFile } from "@/lib/json-file"
+import {
+  OPERATOR_LABELS,
+  QueryCondition,
+  QueryGroup,
+  QueryNode,
+  QueryOperator,
+  SavedQuery,
+  createCondition,
+  createGroup,
+  deleteSavedQuery,
+  describeQuery,
+  isActiveQuery,
+  loadSavedQueries,
+  parseQuery,
+  removeNode,
+  saveQuery,
+  serializeQuery,
+  updateNode
+} from "@/lib/query"
+
+interface QueryBuilderProps {
+  query: QueryGroup | null
+  // Active dataset's columns, and the most common values of each column the
+  // conditions name (see queryColumns)
+  columns: ColumnProfile[]
+  suggestions: Record<string, string[]>
+  onChange: (query: QueryGroup | null) => void
+}
+
+// Operators that compare numbers need a numeric column
+const NUMERIC_OPERATORS: QueryOperator[] = ["gt", "lt", "between"]
+
+interface ConditionEditorProps {
+  condition: QueryCondition
+  columns: ColumnProfile[]
+  suggestions: Record<string, string[]>
+  onChange: (condition: QueryCondition) => void
+  onRemove: () => void
+}
+
+function ConditionEditor({ condition, columns, suggestions, onChange, onRemove }: ConditionEditorProps) {
+  // "in" values are typed as a comma-separated list; keep the raw text while editing
+  const [listText, setListText] = React.useState(condition.values.join(", "))
+  const suggested = suggestions[condition.column] ?? []
+
+  const profile = columns.find(c => c.column === condition.column)
+  const operators = (Object.keys(OPERATOR_LABELS) as QueryOperator[])
+    .filter(operator => profile?.type === "numeric" || !NUMERIC_OPERATORS.includes(operator))
+  const listId = `query-values-${condition.id}`
+
+  const setOperator = (operator: QueryOperator) => {
+    // Equality values carry over to "in"; other switches start from scratch
+    const values = operator === "in" && condition.operator === "eq" ? condition.values : []
+    setListText(values.join(", "))
+    onChange({ ...condition, operator, values })
+  }
+
+  const setValue = (index: number, value: string) => {
+    const values = [...condition.values]
+    values[index] = value
+    onChange({ ...condition, values })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={condition.column}
+        onValueChange={(column) => onChange({ ...condition, column, operator: "eq", values: [] })}
+      >
+        <SelectTrigger className="w-48 h-8 text-xs">
+          <SelectValue placeholder="Column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((c) => (
+            <SelectItem key={c.column} value={c.column}>
+              {filterFieldLabel(c.column)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={condition.operator} onValueChange={(value) => setOperator(value as QueryOperator)}>
+        <SelectTrigger className="w-28 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {condition.operator === "eq" && (
+        <Input
+          list={listId}
+          value={condition.values[0] ?? ""}
+          onChange={(e) => setValue(0, e.target.value)}
+          placeholder="Value"
+          className="w-44 h-8 text-xs"
+        />
+      )}
+      {condition.operator === "in" && (
+        <Input
+          list={listId}
+          value={listText}
+          onChange={(e) => {
+            setListText(e.target.value)
+            onChange({ ...condition, values: e.target.value.split(",").map(v => v.trim()).filter(Boolean) })
+          }}
+          placeholder="Values, comma-separated"
+          className="w-64 h-8 text-xs"
+        />
+      )}
+      {(condition.operator === "gt" || condition.operator === "lt") && (
+        <Input
+          type="number"
+          value={condition.values[0] ?? ""}
+          onChange={(e) => setValue(0, e.target.value)}
+          placeholder="Value"
+          className="w-28 h-8 text-xs"
+        />
+      )}
+      {condition.operator === "between" && (
+        <>
+          <Input
+            type="number"
+            value={condition.values[0] ?? ""}
+            onChange={(e) => setValue(0, e.target.value)}
+            placeholder="Min"
+            className="w-24 h-8 text-xs"
+          />
+          <span className="text-xs text-muted-foreground">and</span>
+          <Input
+            type="number"
+            value={condition.values[1] ?? ""}
+            onChange={(e) => setValue(1, e.target.value)}
+            placeholder="Max"
+            className="w-24 h-8 text-xs"
+          />
+        </>
+      )}
+      <datalist id={listId}>
+        {suggested.map((value) => <option key={value} value={value} />)}
+      </datalist>
+
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove condition" onClick={onRemove}>
+        <X className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
+
+interface GroupEditorProps {
+  group: QueryGroup
+  root: QueryGroup
+  columns: ColumnProfile[]
+  suggestions: Record<string, string[]>
+  onChange: (root: QueryGroup) => void
+}
+
+function GroupEditor({ group, root, columns, suggestions, onChange }: GroupEditorProps) {
+  const isRoot = group.id === root.id
+  const replace = (node: QueryNode) => onChange(updateNode(root, node.id, () => node))
+  const addChild = (child: QueryNode) => replace({ ...group, children: [...group.children, child] })
+
+  return (
+    <div className={isRoot ? "space-y-2" : "space-y-2 border-l-2 border-primary/30 pl-3"}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => replace({ ...group, combinator: combinator as QueryGroup["combinator"] })}
+        >
+          <SelectTrigger className="w-24 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">All of</SelectItem>
+            <SelectItem value="or">Any of</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => addChild(createCondition())}>
+          <Plus className="w-3 h-3 mr-1" />
+          Condition
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => addChild(createGroup(group.combinator === "and" ? "or" : "and", [createCondition()]))}>
+          <ListPlus className="w-3 h-3 mr-1" />
+          Group
+        </Button>
+        {!isRoot && (
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove group" onClick={() => onChange(removeNode(root, group.id))}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {group.children.map((child) =>
+        child.type === "group" ? (
+          <GroupEditor key={child.id} group={child} root={root} columns={columns} suggestions={suggestions} onChange={onChange} />
+        ) : (
+          <ConditionEditor
+            key={child.id}
+            condition={child}
+            columns={columns}
+            suggestions={suggestions}
+            onChange={replace}
+            onRemove={() => onChange(removeNode(root, child.id))}
+          />
+        )
+      )}
+    </div>
+  )
+}
+
+export function QueryBuilder({ query, columns, suggestions, onChange }: QueryBuilderProps) {
+  const [saved, setSaved] = React.useState<SavedQuery[]>(loadSavedQueries)
+  const [name, setName] = React.useState("")
+  const { toast } = useToast()
+  const root = query ?? createGroup()
+  const active = isActiveQuery(root)
+
+  const save = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    setSaved(saveQuery(trimmed, root))
+    toast({ title: "Query saved", description: trimmed })
+  }
+
+  const load = (id: string) => {
+    const entry = saved.find(s => s.id === id)
+    if (!entry) return
+    setName(entry.name)
+    onChange(parseQuery(entry.query))
+  }
+
+  const remove = () => {
+    const entry = saved.find(s => s.name === name.trim())
+    if (entry) setSaved(deleteSavedQuery(entry.id))
+  }
+
+  const importQuery = () => {
+    pickJSONFile(
+      (value, fileName) => {
+        onChange(parseQuery(value))
+        toast({ title: "Query imported", description: fileName })
+      },
+      (err) => {
+        toast({
+          title: "Could not import query",
+          description: err instanceof Error ? err.message : "Invalid query file",
+          variant: "destructive",
+        })
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value="" onValueChange={load} disabled={saved.length === 0}>
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue placeholder={saved.length > 0 ? "Saved queries" : "No saved queries"} />
+          </SelectTrigger>
+          <SelectContent>
+            {saved.map((entry) => (
+              <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Query name"
+          className="w-48 h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-8 text-xs" disabled={!name.trim() || !active} onClick={save}>
+          <Save className="w-3 h-3 mr-1" />
+          Save
+        </Button>
+        {saved.some(s => s.name === name.trim()) && (
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Delete saved query" onClick={remove}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="h-8 text-xs" disabled={!active} onClick={() => downloadJSON(`${name.trim() || "query"}.json`, serializeQuery(root))}>
+          <Download className="w-3 h-3 mr-1" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={importQuery}>
+          <FolderOpen className="w-3 h-3 mr-1" />
+          Import
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" disabled={!query} onClick={() => onChange(null)}>
+          Clear
+        </Button>
+      </div>
+
+      <GroupEditor group={root} root={root} columns={columns} suggestions={suggestions} onChange={onChange} />
+
+      <p className="text-xs text-muted-foreground">
+        {active ? <code>{describeQuery(root)}</code> : "Add conditions to narrow the records; the query combines with the sidebar filters."}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Download, FolderOpen, Save, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { FilterState, countActiveFilters, describeFilters } from "@/lib/filters"
+import { encodeFilters } from "@/lib/filter-url"
+import { downloadJSON, pickJSONFile } from "@/lib/json-file"
+import { SelectionSummary } from "@/lib/data-engine"
+import {
+  Segment,
+  deleteSegment,
+  exportSegments,
+  importSegments,
+  saveSegment
+} from "@/lib/segments"
+
+interface SegmentLibraryProps {
+  segments: Segment[]
+  onSegmentsChange: (segments: Segment[]) => void
+  // Counts and default rates against the active dataset, by encoded filter state
+  stats: Record<string, SelectionSummary>
+  filters: FilterState
+  labelled: boolean
+  onApply: (filters: FilterState) => void
+}
+
+export function SegmentLibrary({ segments, onSegmentsChange, stats, filters, labelled, onApply }: SegmentLibraryProps) {
+  const [name, setName] = React.useState("")
+  const [description, setDescription] = React.useState("")
+  const { toast } = useToast()
+
+  const current = encodeFilters(filters)
+  const hasFilters = countActiveFilters(filters) > 0
+
+  const save = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    onSegmentsChange(saveSegment(trimmed, description.trim(), filters))
+    setName("")
+    setDescription("")
+    toast({ title: "Segment saved", description: trimmed })
+  }
+
+  const importFile = () => {
+    pickJSONFile(
+      (value, fileName) => {
+        const { segments: next, imported } = importSegments(value)
+        onSegmentsChange(next)
+        toast({ title: "Segments imported", description: `${imported} from ${fileName}` })
+      },
+      (err) => {
+        toast({
+          title: "Could not import segments",
+          description: err instanceof Error ? err.message : "Invalid segments file",
+          variant: "destructive",
+        })
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Segment name"
+          className="w-48 h-8 text-xs"
+        />
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="w-72 h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-8 text-xs" disabled={!name.trim() || !hasFilters} onClick={save}>
+          <Save className="w-3 h-3 mr-1" />
+          Save Current Filters
+        </Button>
+        <div className="flex-1" />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          disabled={segments.length === 0}
+          onClick={() => downloadJSON("segments.json", exportSegments(segments))}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={importFile}>
+          <FolderOpen className="w-3 h-3 mr-1" />
+          Import
+        </Button>
+      </div>
+
+      {segments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No saved segments yet. Set filters or a query, then save them here to reuse or share.
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-72">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Segment</th>
+                <th className="text-right p-2 font-medium">Records</th>
+                <th className="text-right p-2 font-medium">Default rate</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map((segment) => {
+                const key = encodeFilters(segment.filters)
+                const stat = stats[key]
+                const applied = key === current
+                return (
+                  <tr key={segment.id} className="border-b align-top">
+                    <td className="p-2">
+                      <div className="flex items-center gap-2 font-medium">
+                        {segment.name}
+                        {applied && <Badge variant="secondary">Applied</Badge>}
+                      </div>
+                      {segment.description && (
+                        <div className="text-xs text-muted-foreground">{segment.description}</div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {describeFilters(segment.filters).join(" · ") || "All records"}
+                      </div>
+                    </td>
+                    <td className="p-2 text-right tabular-nums">{stat?.count.toLocaleString() ?? "…"}</td>
+                    <td className="p-2 text-right tabular-nums">
+                      {!labelled || !stat ? "—" : stat.defaultRate === null ? "—" : `${stat.defaultRate.toFixed(2)}%`}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={applied} onClick={() => onApply(segment.filters)}>
+                          Apply
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Delete segment"
+                          onClick={() => onSegmentsChange(deleteSegment(segment.id))}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
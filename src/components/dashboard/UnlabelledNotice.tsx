@@ -0,0 +1,23 @@
+import * as React from "react"
+import { Tag } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface UnlabelledNoticeProps {
+  children?: React.ReactNode
+  className?: string
+}
+
+// Stands in for default-rate views when the active dataset has no TARGET column
+export function UnlabelledNotice({ children, className }: UnlabelledNoticeProps) {
+  return (
+    <div className={cn(
+      "flex items-start gap-3 rounded-lg border border-dashed bg-muted/30 p-4 text-sm text-muted-foreground",
+      className
+    )}>
+      <Tag className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div>
+        {children ?? "This dataset has no TARGET column, so default rates are not available. Distribution and profile views use every record."}
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import {
   Target, 
   Users, 
   DollarSign, 
+  GitCompare,
   TrendingUp,
   Upload,
   Brain,
@@ -42,6 +43,12 @@ const navigationItems = [
     icon: DollarSign,
     description: "Income, credit and affordability analysis"
   },
+  {
+    id: "compare",
+    label: "Segment Comparison",
+    icon: GitCompare,
+    description: "Compare two segments side by side"
+  },
   {
     id: "correlations",
     label: "Correlations & Drivers",
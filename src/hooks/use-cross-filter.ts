@@ -0,0 +1,52 @@
+import * as React from "react";
+import { ChartSelection, FilterState, applyChartSelection } from "@/lib/filters";
+
+// Recharts passes the clicked bar or slice with the chart row under `payload`
+type ChartElement = { payload?: Record<string, unknown> } & Record<string, unknown>;
+export type ChartClickHandler = (element: ChartElement, index: number, event?: React.MouseEvent) => void;
+
+// Charts of a filtered column are computed without that column's own filter
+// (see AggregateScope), so every element stays visible to be (de)selected
+export interface CrossFilter {
+  // Click selects the element's value (or histogram bin); shift-click adds to the selection.
+  // `key` names the row field holding the value, or a list of values
+  onCategoryClick: (column: string, key: string) => ChartClickHandler;
+  onBinClick: (column: string) => ChartClickHandler;
+  // Elements outside an active selection on their column are dimmed
+  categoryOpacity: (column: string, value: string | string[]) => number;
+  binOpacity: (column: string, min: number, max: number) => number;
+}
+
+const DIMMED = 0.3;
+
+export function useCrossFilter(
+  filters: FilterState,
+  setFilters: React.Dispatch<React.SetStateAction<FilterState>>
+): CrossFilter {
+  return React.useMemo(() => {
+    const select = (selection: ChartSelection, event?: React.MouseEvent) => {
+      setFilters(current => applyChartSelection(current, selection, !!event?.shiftKey));
+    };
+    const row = (element: ChartElement) => element.payload ?? element;
+
+    return {
+      onCategoryClick: (column, key) => (element, _index, event) => {
+        const value = row(element)[key];
+        select({ column, values: Array.isArray(value) ? value.map(String) : [String(value)] }, event);
+      },
+      onBinClick: (column) => (element, _index, event) => {
+        const { min, max } = row(element) as { min: number; max: number };
+        select({ column, range: [min, max] }, event);
+      },
+      categoryOpacity: (column, value) => {
+        const selected = filters.categories[column];
+        const values = Array.isArray(value) ? value : [value];
+        return !selected || values.some(v => selected.includes(v)) ? 1 : DIMMED;
+      },
+      binOpacity: (column, min, max) => {
+        const range = filters.ranges[column];
+        return !range || (max >= range[0] && min <= range[1]) ? 1 : DIMMED;
+      },
+    };
+  }, [filters, setFilters]);
+}
@@ -0,0 +1,71 @@
+import * as React from "react";
+import { HomeCreditRecord } from "@/lib/synthetic-data";
+import { EngineQuery, EngineResult } from "@/lib/data-engine";
+import { IncomeBracketScheme } from "@/lib/income-brackets";
+import { FilterState } from "@/lib/filters";
+import { DataEngineClient, createDataEngineClient } from "@/lib/data-engine-client";
+
+export interface DataEngineState {
+  // Latest answer; kept while a newer query runs so pages don't blank out
+  result: EngineResult | null;
+  pending: boolean;
+  error: string | null;
+  // CSV text of the records matching `filters`, assembled in the worker
+  exportCSV: (filters: FilterState) => Promise<string>;
+}
+
+// Answers `query` over `data` in the data engine worker. The worker gets a
+// columnar copy whenever the dataset changes and assigns income brackets
+// itself; every query change asks it for the counts and aggregates `query`
+// names. `query` should be memoized, as each new object is a new query.
+export function useDataEngine(
+  data: HomeCreditRecord[],
+  incomeBrackets: IncomeBracketScheme,
+  query: EngineQuery
+): DataEngineState {
+  const clientRef = React.useRef<DataEngineClient | null>(null);
+  const [state, setState] = React.useState<Omit<DataEngineState, "exportCSV">>({ result: null, pending: false, error: null });
+
+  React.useEffect(() => {
+    const client = createDataEngineClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (data.length > 0) clientRef.current?.load(data);
+  }, [data]);
+
+  React.useEffect(() => {
+    clientRef.current?.setIncomeBrackets(incomeBrackets);
+  }, [incomeBrackets]);
+
+  React.useEffect(() => {
+    const client = clientRef.current;
+    if (!client || data.length === 0) return;
+    let current = true;
+    setState(previous => ({ ...previous, pending: true }));
+    client.query(query)
+      .then(result => {
+        if (current) setState({ result, pending: false, error: null });
+      })
+      .catch((err: unknown) => {
+        // Superseded queries are expected; a newer one is already on its way
+        if (!current || (err instanceof DOMException && err.name === "AbortError")) return;
+        setState(previous => ({ ...previous, pending: false, error: err instanceof Error ? err.message : "Query failed" }));
+      });
+    return () => {
+      current = false;
+    };
+  }, [data, incomeBrackets, query]);
+
+  const exportCSV = React.useCallback(
+    (filters: FilterState) => clientRef.current?.exportCSV(filters) ?? Promise.reject(new Error("Data engine is not running")),
+    []
+  );
+
+  return { ...state, exportCSV };
+}
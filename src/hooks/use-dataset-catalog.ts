@@ -0,0 +1,88 @@
+import * as React from "react";
+import { HomeCreditRecord } from "@/lib/synthetic-data";
+import { AuxiliaryAggregateSet } from "@/lib/auxiliary-tables";
+import {
+  DatasetSource,
+  DatasetSummary,
+  StoredDataset,
+  deleteDataset,
+  getActiveDatasetId,
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  saveAuxiliaryTables,
+  saveDataset,
+  setActiveDatasetId,
+} from "@/lib/dataset-catalog";
+
+export function useDatasetCatalog() {
+  const [datasets, setDatasets] = React.useState<DatasetSummary[]>([]);
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+  // Auxiliary tables can arrive while the dataset they belong to is still being saved
+  const activeRef = React.useRef<Promise<string | null>>(Promise.resolve(null));
+
+  const refresh = React.useCallback(async () => {
+    setDatasets(await listDatasets());
+  }, []);
+
+  const makeActive = React.useCallback(async (id: string | null) => {
+    await setActiveDatasetId(id);
+    setActiveId(id);
+    return id;
+  }, []);
+
+  // Load whichever dataset was active in the previous session
+  const restore = React.useCallback(async (): Promise<StoredDataset | null> => {
+    await refresh();
+    const id = await getActiveDatasetId();
+    if (!id) return null;
+    const stored = await loadDataset(id);
+    setActiveId(stored ? id : null);
+    activeRef.current = Promise.resolve(stored ? id : null);
+    return stored;
+  }, [refresh]);
+
+  const add = React.useCallback(async (records: HomeCreditRecord[], source: DatasetSource) => {
+    const saving = saveDataset(records, source);
+    activeRef.current = saving.then(summary => makeActive(summary.id));
+    const summary = await saving;
+    await activeRef.current;
+    await refresh();
+    return summary;
+  }, [makeActive, refresh]);
+
+  // Data that is not kept in the catalog replaces whichever dataset was active
+  const detach = React.useCallback(async () => {
+    activeRef.current = makeActive(null);
+    await activeRef.current;
+  }, [makeActive]);
+
+  const activate = React.useCallback(async (id: string) => {
+    const stored = await loadDataset(id);
+    if (!stored) throw new Error("Dataset no longer exists");
+    activeRef.current = makeActive(id);
+    await activeRef.current;
+    return stored;
+  }, [makeActive]);
+
+  const rename = React.useCallback(async (id: string, name: string) => {
+    await renameDataset(id, name);
+    await refresh();
+  }, [refresh]);
+
+  const remove = React.useCallback(async (id: string) => {
+    await deleteDataset(id);
+    if (id === activeId) {
+      setActiveId(null);
+      activeRef.current = Promise.resolve(null);
+    }
+    await refresh();
+  }, [activeId, refresh]);
+
+  const updateAuxiliary = React.useCallback(async (auxiliary: AuxiliaryAggregateSet) => {
+    const id = await activeRef.current.catch(() => null);
+    if (id) await saveAuxiliaryTables(id, auxiliary);
+  }, []);
+
+  return { datasets, activeId, restore, add, detach, activate, rename, remove, updateAuxiliary };
+}
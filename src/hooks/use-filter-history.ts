@@ -0,0 +1,86 @@
+import * as React from "react";
+import { FilterState } from "@/lib/filters";
+import { encodeFilters } from "@/lib/filter-url";
+import { changedCriteria } from "@/lib/filter-history";
+
+export interface FilterHistoryEntry {
+  id: number;
+  filters: FilterState;
+  // State the change started from; null for the first entry
+  previous: FilterState | null;
+  at: number;
+}
+
+export interface FilterHistory {
+  entries: FilterHistoryEntry[];
+  // Entry matching the current filters
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+}
+
+// Repeated changes to the same criteria this close together (slider drags,
+// typing) are recorded as one entry
+const COALESCE_MS = 1000;
+const MAX_ENTRIES = 100;
+
+interface HistoryState {
+  entries: FilterHistoryEntry[];
+  index: number;
+}
+
+// Undo/redo stack over every filter change, whatever made it (sidebar, charts,
+// query builder, reset). Moving through the stack sets the filters without
+// recording a new entry; a new change after an undo drops the redo entries.
+export function useFilterHistory(
+  filters: FilterState,
+  setFilters: React.Dispatch<React.SetStateAction<FilterState>>
+): FilterHistory {
+  const [history, setHistory] = React.useState<HistoryState>({ entries: [], index: -1 });
+  const historyRef = React.useRef(history);
+  historyRef.current = history;
+  const nextIdRef = React.useRef(0);
+
+  React.useEffect(() => {
+    const { entries, index } = historyRef.current;
+    const active = entries[index];
+    if (active && encodeFilters(active.filters) === encodeFilters(filters)) return;
+
+    const now = Date.now();
+    const coalesce = active?.previous && index === entries.length - 1 && now - active.at < COALESCE_MS &&
+      JSON.stringify(changedCriteria(active.previous, active.filters)) === JSON.stringify(changedCriteria(active.previous, filters));
+
+    // Dragging a slider back where it started leaves nothing to record
+    if (coalesce && encodeFilters(active.previous) === encodeFilters(filters)) {
+      setHistory({ entries: entries.slice(0, index), index: index - 1 });
+      return;
+    }
+
+    const next: FilterHistoryEntry = coalesce
+      ? { ...active, filters, at: now }
+      : { id: nextIdRef.current++, filters, previous: active?.filters ?? null, at: now };
+    const kept = entries.slice(0, coalesce ? index : index + 1);
+    const updated = [...kept, next].slice(-MAX_ENTRIES);
+    setHistory({ entries: updated, index: updated.length - 1 });
+  }, [filters]);
+
+  const jumpTo = React.useCallback((target: number) => {
+    const { entries } = historyRef.current;
+    if (target < 0 || target >= entries.length) return;
+    setHistory(current => ({ ...current, index: target }));
+    setFilters(entries[target].filters);
+  }, [setFilters]);
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo: () => jumpTo(historyRef.current.index - 1),
+    redo: () => jumpTo(historyRef.current.index + 1),
+    jumpTo,
+  };
+}
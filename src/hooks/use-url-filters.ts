@@ -0,0 +1,41 @@
+import * as React from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { FilterState } from "@/lib/filters";
+import { decodeFilters, encodeFilters } from "@/lib/filter-url";
+
+// Changes closer together than this (slider drags, typing) share one history entry
+const HISTORY_COALESCE_MS = 1000;
+
+// Filter state mirrored in the URL query string: links restore the filters,
+// and each change pushes a history entry so back/forward step through them.
+export function useUrlFilters(): [FilterState, React.Dispatch<React.SetStateAction<FilterState>>] {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [filters, setFilters] = React.useState<FilterState>(() => decodeFilters(location.search));
+  const filtersRef = React.useRef(filters);
+  filtersRef.current = filters;
+  const locationRef = React.useRef(location);
+  locationRef.current = location;
+  const lastPushRef = React.useRef(0);
+
+  // URL -> state, for back/forward and edited links
+  React.useEffect(() => {
+    const fromUrl = decodeFilters(location.search);
+    if (encodeFilters(fromUrl) !== encodeFilters(filtersRef.current)) {
+      setFilters(fromUrl);
+    }
+  }, [location.search]);
+
+  // State -> URL
+  React.useEffect(() => {
+    const search = encodeFilters(filters);
+    const current = locationRef.current;
+    if (search === encodeFilters(decodeFilters(current.search))) return;
+
+    const now = Date.now();
+    navigate({ pathname: current.pathname, search }, { replace: now - lastPushRef.current < HISTORY_COALESCE_MS });
+    lastPushRef.current = now;
+  }, [filters, navigate]);
+
+  return [filters, setFilters];
+}
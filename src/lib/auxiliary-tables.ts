@@ -0,0 +1,303 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { RawRow } from './ingestion';
+
+// Home Credit auxiliary tables and their per-applicant aggregations.
+// Rows are folded into per-key accumulators while streaming, so even
+// bureau_balance (~27M rows) never has to be held in memory.
+
+export type AuxiliaryTableName =
+  | 'bureau'
+  | 'bureau_balance'
+  | 'previous_application'
+  | 'POS_CASH_balance'
+  | 'credit_card_balance'
+  | 'installments_payments';
+
+type Reducer = 'count' | 'sum' | 'mean' | 'max';
+
+export interface AggregateSpec {
+  column: string;
+  label: string;
+  reducer: Reducer;
+  // Per-row value fed to the reducer; null rows are skipped (ignored for count)
+  value?: (row: RawRow) => number | null;
+}
+
+export interface AuxiliaryTableDefinition {
+  name: AuxiliaryTableName;
+  label: string;
+  fileName: string;
+  keyColumn: 'SK_ID_CURR' | 'SK_ID_BUREAU';
+  requiredColumns: string[];
+  aggregates: AggregateSpec[];
+}
+
+export interface AuxiliaryAggregates {
+  table: AuxiliaryTableName;
+  rowCount: number;
+  keyColumn: 'SK_ID_CURR' | 'SK_ID_BUREAU';
+  values: Map<number, Record<string, number>>;
+  // bureau only: SK_ID_BUREAU -> SK_ID_CURR, used to roll up bureau_balance
+  links?: Map<number, number>;
+}
+
+export type AuxiliaryAggregateSet = Partial<Record<AuxiliaryTableName, AuxiliaryAggregates>>;
+
+function numberOf(raw: string | undefined): number | null {
+  if (raw === undefined || raw.trim() === '') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function ratio(numerator: string | undefined, denominator: string | undefined): number | null {
+  const top = numberOf(numerator);
+  const bottom = numberOf(denominator);
+  return top === null || !bottom ? null : top / bottom;
+}
+
+const flag = (condition: boolean) => (condition ? 1 : 0);
+
+export const AUXILIARY_TABLES: AuxiliaryTableDefinition[] = [
+  {
+    name: 'bureau',
+    label: 'Credit Bureau',
+    fileName: 'bureau.csv',
+    keyColumn: 'SK_ID_CURR',
+    requiredColumns: ['SK_ID_CURR', 'SK_ID_BUREAU', 'CREDIT_ACTIVE', 'CREDIT_DAY_OVERDUE'],
+    aggregates: [
+      { column: 'BUREAU_LOAN_COUNT', label: 'Prior bureau loans', reducer: 'count' },
+      { column: 'BUREAU_ACTIVE_LOANS', label: 'Active bureau loans', reducer: 'sum', value: row => flag(row.CREDIT_ACTIVE === 'Active') },
+      { column: 'BUREAU_MAX_DAYS_OVERDUE', label: 'Max days overdue (bureau)', reducer: 'max', value: row => numberOf(row.CREDIT_DAY_OVERDUE) },
+      { column: 'BUREAU_TOTAL_DEBT', label: 'Total bureau debt', reducer: 'sum', value: row => numberOf(row.AMT_CREDIT_SUM_DEBT) },
+      { column: 'BUREAU_MEAN_CREDIT', label: 'Mean bureau credit', reducer: 'mean', value: row => numberOf(row.AMT_CREDIT_SUM) }
+    ]
+  },
+  {
+    name: 'bureau_balance',
+    label: 'Bureau Balance',
+    fileName: 'bureau_balance.csv',
+    keyColumn: 'SK_ID_BUREAU',
+    requiredColumns: ['SK_ID_BUREAU', 'MONTHS_BALANCE', 'STATUS'],
+    aggregates: [
+      { column: 'BUREAU_BALANCE_MONTHS', label: 'Bureau balance months', reducer: 'count' },
+      // STATUS 0-5 is the DPD bucket; C (closed) and X (unknown) are skipped
+      { column: 'BUREAU_BALANCE_MAX_STATUS', label: 'Worst bureau DPD bucket', reducer: 'max', value: row => numberOf(row.STATUS) }
+    ]
+  },
+  {
+    name: 'previous_application',
+    label: 'Previous Applications',
+    fileName: 'previous_application.csv',
+    keyColumn: 'SK_ID_CURR',
+    requiredColumns: ['SK_ID_CURR', 'SK_ID_PREV', 'NAME_CONTRACT_STATUS'],
+    aggregates: [
+      { column: 'PREV_APP_COUNT', label: 'Previous applications', reducer: 'count' },
+      { column: 'PREV_APP_REFUSED_RATE', label: 'Previous refusal rate', reducer: 'mean', value: row => flag(row.NAME_CONTRACT_STATUS === 'Refused') },
+      { column: 'PREV_APP_MEAN_CREDIT', label: 'Mean previous credit', reducer: 'mean', value: row => numberOf(row.AMT_CREDIT) }
+    ]
+  },
+  {
+    name: 'POS_CASH_balance',
+    label: 'POS & Cash Balance',
+    fileName: 'POS_CASH_balance.csv',
+    keyColumn: 'SK_ID_CURR',
+    requiredColumns: ['SK_ID_CURR', 'SK_ID_PREV', 'SK_DPD'],
+    aggregates: [
+      { column: 'POS_MONTHS_COUNT', label: 'POS balance months', reducer: 'count' },
+      { column: 'POS_MAX_DPD', label: 'Max POS days past due', reducer: 'max', value: row => numberOf(row.SK_DPD) }
+    ]
+  },
+  {
+    name: 'credit_card_balance',
+    label: 'Credit Card Balance',
+    fileName: 'credit_card_balance.csv',
+    keyColumn: 'SK_ID_CURR',
+    requiredColumns: ['SK_ID_CURR', 'SK_ID_PREV', 'AMT_BALANCE', 'AMT_CREDIT_LIMIT_ACTUAL', 'SK_DPD'],
+    aggregates: [
+      { column: 'CC_MEAN_UTILIZATION', label: 'Mean card utilization', reducer: 'mean', value: row => ratio(row.AMT_BALANCE, row.AMT_CREDIT_LIMIT_ACTUAL) },
+      { column: 'CC_MAX_DPD', label: 'Max card days past due', reducer: 'max', value: row => numberOf(row.SK_DPD) }
+    ]
+  },
+  {
+    name: 'installments_payments',
+    label: 'Installment Payments',
+    fileName: 'installments_payments.csv',
+    keyColumn: 'SK_ID_CURR',
+    requiredColumns: ['SK_ID_CURR', 'SK_ID_PREV', 'AMT_INSTALMENT', 'AMT_PAYMENT', 'DAYS_INSTALMENT', 'DAYS_ENTRY_PAYMENT'],
+    aggregates: [
+      { column: 'INST_COUNT', label: 'Installments', reducer: 'count' },
+      { column: 'INST_MEAN_PAYMENT_RATIO', label: 'Mean payment ratio', reducer: 'mean', value: row => ratio(row.AMT_PAYMENT, row.AMT_INSTALMENT) },
+      {
+        column: 'INST_LATE_RATE',
+        label: 'Late payment rate',
+        reducer: 'mean',
+        value: row => {
+          const paid = numberOf(row.DAYS_ENTRY_PAYMENT);
+          const due = numberOf(row.DAYS_INSTALMENT);
+          return paid === null || due === null ? null : flag(paid > due);
+        }
+      },
+      {
+        column: 'INST_MAX_DAYS_LATE',
+        label: 'Max days late',
+        reducer: 'max',
+        value: row => {
+          const paid = numberOf(row.DAYS_ENTRY_PAYMENT);
+          const due = numberOf(row.DAYS_INSTALMENT);
+          return paid === null || due === null ? null : Math.max(0, paid - due);
+        }
+      }
+    ]
+  }
+];
+
+// Every column added to applicants by the joins below
+export const AUXILIARY_COLUMNS = AUXILIARY_TABLES.flatMap(table => table.aggregates.map(a => a.column));
+
+export function getAuxiliaryTable(name: AuxiliaryTableName): AuxiliaryTableDefinition {
+  return AUXILIARY_TABLES.find(table => table.name === name)!;
+}
+
+// Match a file name such as "bureau.csv" or "installments_payments (1).csv" to its table
+export function detectAuxiliaryTable(fileName: string): AuxiliaryTableName | null {
+  const base = fileName.toLowerCase().split('/').pop()!.replace(/\.csv.*$/, '');
+  const match = [...AUXILIARY_TABLES]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(table => base.startsWith(table.name.toLowerCase()));
+  return match ? match.name : null;
+}
+
+interface Accumulator {
+  count: number;
+  sum: number;
+  max: number;
+}
+
+// Streaming aggregator: call add() per parsed row, then result() once
+export function createAggregator(definition: AuxiliaryTableDefinition) {
+  const accumulators = new Map<number, Accumulator[]>();
+  const links = new Map<number, number>();
+  let rowCount = 0;
+
+  const add = (row: RawRow) => {
+    const key = numberOf(row[definition.keyColumn]);
+    if (key === null) return;
+    rowCount++;
+
+    if (definition.name === 'bureau') {
+      const bureauId = numberOf(row.SK_ID_BUREAU);
+      if (bureauId !== null) links.set(bureauId, key);
+    }
+
+    let slots = accumulators.get(key);
+    if (!slots) {
+      slots = definition.aggregates.map(() => ({ count: 0, sum: 0, max: -Infinity }));
+      accumulators.set(key, slots);
+    }
+
+    definition.aggregates.forEach((spec, i) => {
+      const slot = slots![i];
+      if (spec.reducer === 'count') {
+        slot.count++;
+        return;
+      }
+      const value = spec.value!(row);
+      if (value === null) return;
+      slot.count++;
+      slot.sum += value;
+      if (value > slot.max) slot.max = value;
+    });
+  };
+
+  const result = (): AuxiliaryAggregates => {
+    const values = new Map<number, Record<string, number>>();
+    accumulators.forEach((slots, key) => {
+      const entry: Record<string, number> = {};
+      definition.aggregates.forEach((spec, i) => {
+        const slot = slots[i];
+        if (slot.count === 0) return;
+        entry[spec.column] = spec.reducer === 'count' ? slot.count
+          : spec.reducer === 'sum' ? slot.sum
+          : spec.reducer === 'mean' ? slot.sum / slot.count
+          : slot.max;
+      });
+      values.set(key, entry);
+    });
+
+    return {
+      table: definition.name,
+      rowCount,
+      keyColumn: definition.keyColumn,
+      values,
+      links: definition.name === 'bureau' ? links : undefined
+    };
+  };
+
+  return { add, result };
+}
+
+// Aggregate rows already in memory, e.g. generated synthetic tables
+export function aggregateRows(name: AuxiliaryTableName, rows: RawRow[]): AuxiliaryAggregates {
+  const aggregator = createAggregator(getAuxiliaryTable(name));
+  rows.forEach(aggregator.add);
+  return aggregator.result();
+}
+
+// Roll bureau_balance (keyed by bureau loan) up to applicants via the bureau links
+function rollUpBureauBalance(
+  balance: AuxiliaryAggregates,
+  links: Map<number, number>
+): Map<number, Record<string, number>> {
+  const definition = getAuxiliaryTable('bureau_balance');
+  const rolled = new Map<number, Record<string, number>>();
+
+  balance.values.forEach((entry, bureauId) => {
+    const applicantId = links.get(bureauId);
+    if (applicantId === undefined) return;
+    const target = rolled.get(applicantId) || {};
+    definition.aggregates.forEach(spec => {
+      const value = entry[spec.column];
+      if (value === undefined) return;
+      target[spec.column] = spec.reducer === 'max'
+        ? Math.max(target[spec.column] ?? -Infinity, value)
+        : (target[spec.column] ?? 0) + value;
+    });
+    rolled.set(applicantId, target);
+  });
+
+  return rolled;
+}
+
+// Attach aggregates to applicants. Applicants with no rows in a table get
+// 0 for count and sum columns and null for the rest.
+export function joinAuxiliaryAggregates(
+  records: HomeCreditRecord[],
+  aggregates: AuxiliaryAggregateSet
+): HomeCreditRecord[] {
+  const joins: { definition: AuxiliaryTableDefinition; values: Map<number, Record<string, number>> }[] = [];
+
+  AUXILIARY_TABLES.forEach(definition => {
+    const table = aggregates[definition.name];
+    if (!table) return;
+    if (definition.keyColumn === 'SK_ID_BUREAU') {
+      const links = aggregates.bureau?.links;
+      if (links) joins.push({ definition, values: rollUpBureauBalance(table, links) });
+    } else {
+      joins.push({ definition, values: table.values });
+    }
+  });
+
+  if (joins.length === 0) return records;
+
+  return records.map(record => {
+    const joined: HomeCreditRecord = { ...record };
+    joins.forEach(({ definition, values }) => {
+      const entry = values.get(record.SK_ID_CURR);
+      definition.aggregates.forEach(spec => {
+        const fallback = spec.reducer === 'count' || spec.reducer === 'sum' ? 0 : null;
+        joined[spec.column] = entry?.[spec.column] ?? fallback;
+      });
+    });
+    return joined;
+  });
+}
@@ -0,0 +1,224 @@
+import { CORE_COLUMNS, ColumnSpec, LABEL_COLUMN, REQUIRED_COLUMNS } from './home-credit-schema';
+import { RawRow } from './ingestion';
+import { loadJSON, saveJSON } from './local-store';
+
+// Maps non-standard CSV headers onto Home Credit fields.
+// Suggestions come from exact names, known synonyms and token overlap;
+// each mapping can convert units on the way in (dates to DAYS_*, monthly to annual).
+
+export type ColumnTransform =
+  | 'none'
+  | 'dateToDays'
+  | 'yearsToDays'
+  | 'monthlyToAnnual'
+  | 'booleanToBinary'
+  | 'genderToCode';
+
+export interface ColumnMapping {
+  target: string;
+  source: string;
+  transform: ColumnTransform;
+}
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  mappings: ColumnMapping[];
+  createdAt: string;
+}
+
+interface TransformDefinition {
+  id: ColumnTransform;
+  label: string;
+  appliesTo: (spec: ColumnSpec) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+const MIN_SIMILARITY = 0.5;
+const TEMPLATES_KEY = 'mapping-templates';
+
+const isDaysColumn = (spec: ColumnSpec) => spec.name.startsWith('DAYS_');
+const isAmountColumn = (spec: ColumnSpec) => spec.name.startsWith('AMT_');
+const isBinaryColumn = (spec: ColumnSpec) => spec.allowed?.join() === '0,1';
+
+export const COLUMN_TRANSFORMS: TransformDefinition[] = [
+  { id: 'none', label: 'No conversion', appliesTo: () => true },
+  { id: 'dateToDays', label: 'Date → days before application', appliesTo: isDaysColumn },
+  { id: 'yearsToDays', label: 'Years → days before application', appliesTo: isDaysColumn },
+  { id: 'monthlyToAnnual', label: 'Monthly → annual (×12)', appliesTo: isAmountColumn },
+  { id: 'booleanToBinary', label: 'Yes/No → 1/0', appliesTo: isBinaryColumn },
+  { id: 'genderToCode', label: 'Male/Female → M/F', appliesTo: spec => spec.name === 'CODE_GENDER' }
+];
+
+// Fields offered as mapping targets; everything else passes through by name
+export const MAPPING_TARGETS = CORE_COLUMNS;
+
+const SYNONYMS: Record<string, string[]> = {
+  SK_ID_CURR: ['id', 'customer_id', 'client_id', 'applicant_id', 'application_id', 'loan_id'],
+  TARGET: ['default_flag', 'default', 'is_default', 'defaulted', 'label', 'bad_flag', 'delinquent'],
+  NAME_CONTRACT_TYPE: ['contract_type', 'product_type', 'loan_type'],
+  CODE_GENDER: ['gender', 'sex'],
+  FLAG_OWN_CAR: ['own_car', 'owns_car', 'has_car', 'car_owner'],
+  FLAG_OWN_REALTY: ['own_realty', 'owns_realty', 'own_home', 'owns_home', 'home_owner', 'has_property'],
+  CNT_CHILDREN: ['children', 'num_children', 'number_of_children', 'dependents'],
+  AMT_INCOME_TOTAL: ['annual_income', 'income', 'total_income', 'monthly_income', 'salary'],
+  AMT_CREDIT: ['credit_amount', 'loan_amount', 'credit', 'principal'],
+  AMT_ANNUITY: ['annuity', 'installment', 'monthly_payment', 'payment'],
+  AMT_GOODS_PRICE: ['goods_price', 'purchase_price', 'asset_price'],
+  NAME_EDUCATION_TYPE: ['education', 'education_level'],
+  NAME_FAMILY_STATUS: ['family_status', 'marital_status'],
+  NAME_HOUSING_TYPE: ['housing', 'housing_type'],
+  DAYS_BIRTH: ['birth_date', 'date_of_birth', 'dob', 'birthdate', 'age', 'age_years'],
+  DAYS_EMPLOYED: ['employment_start', 'employed_since', 'hire_date', 'years_employed', 'employment_years', 'tenure'],
+  OCCUPATION_TYPE: ['occupation', 'job', 'job_title'],
+  CNT_FAM_MEMBERS: ['family_size', 'household_size', 'family_members'],
+  REGION_RATING_CLIENT: ['region_rating', 'region_score']
+};
+
+// Prefixes that carry type information rather than meaning
+const TYPE_TOKENS = new Set(['amt', 'name', 'code', 'flag', 'days', 'cnt', 'sk', 'type', 'total']);
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function tokens(name: string): Set<string> {
+  return new Set(normalize(name).split('_').filter(token => token && !TYPE_TOKENS.has(token)));
+}
+
+function similarity(source: string, target: string): number {
+  const normalized = normalize(source);
+  if (normalized === normalize(target)) return 1;
+  if (SYNONYMS[target]?.includes(normalized)) return 0.9;
+
+  const a = tokens(source);
+  const b = tokens(target);
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter(token => b.has(token)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+const looksLikeDate = (value: string) => /^\d{4}-\d{1,2}-\d{1,2}|^\d{1,2}\/\d{1,2}\/\d{2,4}/.test(value.trim());
+
+// Pick a conversion from the source name and a few sample values
+export function suggestTransform(spec: ColumnSpec, source: string, samples: string[]): ColumnTransform {
+  const name = normalize(source);
+  const present = samples.map(value => value.trim()).filter(value => value !== '');
+
+  if (isDaysColumn(spec)) {
+    if (present.some(looksLikeDate)) return 'dateToDays';
+    if (/age|year/.test(name)) return 'yearsToDays';
+  }
+  if (isAmountColumn(spec) && /month/.test(name)) return 'monthlyToAnnual';
+  if (isBinaryColumn(spec) && present.some(value => value !== '0' && value !== '1')) return 'booleanToBinary';
+  if (spec.name === 'CODE_GENDER' && present.some(value => !['M', 'F', 'XNA'].includes(value))) return 'genderToCode';
+  return 'none';
+}
+
+// Greedy best-score assignment, each source column used at most once
+export function suggestMappings(headers: string[], sampleRows: RawRow[] = []): ColumnMapping[] {
+  const candidates = MAPPING_TARGETS.flatMap(spec =>
+    headers.map(source => ({ spec, source, score: similarity(source, spec.name) }))
+  )
+    .filter(candidate => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const usedSources = new Set<string>();
+  const mappings = new Map<string, ColumnMapping>();
+  candidates.forEach(({ spec, source }) => {
+    if (usedSources.has(source) || mappings.has(spec.name)) return;
+    usedSources.add(source);
+    const samples = sampleRows.map(row => row[source] ?? '');
+    mappings.set(spec.name, { target: spec.name, source, transform: suggestTransform(spec, source, samples) });
+  });
+
+  return MAPPING_TARGETS
+    .filter(spec => mappings.has(spec.name))
+    .map(spec => mappings.get(spec.name));
+}
+
+// A file needs mapping when required columns are missing, or when its label is
+// under another name (e.g. default_flag) and would otherwise load unlabelled
+export function needsMapping(headers: string[], sampleRows: RawRow[] = []): boolean {
+  if (REQUIRED_COLUMNS.some(column => !headers.includes(column))) return true;
+  if (headers.includes(LABEL_COLUMN)) return false;
+  return suggestMappings(headers, sampleRows).some(mapping => mapping.target === LABEL_COLUMN);
+}
+
+export function unmappedRequiredColumns(mappings: ColumnMapping[]): string[] {
+  return REQUIRED_COLUMNS.filter(column => !mappings.some(mapping => mapping.target === column));
+}
+
+const truthy = new Set(['1', 'y', 'yes', 'true', 't', 'default', 'defaulted', 'bad']);
+const falsy = new Set(['0', 'n', 'no', 'false', 'f', 'repaid', 'good']);
+const genders: Record<string, string> = { m: 'M', male: 'M', man: 'M', f: 'F', female: 'F', woman: 'F' };
+
+// Unrecognised values pass through untouched so coercion can report them
+export function convertValue(raw: string | undefined, transform: ColumnTransform, referenceTime: number): string | undefined {
+  if (raw === undefined || raw.trim() === '' || transform === 'none') return raw;
+  const value = raw.trim();
+
+  switch (transform) {
+    case 'dateToDays': {
+      const time = Date.parse(value);
+      return Number.isNaN(time) ? raw : String(-Math.round((referenceTime - time) / DAY_MS));
+    }
+    case 'yearsToDays': {
+      const years = Number(value);
+      return Number.isFinite(years) ? String(-Math.round(years * DAYS_PER_YEAR)) : raw;
+    }
+    case 'monthlyToAnnual': {
+      const amount = Number(value);
+      return Number.isFinite(amount) ? String(amount * 12) : raw;
+    }
+    case 'booleanToBinary': {
+      const key = value.toLowerCase();
+      return truthy.has(key) ? '1' : falsy.has(key) ? '0' : raw;
+    }
+    case 'genderToCode':
+      return genders[value.toLowerCase()] ?? raw;
+  }
+}
+
+// Header of a file after mapping: mapped sources are replaced by their targets
+export function mapHeader(headers: string[], mappings: ColumnMapping[]): string[] {
+  const sources = new Set(mappings.map(mapping => mapping.source));
+  const mapped = headers.filter(header => !sources.has(header));
+  mappings.forEach(mapping => {
+    if (!mapped.includes(mapping.target)) mapped.push(mapping.target);
+  });
+  return mapped;
+}
+
+export function applyMapping(row: RawRow, mappings: ColumnMapping[], referenceTime: number): RawRow {
+  const mapped: RawRow = { ...row };
+  mappings.forEach(mapping => delete mapped[mapping.source]);
+  mappings.forEach(mapping => {
+    mapped[mapping.target] = convertValue(row[mapping.source], mapping.transform, referenceTime);
+  });
+  return mapped;
+}
+
+export function loadMappingTemplates(): MappingTemplate[] {
+  return loadJSON<MappingTemplate[]>(TEMPLATES_KEY, []);
+}
+
+export function saveMappingTemplate(name: string, mappings: ColumnMapping[]): MappingTemplate[] {
+  // Saving under an existing name replaces that template
+  const templates = loadMappingTemplates().filter(template => template.name !== name);
+  templates.push({ id: crypto.randomUUID(), name, mappings, createdAt: new Date().toISOString() });
+  saveJSON(TEMPLATES_KEY, templates);
+  return templates;
+}
+
+export function deleteMappingTemplate(id: string): MappingTemplate[] {
+  const templates = loadMappingTemplates().filter(template => template.id !== id);
+  saveJSON(TEMPLATES_KEY, templates);
+  return templates;
+}
+
+// Mappings of a template whose source columns exist in this file
+export function applyTemplate(template: MappingTemplate, headers: string[]): ColumnMapping[] {
+  return template.mappings.filter(mapping => headers.includes(mapping.source));
+}
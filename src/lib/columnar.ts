@@ -0,0 +1,153 @@
+import { HomeCreditRecord } from './synthetic-data';
+
+// Columnar encoding for moving large record sets between threads.
+// Numeric columns travel as Float64Arrays and text columns as
+// dictionary-encoded Int32Arrays, so batches can be transferred
+// instead of structured-cloned object by object.
+
+export interface NumericColumn {
+  kind: 'numeric';
+  values: Float64Array;
+}
+
+export interface TextColumn {
+  kind: 'text';
+  dictionary: string[];
+  codes: Int32Array;
+}
+
+export type EncodedColumn = NumericColumn | TextColumn;
+
+export interface ColumnarBatch {
+  length: number;
+  columns: Record<string, EncodedColumn>;
+}
+
+const MISSING_CODE = -1;
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+// Collect every column name present in the records, in first-seen order
+export function collectColumns(records: HomeCreditRecord[]): string[] {
+  const seen = new Set<string>();
+  records.forEach(record => {
+    Object.keys(record).forEach(key => seen.add(key));
+  });
+  return Array.from(seen);
+}
+
+export function encodeColumns(
+  records: HomeCreditRecord[],
+  columnNames: string[] = collectColumns(records)
+): ColumnarBatch {
+  const columns: Record<string, EncodedColumn> = {};
+
+  columnNames.forEach(name => {
+    const numeric = records.every(record => isMissing(record[name]) || typeof record[name] === 'number');
+
+    if (numeric) {
+      const values = new Float64Array(records.length);
+      records.forEach((record, i) => {
+        values[i] = isMissing(record[name]) ? NaN : (record[name] as number);
+      });
+      columns[name] = { kind: 'numeric', values };
+      return;
+    }
+
+    const dictionary: string[] = [];
+    const lookup = new Map<string, number>();
+    const codes = new Int32Array(records.length);
+    records.forEach((record, i) => {
+      if (isMissing(record[name])) {
+        codes[i] = MISSING_CODE;
+        return;
+      }
+      const value = String(record[name]);
+      let code = lookup.get(value);
+      if (code === undefined) {
+        code = dictionary.length;
+        dictionary.push(value);
+        lookup.set(value, code);
+      }
+      codes[i] = code;
+    });
+    columns[name] = { kind: 'text', dictionary, codes };
+  });
+
+  return { length: records.length, columns };
+}
+
+// Buffers that can be handed to postMessage's transfer list
+export function transferablesOf(batch: ColumnarBatch): ArrayBuffer[] {
+  return Object.values(batch.columns).map(column =>
+    (column.kind === 'numeric' ? column.values.buffer : column.codes.buffer) as ArrayBuffer
+  );
+}
+
+export function decodeColumns(batch: ColumnarBatch): HomeCreditRecord[] {
+  const entries = Object.entries(batch.columns);
+  const records: HomeCreditRecord[] = new Array(batch.length);
+
+  for (let i = 0; i < batch.length; i++) {
+    const record: Record<string, string | number | null> = {};
+    for (const [name, column] of entries) {
+      if (column.kind === 'numeric') {
+        const value = column.values[i];
+        record[name] = Number.isNaN(value) ? null : value;
+      } else {
+        const code = column.codes[i];
+        record[name] = code === MISSING_CODE ? null : column.dictionary[code];
+      }
+    }
+    records[i] = record as unknown as HomeCreditRecord;
+  }
+
+  return records;
+}
+
+// A subset of a batch's rows, by index
+export interface RowSet {
+  batch: ColumnarBatch;
+  rows: Uint32Array;
+}
+
+// Column readers by row index. Missing values read as NaN and '' like
+// numericValue and categoryValue; so does a column the batch lacks.
+export function numericReader(batch: ColumnarBatch, name: string): (row: number) => number {
+  const column = batch.columns[name];
+  if (!column || column.kind === 'text') return () => NaN;
+  const { values } = column;
+  return row => (Number.isFinite(values[row]) ? values[row] : NaN);
+}
+
+export function categoryReader(batch: ColumnarBatch, name: string): (row: number) => string {
+  const column = batch.columns[name];
+  if (!column) return () => '';
+  if (column.kind === 'numeric') {
+    const { values } = column;
+    return row => (Number.isNaN(values[row]) ? '' : String(values[row]));
+  }
+  const { dictionary, codes } = column;
+  return row => (codes[row] === MISSING_CODE ? '' : dictionary[codes[row]]);
+}
+
+// One reusable record-shaped view over the batch, for code written against
+// records such as compiled queries; moving it to a row allocates nothing
+export function rowCursor(batch: ColumnarBatch): (row: number) => HomeCreditRecord {
+  let current = 0;
+  const record = {};
+  Object.entries(batch.columns).forEach(([name, column]) => {
+    Object.defineProperty(record, name, {
+      enumerable: true,
+      get: column.kind === 'numeric'
+        ? () => (Number.isNaN(column.values[current]) ? null : column.values[current])
+        : () => (column.codes[current] === MISSING_CODE ? null : column.dictionary[column.codes[current]])
+    });
+  });
+  return row => {
+    current = row;
+    return record as unknown as HomeCreditRecord;
+  };
+}
@@ -0,0 +1,358 @@
+import { RowSet, categoryReader, numericReader } from './columnar';
+import { EMPTY_FILTERS, FilterState, formatFilterValue } from './filters';
+import { ProportionTest, mean, twoProportionTest } from './stats';
+
+// Segment A vs segment B: segment A is the dashboard's active filters, segment
+// B a baseline picked on the comparison page. The data engine selects both
+// segments' rows and compares them with compareSegments.
+
+export type ComparisonBaseline =
+  // Every record outside segment A
+  | { kind: 'rest' }
+  // The whole dataset, segment A included
+  | { kind: 'all' }
+  // A saved segment or a pinned copy of earlier filters
+  | { kind: 'filters'; label: string; filters: FilterState };
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Columns offered for the breakdown charts
+export const COMPARE_CATEGORY_COLUMNS = [
+  'NAME_EDUCATION_TYPE',
+  'NAME_HOUSING_TYPE',
+  'NAME_FAMILY_STATUS',
+  'CODE_GENDER',
+  'INCOME_BRACKET',
+  'NAME_CONTRACT_TYPE',
+  'OCCUPATION_TYPE',
+  'REGION_RATING_CLIENT'
+];
+
+export const COMPARE_NUMERIC_COLUMNS = [
+  'AGE_YEARS',
+  'AMT_INCOME_TOTAL',
+  'AMT_CREDIT',
+  'AMT_ANNUITY',
+  'EMPLOYMENT_YEARS',
+  'DTI',
+  'LOAN_TO_INCOME'
+];
+
+// Breakdown columns picked on the comparison page
+export interface ComparisonColumns {
+  category: string;
+  numeric: string;
+}
+
+export const DEFAULT_COMPARISON_COLUMNS: ComparisonColumns = {
+  category: COMPARE_CATEGORY_COLUMNS[0],
+  numeric: COMPARE_NUMERIC_COLUMNS[0]
+};
+
+export interface ComparisonQuery {
+  // Segment B's filters; null for everyone outside segment A
+  baseline: FilterState | null;
+  columns: ComparisonColumns;
+}
+
+// Filters selecting segment B; null for everyone outside segment A
+export function baselineFilters(baseline: ComparisonBaseline): FilterState | null {
+  if (baseline.kind === 'all') return EMPTY_FILTERS;
+  if (baseline.kind === 'filters') return baseline.filters;
+  return null;
+}
+
+// Row indices not in `rows`, for the everyone else baseline
+export function complementRows(length: number, rows: Uint32Array): Uint32Array {
+  const selected = new Uint8Array(length);
+  rows.forEach(row => {
+    selected[row] = 1;
+  });
+  const rest = new Uint32Array(length - rows.length);
+  let count = 0;
+  for (let row = 0; row < length; row++) {
+    if (!selected[row]) rest[count++] = row;
+  }
+  return rest;
+}
+
+// The z-tests assume independent samples, so they are skipped when the
+// segments share records (e.g. B is all records or an overlapping segment).
+// Row lists are ascending, so one merge pass finds any shared row.
+export function segmentsOverlap(a: Uint32Array, b: Uint32Array): boolean {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) return true;
+    if (a[i] < b[j]) i++;
+    else j++;
+  }
+  return false;
+}
+
+export function baselineLabel(baseline: ComparisonBaseline): string {
+  if (baseline.kind === 'rest') return 'Everyone else';
+  if (baseline.kind === 'all') return 'All records';
+  return baseline.label;
+}
+
+export type MetricFormat = 'count' | 'percent' | 'currency' | 'years' | 'ratio';
+
+export interface MetricComparison {
+  id: string;
+  label: string;
+  format: MetricFormat;
+  a: number | null;
+  b: number | null;
+  // A minus B; percentage points for percent metrics
+  delta: number | null;
+  // Proportion metrics only; null when there is nothing to test or the segments overlap
+  test: ProportionTest | null;
+}
+
+interface Proportion {
+  successes: number;
+  total: number;
+}
+
+type RowTest = (row: number) => boolean;
+
+function proportion(rows: Uint32Array, include: RowTest, success: RowTest): Proportion {
+  let successes = 0;
+  let total = 0;
+  rows.forEach(row => {
+    if (!include(row)) return;
+    total++;
+    if (success(row)) successes++;
+  });
+  return { successes, total };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((x, y) => x - y);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function columnValues({ batch, rows }: RowSet, column: string): number[] {
+  const read = numericReader(batch, column);
+  const values: number[] = [];
+  rows.forEach(row => {
+    const value = read(row);
+    if (!Number.isNaN(value)) values.push(value);
+  });
+  return values;
+}
+
+const anyRow = () => true;
+
+export function compareMetrics(a: RowSet, b: RowSet, labelled: boolean, independent: boolean): MetricComparison[] {
+  const metrics: MetricComparison[] = [];
+  // Both segments are rows of the same batch
+  const { batch } = a;
+  const target = numericReader(batch, 'TARGET');
+  const gender = categoryReader(batch, 'CODE_GENDER');
+  const children = numericReader(batch, 'CNT_CHILDREN');
+  const realty = categoryReader(batch, 'FLAG_OWN_REALTY');
+
+  const addValue = (id: string, label: string, format: MetricFormat, measure: (set: RowSet) => number | null) => {
+    const valueA = measure(a);
+    const valueB = measure(b);
+    metrics.push({
+      id, label, format, a: valueA, b: valueB,
+      delta: valueA === null || valueB === null ? null : valueA - valueB,
+      test: null
+    });
+  };
+
+  const addProportion = (id: string, label: string, include: RowTest, success: RowTest) => {
+    const pa = proportion(a.rows, include, success);
+    const pb = proportion(b.rows, include, success);
+    const rateA = pa.total > 0 ? (pa.successes / pa.total) * 100 : null;
+    const rateB = pb.total > 0 ? (pb.successes / pb.total) * 100 : null;
+    metrics.push({
+      id, label, format: 'percent', a: rateA, b: rateB,
+      delta: rateA === null || rateB === null ? null : rateA - rateB,
+      test: independent ? twoProportionTest(pa.successes, pa.total, pb.successes, pb.total) : null
+    });
+  };
+
+  addValue('count', 'Applicants', 'count', set => set.rows.length);
+  if (labelled) addProportion('defaultRate', 'Default Rate', row => !Number.isNaN(target(row)), row => target(row) === 1);
+  addValue('medianAge', 'Median Age', 'years', set => median(columnValues(set, 'AGE_YEARS')));
+  addValue('medianIncome', 'Median Income', 'currency', set => median(columnValues(set, 'AMT_INCOME_TOTAL')));
+  addValue('avgCredit', 'Average Credit', 'currency', set => set.rows.length > 0 ? mean(columnValues(set, 'AMT_CREDIT')) : null);
+  addValue('avgDTI', 'Average DTI', 'ratio', set => set.rows.length > 0 ? mean(columnValues(set, 'DTI')) : null);
+  addValue('avgLTI', 'Average LTI', 'ratio', set => set.rows.length > 0 ? mean(columnValues(set, 'LOAN_TO_INCOME')) : null);
+  addProportion('female', 'Female', anyRow, row => gender(row) === 'F');
+  addProportion('withChildren', 'With Children', anyRow, row => children(row) > 0);
+  addProportion('ownsRealty', 'Owns Realty', anyRow, row => realty(row) === 'Y');
+
+  return metrics;
+}
+
+export interface CategoryComparison {
+  value: string;
+  label: string;
+  // Percentage of each segment's records
+  shareA: number;
+  shareB: number;
+  // Percentage over labelled records; null when a segment has none
+  defaultRateA: number | null;
+  defaultRateB: number | null;
+  // Default rate difference within the category; null when the segments overlap
+  test: ProportionTest | null;
+}
+
+interface CategoryCounts {
+  total: number;
+  labelled: number;
+  defaults: number;
+}
+
+function countCategories({ batch, rows }: RowSet, column: string): Map<string, CategoryCounts> {
+  const read = categoryReader(batch, column);
+  const target = numericReader(batch, 'TARGET');
+  const counts = new Map<string, CategoryCounts>();
+  rows.forEach(row => {
+    const value = read(row);
+    const entry = counts.get(value) ?? { total: 0, labelled: 0, defaults: 0 };
+    const label = target(row);
+    entry.total++;
+    if (!Number.isNaN(label)) entry.labelled++;
+    if (label === 1) entry.defaults++;
+    counts.set(value, entry);
+  });
+  return counts;
+}
+
+// The `limit` categories most common across both segments
+export function compareCategories(a: RowSet, b: RowSet, column: string, independent: boolean, limit = 10): CategoryComparison[] {
+  const countsA = countCategories(a, column);
+  const countsB = countCategories(b, column);
+  const empty: CategoryCounts = { total: 0, labelled: 0, defaults: 0 };
+  const rate = (counts: CategoryCounts) => counts.labelled > 0 ? (counts.defaults / counts.labelled) * 100 : null;
+
+  return Array.from(new Set([...countsA.keys(), ...countsB.keys()]))
+    .map(value => {
+      const ca = countsA.get(value) ?? empty;
+      const cb = countsB.get(value) ?? empty;
+      return {
+        value,
+        label: formatFilterValue(column, value),
+        shareA: a.rows.length > 0 ? (ca.total / a.rows.length) * 100 : 0,
+        shareB: b.rows.length > 0 ? (cb.total / b.rows.length) * 100 : 0,
+        defaultRateA: rate(ca),
+        defaultRateB: rate(cb),
+        test: independent ? twoProportionTest(ca.defaults, ca.labelled, cb.defaults, cb.labelled) : null,
+        weight: ca.total + cb.total
+      };
+    })
+    .sort((x, y) => y.weight - x.weight)
+    .slice(0, limit)
+    .map(({ weight, ...row }) => row);
+}
+
+export interface BinComparison {
+  range: string;
+  min: number;
+  max: number;
+  // Percentage of each segment's non-missing values
+  shareA: number;
+  shareB: number;
+}
+
+// Histogram of both segments over shared bins
+export function compareDistributions(a: RowSet, b: RowSet, column: string, numBins = 15): BinComparison[] {
+  const valuesA = columnValues(a, column);
+  const valuesB = columnValues(b, column);
+  const all = valuesA.concat(valuesB);
+  if (all.length === 0) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  all.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  const binSize = (max - min) / numBins || 1;
+  const bins = Array.from({ length: numBins }, (_, i) => ({
+    range: `${formatBound(min + i * binSize)}-${formatBound(min + (i + 1) * binSize)}`,
+    min: min + i * binSize,
+    max: min + (i + 1) * binSize,
+    shareA: 0,
+    shareB: 0
+  }));
+
+  const tally = (values: number[], key: 'shareA' | 'shareB') => {
+    values.forEach(value => {
+      bins[Math.min(Math.floor((value - min) / binSize), numBins - 1)][key]++;
+    });
+    if (values.length > 0) bins.forEach(bin => { bin[key] = (bin[key] / values.length) * 100; });
+  };
+  tally(valuesA, 'shareA');
+  tally(valuesB, 'shareB');
+  return bins;
+}
+
+export interface SegmentComparison {
+  countA: number;
+  countB: number;
+  // False when the segments share records, so the z-tests are skipped
+  independent: boolean;
+  metrics: MetricComparison[];
+  categories: CategoryComparison[];
+  distribution: BinComparison[];
+}
+
+// Everything the comparison page shows, for segment rows selected by the data engine
+export function compareSegments(a: RowSet, b: RowSet, query: ComparisonQuery, labelled: boolean): SegmentComparison {
+  const independent = query.baseline === null || !segmentsOverlap(a.rows, b.rows);
+  return {
+    countA: a.rows.length,
+    countB: b.rows.length,
+    independent,
+    metrics: compareMetrics(a, b, labelled, independent),
+    categories: compareCategories(a, b, query.columns.category, independent),
+    distribution: compareDistributions(a, b, query.columns.numeric)
+  };
+}
+
+function formatBound(value: number): string {
+  if (Math.abs(value) >= 1000) return `${Math.round(value / 1000)}K`;
+  return Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(2);
+}
+
+export function formatMetric(value: number | null, format: MetricFormat): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  switch (format) {
+    case 'count':
+      return Math.round(value).toLocaleString();
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    case 'currency':
+      return `$${Math.round(value).toLocaleString()}`;
+    case 'years':
+      return `${value.toFixed(1)} yrs`;
+    default:
+      return value.toFixed(3);
+  }
+}
+
+// Deltas are signed; percent deltas are percentage points
+export function formatDelta(value: number | null, format: MetricFormat): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  const magnitude = formatMetric(Math.abs(value), format).replace('%', '');
+  // Differences that round to zero show no direction
+  const sign = Number(magnitude.replace(/[^\d.]/g, '')) === 0 ? '±' : value > 0 ? '+' : '−';
+  return format === 'percent' ? `${sign}${magnitude} pts` : `${sign}${magnitude}`;
+}
+
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}
+
+export function isSignificant(test: ProportionTest | null): boolean {
+  return test !== null && test.pValue < SIGNIFICANCE_LEVEL;
+}
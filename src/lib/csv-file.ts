@@ -0,0 +1,31 @@
+import Papa from 'papaparse';
+import { RowSet } from './columnar';
+
+// Browser download of CSV text
+export function saveCSV(fileName: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+// Browser download of records as a CSV file, one column per field
+export function downloadCSV(fileName: string, rows: object[]): void {
+  saveCSV(fileName, Papa.unparse(rows));
+}
+
+// Rows of a columnar batch as CSV text, one column per batch column;
+// missing values are empty cells
+export function formatCSV({ batch, rows }: RowSet): string {
+  const fields = Object.keys(batch.columns);
+  const readers = Object.values(batch.columns).map(column =>
+    column.kind === 'numeric'
+      ? (row: number) => (Number.isNaN(column.values[row]) ? null : column.values[row])
+      : (row: number) => (column.codes[row] < 0 ? null : column.dictionary[column.codes[row]])
+  );
+  const data = Array.from(rows, row => readers.map(read => read(row)));
+  return Papa.unparse({ fields, data });
+}
@@ -0,0 +1,310 @@
+import { RowSet, categoryReader, numericReader } from './columnar';
+import { calculateDefaultRateByCategory, calculateKPIs, columnValues, countTargets, prepareChartData } from './data-utils';
+
+// Everything a dashboard page shows for the active filters, computed by the
+// data engine so pages only render. Clickable charts are computed over
+// `rowsFor(column)`: every filter applies except the chart column's own, so
+// the chart keeps showing the elements that can be (de)selected.
+
+export type DashboardView = 'overview' | 'risk' | 'demographics' | 'financial';
+
+export const DASHBOARD_VIEWS: DashboardView[] = ['overview', 'risk', 'demographics', 'financial'];
+
+export function isDashboardView(page: string | undefined): page is DashboardView {
+  return DASHBOARD_VIEWS.includes(page as DashboardView);
+}
+
+export interface AggregateScope {
+  rows: RowSet;
+  rowsFor: (column: string) => RowSet;
+}
+
+// Mean of a column over the rows passing `include`; NaN when none do
+function average(set: RowSet, column: string, include: (row: number) => boolean = () => true, accept: (value: number) => boolean = Number.isFinite): number {
+  const read = numericReader(set.batch, column);
+  let sum = 0;
+  let count = 0;
+  set.rows.forEach(row => {
+    const value = read(row);
+    if (!include(row) || !accept(value)) return;
+    sum += value;
+    count++;
+  });
+  return sum / count;
+}
+
+// Upper median, as the pages have always shown it
+function middleValue(values: number[]): number {
+  return [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+}
+
+function countRows(set: RowSet, test: (row: number) => boolean): number {
+  let count = 0;
+  set.rows.forEach(row => {
+    if (test(row)) count++;
+  });
+  return count;
+}
+
+// Fixed-width histogram bins labelled in thousands, lowest first
+function amountBins(values: number[], width: number, limit: number) {
+  const bins = new Map<number, number>();
+  values.forEach(value => {
+    const bin = Math.floor(value / width) * width;
+    bins.set(bin, (bins.get(bin) || 0) + 1);
+  });
+  return Array.from(bins.entries())
+    .sort(([a], [b]) => a - b)
+    .slice(0, limit)
+    .map(([bin, count]) => ({
+      range: `${(bin / 1000).toFixed(0)}K-${((bin + width) / 1000).toFixed(0)}K`,
+      min: bin,
+      max: bin + width,
+      count
+    }));
+}
+
+const targetOf = (value: number) => (Number.isNaN(value) ? null : value);
+
+export function overviewAggregates({ rows, rowsFor }: AggregateScope) {
+  return {
+    kpis: calculateKPIs(rows),
+    targetDistribution: prepareChartData(rowsFor('TARGET'), 'target_distribution'),
+    ageDistribution: prepareChartData(rowsFor('AGE_YEARS'), 'age_distribution'),
+    incomeDistribution: prepareChartData(rowsFor('AMT_INCOME_TOTAL'), 'income_distribution'),
+    genderDistribution: prepareChartData(rowsFor('CODE_GENDER'), 'gender_distribution'),
+    educationDistribution: prepareChartData(rowsFor('NAME_EDUCATION_TYPE'), 'education_distribution'),
+    // Only time-indexed datasets (e.g. synthetic cohorts) carry APPLICATION_MONTH
+    monthlyTrend: prepareChartData(rowsFor('APPLICATION_MONTH'), 'monthly_trend')
+  };
+}
+
+export function riskAggregates({ rows, rowsFor }: AggregateScope) {
+  const target = numericReader(rows.batch, 'TARGET');
+  const isDefaulter = (row: number) => target(row) === 1;
+
+  // Age vs target distribution, in 5-year bins
+  const ageSet = rowsFor('AGE_YEARS');
+  const age = numericReader(ageSet.batch, 'AGE_YEARS');
+  const ageBins = new Map<number, { defaults: number; total: number }>();
+  ageSet.rows.forEach(row => {
+    const value = age(row);
+    if (!value) return;
+    const bin = Math.floor(value / 5) * 5;
+    const entry = ageBins.get(bin) ?? { defaults: 0, total: 0 };
+    entry.total++;
+    if (target(row) === 1) entry.defaults++;
+    ageBins.set(bin, entry);
+  });
+  const ageTargetChart = Array.from(ageBins.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bin, { defaults, total }]) => ({
+      ageRange: `${bin}-${bin + 5}`,
+      min: bin,
+      max: bin + 5,
+      defaults,
+      total,
+      defaultRate: (defaults / total) * 100,
+      nonDefaults: total - defaults
+    }));
+
+  // Contract type distribution
+  const contractTypeChart = calculateDefaultRateByCategory(rowsFor('NAME_CONTRACT_TYPE'), 'NAME_CONTRACT_TYPE')
+    .map(({ category, defaults, total }) => ({
+      contractType: category,
+      defaults,
+      nonDefaults: total - defaults,
+      defaultRate: (defaults / total) * 100
+    }));
+
+  return {
+    kpis: calculateKPIs(rows),
+    defaultByGender: prepareChartData(rowsFor('CODE_GENDER'), 'default_by_gender'),
+    defaultByEducation: prepareChartData(rowsFor('NAME_EDUCATION_TYPE'), 'default_by_education'),
+    defaultByHousing: prepareChartData(rowsFor('NAME_HOUSING_TYPE'), 'default_by_housing'),
+    targetCounts: countTargets(rowsFor('TARGET')),
+    avgCreditDefaulters: average(rows, 'AMT_CREDIT', isDefaulter),
+    avgAnnuityDefaulters: average(rows, 'AMT_ANNUITY', isDefaulter),
+    avgEmploymentDefaulters: average(rows, 'EMPLOYMENT_YEARS', isDefaulter, value => value > 0),
+    ageTargetChart,
+    contractTypeChart
+  };
+}
+
+// Scatter points per target class
+const SCATTER_SAMPLE = 250;
+
+export function demographicsAggregates({ rows, rowsFor }: AggregateScope) {
+  const { batch } = rows;
+  const target = numericReader(batch, 'TARGET');
+  const age = numericReader(batch, 'AGE_YEARS');
+  const familyStatus = categoryReader(batch, 'NAME_FAMILY_STATUS');
+  const education = categoryReader(batch, 'NAME_EDUCATION_TYPE');
+  const housing = categoryReader(batch, 'NAME_HOUSING_TYPE');
+  const employment = numericReader(batch, 'EMPLOYMENT_YEARS');
+  const hasAge = (value: number) => !!value;
+
+  // Occupation data (top 10)
+  const occupationSet = rowsFor('OCCUPATION_TYPE');
+  const occupation = categoryReader(occupationSet.batch, 'OCCUPATION_TYPE');
+  const occupationCounts = new Map<string, number>();
+  occupationSet.rows.forEach(row => {
+    const value = occupation(row);
+    if (value.trim()) occupationCounts.set(value, (occupationCounts.get(value) || 0) + 1);
+  });
+  const topOccupations = Array.from(occupationCounts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10)
+    .map(([name, count]) => ({ name, count }));
+
+  // Children distribution; `values` lists the CNT_CHILDREN values each bar covers
+  const childrenSet = rowsFor('CNT_CHILDREN');
+  const children = numericReader(childrenSet.batch, 'CNT_CHILDREN');
+  const childrenCounts = [0, 0, 0, 0, 0, 0];
+  const largeFamilyValues = new Set<string>();
+  childrenSet.rows.forEach(row => {
+    const value = children(row);
+    if (value >= 5) {
+      childrenCounts[5]++;
+      largeFamilyValues.add(String(value));
+    } else if (value >= 0 && Number.isInteger(value)) {
+      childrenCounts[value]++;
+    }
+  });
+  const childrenDistribution = childrenCounts.map((count, i) => ({
+    children: i === 5 ? '5+' : i.toString(),
+    values: i === 5 ? Array.from(largeFamilyValues) : [i.toString()],
+    count
+  }));
+
+  // Age vs target scatter: the first repaid and defaulted applicants
+  const familySize = numericReader(batch, 'CNT_FAM_MEMBERS');
+  const childCount = numericReader(batch, 'CNT_CHILDREN');
+  const sampled = [0, 0];
+  const ageTargetData: { age: number; target: number | null; children: number; familySize: number }[] = [];
+  for (let i = 0; i < rows.rows.length && (sampled[0] < SCATTER_SAMPLE || sampled[1] < SCATTER_SAMPLE); i++) {
+    const row = rows.rows[i];
+    const targetValue = target(row);
+    if (!age(row) || (targetValue !== 0 && targetValue !== 1) || sampled[targetValue] >= SCATTER_SAMPLE) continue;
+    sampled[targetValue]++;
+    ageTargetData.push({ age: age(row), target: targetValue, children: childCount(row), familySize: familySize(row) });
+  }
+
+  const isWorking = (row: number) => employment(row) > 0;
+
+  return {
+    kpis: calculateKPIs(rows),
+    total: rows.rows.length,
+    genderDistribution: prepareChartData(rowsFor('CODE_GENDER'), 'gender_distribution'),
+    educationDistribution: prepareChartData(rowsFor('NAME_EDUCATION_TYPE'), 'education_distribution'),
+    familyStatusDistribution: prepareChartData(rowsFor('NAME_FAMILY_STATUS'), 'family_status_distribution'),
+    ageDistribution: prepareChartData(rowsFor('AGE_YEARS'), 'age_distribution'),
+    avgAgeDefaulters: average(rows, 'AGE_YEARS', row => target(row) === 1, hasAge),
+    avgAgeNonDefaulters: average(rows, 'AGE_YEARS', row => target(row) === 0, hasAge),
+    avgAge: average(rows, 'AGE_YEARS', () => true, hasAge),
+    withChildrenCount: countRows(rows, row => childCount(row) > 0),
+    marriedCount: countRows(rows, row => familyStatus(row).includes('Married')),
+    singleCount: countRows(rows, row => familyStatus(row).includes('Single')),
+    higherEdCount: countRows(rows, row => education(row) === 'Higher education' || education(row) === 'Academic degree'),
+    livingWithParentsCount: countRows(rows, row => housing(row) === 'With parents'),
+    workingCount: countRows(rows, isWorking),
+    avgEmploymentYears: average(rows, 'EMPLOYMENT_YEARS', isWorking),
+    topOccupations,
+    childrenDistribution,
+    housingDistribution: prepareChartData(rowsFor('NAME_HOUSING_TYPE'), 'housing_distribution'),
+    ageTargetData
+  };
+}
+
+// Scatter points shown per chart
+const SCATTER_POINTS = 1000;
+
+export function financialAggregates({ rows, rowsFor }: AggregateScope) {
+  const { batch } = rows;
+  const target = numericReader(batch, 'TARGET');
+  const income = numericReader(batch, 'AMT_INCOME_TOTAL');
+  const credit = numericReader(batch, 'AMT_CREDIT');
+  const annuity = numericReader(batch, 'AMT_ANNUITY');
+  const lti = numericReader(batch, 'LOAN_TO_INCOME');
+  const dti = numericReader(batch, 'DTI');
+
+  // Income vs credit and income vs annuity scatter data
+  const incomeVsCreditData: { income: number; credit: number; target: number | null; lti: number }[] = [];
+  const incomeVsAnnuityData: { income: number; annuity: number; target: number | null; dti: number }[] = [];
+  for (let i = 0; i < rows.rows.length && (incomeVsCreditData.length < SCATTER_POINTS || incomeVsAnnuityData.length < SCATTER_POINTS); i++) {
+    const row = rows.rows[i];
+    const incomeValue = income(row);
+    if (!(incomeValue > 0)) continue;
+    if (credit(row) > 0 && incomeVsCreditData.length < SCATTER_POINTS) {
+      incomeVsCreditData.push({ income: incomeValue, credit: credit(row), target: targetOf(target(row)), lti: lti(row) || credit(row) / incomeValue });
+    }
+    if (annuity(row) > 0 && incomeVsAnnuityData.length < SCATTER_POINTS) {
+      incomeVsAnnuityData.push({ income: incomeValue, annuity: annuity(row), target: targetOf(target(row)), dti: dti(row) || annuity(row) / incomeValue });
+    }
+  }
+
+  // Credit and income by target
+  const byTarget = (value: 0 | 1): RowSet => ({ batch, rows: rows.rows.filter(row => target(row) === value) });
+  const nonDefaulters = byTarget(0);
+  const defaulters = byTarget(1);
+  const kpis = calculateKPIs(rows);
+
+  const creditByTargetData = [
+    { category: 'Non-Defaulters', avgCredit: average(nonDefaulters, 'AMT_CREDIT'), medianCredit: middleValue(columnValues(nonDefaulters, 'AMT_CREDIT')) },
+    { category: 'Defaulters', avgCredit: average(defaulters, 'AMT_CREDIT'), medianCredit: middleValue(columnValues(defaulters, 'AMT_CREDIT')) }
+  ];
+  const incomeByTargetData = [
+    { category: 'Non-Defaulters', avgIncome: kpis.avgIncomeNonDefaulters, medianIncome: middleValue(columnValues(nonDefaulters, 'AMT_INCOME_TOTAL')) },
+    { category: 'Defaulters', avgIncome: kpis.avgIncomeDefaulters, medianIncome: middleValue(columnValues(defaulters, 'AMT_INCOME_TOTAL')) }
+  ];
+
+  // Income brackets vs default rate; pages order them by the bracket scheme
+  const incomeBrackets = calculateDefaultRateByCategory(rowsFor('INCOME_BRACKET'), 'INCOME_BRACKET')
+    .map(({ category, defaults, total }) => ({
+      bracket: category || 'Unknown',
+      value: category,
+      defaultRate: (defaults / total) * 100,
+      total
+    }));
+
+  return {
+    kpis,
+    total: rows.rows.length,
+    avgGoodsPrice: average(rows, 'AMT_GOODS_PRICE'),
+    incomeDistribution: prepareChartData(rowsFor('AMT_INCOME_TOTAL'), 'income_distribution'),
+    creditChartData: amountBins(columnValues(rowsFor('AMT_CREDIT'), 'AMT_CREDIT'), 100000, 15),
+    annuityChartData: amountBins(columnValues(rowsFor('AMT_ANNUITY'), 'AMT_ANNUITY', value => value > 0), 5000, 15),
+    incomeVsCreditData,
+    incomeVsAnnuityData,
+    creditByTargetData,
+    incomeByTargetData,
+    incomeBrackets,
+    medianCredit: middleValue(columnValues(rows, 'AMT_CREDIT')) || 0,
+    medianAnnuity: middleValue(columnValues(rows, 'AMT_ANNUITY', value => value > 0)) || 0
+  };
+}
+
+export type OverviewAggregates = ReturnType<typeof overviewAggregates>;
+export type RiskAggregates = ReturnType<typeof riskAggregates>;
+export type DemographicsAggregates = ReturnType<typeof demographicsAggregates>;
+export type FinancialAggregates = ReturnType<typeof financialAggregates>;
+
+// A view's aggregates, tagged with the view they belong to
+export type ViewAggregates =
+  | { view: 'overview'; aggregates: OverviewAggregates }
+  | { view: 'risk'; aggregates: RiskAggregates }
+  | { view: 'demographics'; aggregates: DemographicsAggregates }
+  | { view: 'financial'; aggregates: FinancialAggregates };
+
+export function aggregateView(view: DashboardView, scope: AggregateScope): ViewAggregates {
+  switch (view) {
+    case 'overview':
+      return { view, aggregates: overviewAggregates(scope) };
+    case 'risk':
+      return { view, aggregates: riskAggregates(scope) };
+    case 'demographics':
+      return { view, aggregates: demographicsAggregates(scope) };
+    case 'financial':
+      return { view, aggregates: financialAggregates(scope) };
+  }
+}
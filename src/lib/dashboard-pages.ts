@@ -0,0 +1,8 @@
+// Dashboard pages, each served at /<id> (see App.tsx and the navigation sidebar)
+export const DASHBOARD_PAGES = ['overview', 'risk', 'demographics', 'financial', 'compare', 'correlations', 'data', 'modeling'];
+
+export const DEFAULT_PAGE = 'overview';
+
+export function isDashboardPage(id: string | undefined): boolean {
+  return id !== undefined && DASHBOARD_PAGES.includes(id);
+}
@@ -0,0 +1,110 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { encodeColumns, transferablesOf } from './columnar';
+import { EngineQuery, EngineResult } from './data-engine';
+import { IncomeBracketScheme } from './income-brackets';
+import { FilterState } from './filters';
+import { EngineRequest, EngineResponse } from '@/workers/data-engine-protocol';
+
+// Main-thread handle for the data engine worker. One query runs at a time;
+// while it does, a newer query replaces any still waiting, so a slider drag
+// only computes the positions the worker can keep up with. Exports are never
+// superseded; each is answered in turn.
+
+export interface DataEngineClient {
+  // Hands the worker a columnar copy of the dataset, without INCOME_BRACKET
+  load: (records: HomeCreditRecord[]) => void;
+  // The worker assigns INCOME_BRACKET itself, so a new scheme sends no records
+  setIncomeBrackets: (scheme: IncomeBracketScheme) => void;
+  // Rejects with an AbortError when a newer query supersedes it before it runs
+  query: (query: EngineQuery) => Promise<EngineResult>;
+  // CSV text of the records matching `filters`
+  exportCSV: (filters: FilterState) => Promise<string>;
+  dispose: () => void;
+}
+
+interface PendingQuery {
+  query: EngineQuery;
+  resolve: (result: EngineResult) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface PendingExport {
+  resolve: (csv: string) => void;
+  reject: (reason: unknown) => void;
+}
+
+export function createDataEngineClient(): DataEngineClient {
+  const worker = new Worker(new URL('../workers/data-engine.worker.ts', import.meta.url), { type: 'module' });
+  let nextId = 0;
+  let running: (PendingQuery & { id: number }) | null = null;
+  let waiting: PendingQuery | null = null;
+  const exports = new Map<number, PendingExport>();
+
+  const post = (request: EngineRequest, transfer: Transferable[] = []) => worker.postMessage(request, { transfer });
+
+  const startNext = () => {
+    if (running || !waiting) return;
+    running = { ...waiting, id: nextId++ };
+    waiting = null;
+    post({ type: 'query', id: running.id, query: running.query });
+  };
+
+  const settle = (id: number, finish: (query: PendingQuery) => void) => {
+    if (!running || running.id !== id) return;
+    const finished = running;
+    running = null;
+    finish(finished);
+    startNext();
+  };
+
+  // Every request still waiting for an answer
+  const rejectAll = (error: unknown) => {
+    running?.reject(error);
+    waiting?.reject(error);
+    running = null;
+    waiting = null;
+    exports.forEach(pending => pending.reject(error));
+    exports.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+    const message = event.data;
+    const pendingExport = exports.get(message.id);
+    if (pendingExport) {
+      exports.delete(message.id);
+      if (message.type === 'csv') pendingExport.resolve(message.csv);
+      else pendingExport.reject(new Error(message.type === 'error' ? message.message : 'Export failed'));
+    } else if (message.type === 'result') {
+      settle(message.id, query => query.resolve(message.result));
+    } else if (message.type === 'error') {
+      settle(message.id, query => query.reject(new Error(message.message)));
+    }
+  };
+
+  worker.onerror = (event) => {
+    rejectAll(new Error(event.message || 'Data engine worker failed'));
+  };
+
+  return {
+    load: (records) => {
+      // Encoding is one pass per dataset; the buffers move to the worker without copying
+      const batch = encodeColumns(records);
+      post({ type: 'load', batch }, transferablesOf(batch));
+    },
+    setIncomeBrackets: (scheme) => post({ type: 'brackets', scheme }),
+    query: (query) => new Promise<EngineResult>((resolve, reject) => {
+      waiting?.reject(new DOMException('Superseded by a newer query', 'AbortError'));
+      waiting = { query, resolve, reject };
+      startNext();
+    }),
+    exportCSV: (filters) => new Promise<string>((resolve, reject) => {
+      const id = nextId++;
+      exports.set(id, { resolve, reject });
+      post({ type: 'export', id, filters });
+    }),
+    dispose: () => {
+      worker.terminate();
+      rejectAll(new DOMException('Data engine stopped', 'AbortError'));
+    }
+  };
+}
@@ -0,0 +1,304 @@
+import { ColumnarBatch, RowSet, categoryReader, numericReader, rowCursor } from './columnar';
+import { FacetOption, FilterState, RangeBounds, facetOptions, rangeBounds } from './filters';
+import { encodeFilters } from './filter-url';
+import { compileQuery, isActiveQuery, serializeQuery, suggestValues } from './query';
+import { AggregateScope, DashboardView, ViewAggregates, aggregateView } from './dashboard-aggregates';
+import { IncomeBracketScheme, bracketIndex, incomeThresholds } from './income-brackets';
+import { ComparisonQuery, SegmentComparison, compareSegments, complementRows } from './compare';
+import { DatasetProfile, profileDataset } from './data-profile';
+import { hasLabels } from './data-utils';
+import { formatCSV } from './csv-file';
+
+// Filtering and aggregation over a columnar copy of the active dataset; the
+// data engine worker hosts one per dataset. Each criterion is evaluated to a
+// row mask that is kept across queries, so a slider tick only rescans the
+// slider's own column and the rest of the selection comes from cached masks.
+// Finished results are cached by view and filter state, so undo, redo and
+// returning to a page answer without recomputing.
+
+export interface EngineQuery {
+  filters: FilterState;
+  // Page whose aggregates to compute; null for just the record count
+  view: DashboardView | null;
+  // Category columns whose options the filter sidebar lists
+  facets: string[];
+  // Other filter states to count, e.g. history entries and saved segments
+  summaries: FilterState[];
+  // Range filter columns whose slider bounds the sidebar needs
+  ranges: string[];
+  // Columns of the query builder's conditions, for value suggestions
+  suggestions: string[];
+  // Segment B and the breakdown columns on the comparison page; null elsewhere
+  comparison: ComparisonQuery | null;
+}
+
+export interface DatasetSummary {
+  profile: DatasetProfile;
+  // Datasets without TARGET (e.g. application_test.csv) hide default-rate views
+  labelled: boolean;
+}
+
+export interface SelectionSummary {
+  count: number;
+  // Percentage over labelled records; null when none are labelled
+  defaultRate: number | null;
+}
+
+export interface EngineResult {
+  // Records matching the filters
+  count: number;
+  view: ViewAggregates | null;
+  facets: Record<string, FacetOption[]>;
+  // Keyed by encodeFilters of each requested state
+  summaries: Record<string, SelectionSummary>;
+  // Whole-dataset facts, the same for every query
+  dataset: DatasetSummary;
+  bounds: Record<string, RangeBounds | null>;
+  suggestions: Record<string, string[]>;
+  // Segment A (the filters) against segment B
+  comparison: SegmentComparison | null;
+}
+
+export interface DataEngine {
+  run: (query: EngineQuery) => EngineResult;
+  // The records matching `filters`, for download
+  exportCSV: (filters: FilterState) => string;
+}
+
+const MASK_CACHE_SIZE = 64;
+const RESULT_CACHE_SIZE = 32;
+const SUMMARY_CACHE_SIZE = 256;
+
+interface Criterion {
+  // Column the criterion restricts; null for the query
+  column: string | null;
+  mask: Uint8Array;
+}
+
+// Least recently used entries are evicted first (Maps keep insertion order)
+function cached<T>(cache: Map<string, T>, key: string, limit: number, compute: () => T): T {
+  if (cache.has(key)) {
+    const value = cache.get(key);
+    cache.delete(key);
+    cache.set(key, value);
+    return value;
+  }
+  const value = compute();
+  cache.set(key, value);
+  if (cache.size > limit) cache.delete(cache.keys().next().value);
+  return value;
+}
+
+// INCOME_BRACKET as addIncomeBrackets assigns it, replacing any loaded column,
+// so a new scheme only rebuilds this column
+function withIncomeBrackets(batch: ColumnarBatch, scheme: IncomeBracketScheme): ColumnarBatch {
+  const income = numericReader(batch, 'AMT_INCOME_TOTAL');
+  const incomes = Array.from({ length: batch.length }, (_, row) => income(row));
+  const thresholds = incomeThresholds(incomes, scheme);
+  // Code -1 marks a missing income
+  const codes = Int32Array.from(incomes, value => (Number.isFinite(value) ? bracketIndex(value, thresholds) : -1));
+  return {
+    ...batch,
+    columns: { ...batch.columns, INCOME_BRACKET: { kind: 'text', dictionary: [...scheme.labels], codes } }
+  };
+}
+
+export function createDataEngine(loaded: ColumnarBatch, incomeBrackets: IncomeBracketScheme): DataEngine {
+  const batch = withIncomeBrackets(loaded, incomeBrackets);
+  const { length } = batch;
+  const masks = new Map<string, Uint8Array>();
+  const results = new Map<string, Pick<EngineResult, 'count' | 'view'>>();
+  const facetResults = new Map<string, Record<string, FacetOption[]>>();
+  const summaries = new Map<string, SelectionSummary>();
+  const comparisons = new Map<string, SegmentComparison>();
+  // Each column's value frequencies over every record
+  const totals = new Map<string, Map<string, number>>();
+  const bounds = new Map<string, RangeBounds | null>();
+  let dataset: DatasetSummary | null = null;
+  const allRows = Uint32Array.from({ length }, (_, i) => i);
+  const valueOrder = { INCOME_BRACKET: incomeBrackets.labels };
+
+  const categoryMask = (column: string, values: string[]): Uint8Array => {
+    const mask = new Uint8Array(length);
+    const accepted = new Set(values);
+    const encoded = batch.columns[column];
+    if (encoded?.kind === 'text') {
+      // Test each dictionary entry once, then look rows up by code; missing is code -1
+      const acceptedCodes = encoded.dictionary.map(value => accepted.has(value));
+      const acceptMissing = accepted.has('');
+      encoded.codes.forEach((code, row) => {
+        mask[row] = (code < 0 ? acceptMissing : acceptedCodes[code]) ? 1 : 0;
+      });
+      return mask;
+    }
+    const read = categoryReader(batch, column);
+    for (let row = 0; row < length; row++) mask[row] = accepted.has(read(row)) ? 1 : 0;
+    return mask;
+  };
+
+  const rangeMask = (column: string, [min, max]: [number, number]): Uint8Array => {
+    const mask = new Uint8Array(length);
+    const read = numericReader(batch, column);
+    for (let row = 0; row < length; row++) {
+      const value = read(row);
+      mask[row] = value >= min && value <= max ? 1 : 0;
+    }
+    return mask;
+  };
+
+  const queryMask = (filters: FilterState): Uint8Array => {
+    const mask = new Uint8Array(length);
+    const test = compileQuery(filters.query);
+    const at = rowCursor(batch);
+    for (let row = 0; row < length; row++) mask[row] = test(at(row)) ? 1 : 0;
+    return mask;
+  };
+
+  const criteriaOf = (filters: FilterState): Criterion[] => {
+    const criteria: Criterion[] = [];
+    Object.entries(filters.categories).forEach(([column, values]) => {
+      if (values.length === 0) return;
+      const key = JSON.stringify(['category', column, [...values].sort()]);
+      criteria.push({ column, mask: cached(masks, key, MASK_CACHE_SIZE, () => categoryMask(column, values)) });
+    });
+    Object.entries(filters.ranges).forEach(([column, range]) => {
+      const key = JSON.stringify(['range', column, range]);
+      criteria.push({ column, mask: cached(masks, key, MASK_CACHE_SIZE, () => rangeMask(column, range)) });
+    });
+    if (isActiveQuery(filters.query)) {
+      const key = JSON.stringify(['query', serializeQuery(filters.query)]);
+      criteria.push({ column: null, mask: cached(masks, key, MASK_CACHE_SIZE, () => queryMask(filters)) });
+    }
+    return criteria;
+  };
+
+  const select = (criteria: Criterion[]): Uint32Array => {
+    if (criteria.length === 0) return allRows;
+    const rowMasks = criteria.map(criterion => criterion.mask);
+    const selected = new Uint32Array(length);
+    let count = 0;
+    for (let row = 0; row < length; row++) {
+      let pass = true;
+      for (let i = 0; pass && i < rowMasks.length; i++) pass = rowMasks[i][row] === 1;
+      if (pass) selected[count++] = row;
+    }
+    return selected.slice(0, count);
+  };
+
+  // Charts on a filtered column drop that column's criteria; others share the full selection
+  const scopeOf = (filters: FilterState): AggregateScope => {
+    const criteria = criteriaOf(filters);
+    const rows: RowSet = { batch, rows: select(criteria) };
+    const crossFiltered = new Map<string, RowSet>();
+    const rowsFor = (column: string): RowSet => {
+      if (!criteria.some(criterion => criterion.column === column)) return rows;
+      if (!crossFiltered.has(column)) {
+        crossFiltered.set(column, { batch, rows: select(criteria.filter(criterion => criterion.column !== column)) });
+      }
+      return crossFiltered.get(column);
+    };
+    return { rows, rowsFor };
+  };
+
+  const countValues = (column: string, rows: Uint32Array): Map<string, number> => {
+    const counts = new Map<string, number>();
+    const encoded = batch.columns[column];
+    if (encoded?.kind === 'text') {
+      // Tallied by code, with the last slot for missing values
+      const byCode = new Uint32Array(encoded.dictionary.length + 1);
+      rows.forEach(row => {
+        const code = encoded.codes[row];
+        byCode[code < 0 ? encoded.dictionary.length : code]++;
+      });
+      byCode.forEach((count, code) => {
+        if (count > 0) counts.set(code < encoded.dictionary.length ? encoded.dictionary[code] : '', count);
+      });
+      return counts;
+    }
+    const read = categoryReader(batch, column);
+    rows.forEach(row => {
+      const value = read(row);
+      counts.set(value, (counts.get(value) || 0) + 1);
+    });
+    return counts;
+  };
+
+  const totalsOf = (column: string): Map<string, number> => {
+    if (!totals.has(column)) totals.set(column, countValues(column, allRows));
+    return totals.get(column);
+  };
+
+  const boundsOf = (column: string): RangeBounds | null => {
+    if (!bounds.has(column)) bounds.set(column, rangeBounds(batch, column));
+    return bounds.get(column);
+  };
+
+  // Profiled on the first query, once per dataset and bracket scheme
+  const datasetSummary = (): DatasetSummary => {
+    if (!dataset) dataset = { profile: profileDataset(batch), labelled: hasLabels(batch) };
+    return dataset;
+  };
+
+  const facetsOf = (columns: string[], filters: FilterState, scope: AggregateScope) =>
+    Object.fromEntries(columns.map(column => {
+      const counts = countValues(column, scope.rowsFor(column).rows);
+      return [column, facetOptions(column, totalsOf(column), counts, filters, valueOrder)];
+    }));
+
+  const summarize = (rows: Uint32Array): SelectionSummary => {
+    const target = numericReader(batch, 'TARGET');
+    let labelled = 0;
+    let defaults = 0;
+    rows.forEach(row => {
+      const value = target(row);
+      if (Number.isNaN(value)) return;
+      labelled++;
+      if (value === 1) defaults++;
+    });
+    return { count: rows.length, defaultRate: labelled > 0 ? (defaults / labelled) * 100 : null };
+  };
+
+  // Segment B's rows are everyone outside segment A when there is no baseline
+  const compare = (rows: Uint32Array, query: ComparisonQuery): SegmentComparison => {
+    const baselineRows = query.baseline ? select(criteriaOf(query.baseline)) : complementRows(length, rows);
+    return compareSegments({ batch, rows }, { batch, rows: baselineRows }, query, datasetSummary().labelled);
+  };
+
+  return {
+    run: ({ filters, view, facets, summaries: summaryFilters, ranges, suggestions, comparison }) => {
+      const key = encodeFilters(filters);
+      // Shared by the page aggregates and facets, built only when either misses the cache
+      let scope: AggregateScope | null = null;
+      const scopeFor = () => {
+        if (!scope) scope = scopeOf(filters);
+        return scope;
+      };
+
+      const result = cached(results, `${view ?? ''}|${key}`, RESULT_CACHE_SIZE, () => {
+        const { rows, rowsFor } = scopeFor();
+        return { count: rows.rows.length, view: view ? aggregateView(view, { rows, rowsFor }) : null };
+      });
+      return {
+        ...result,
+        facets: facets.length === 0
+          ? {}
+          : cached(facetResults, `${facets.join(',')}|${key}`, RESULT_CACHE_SIZE, () => facetsOf(facets, filters, scopeFor())),
+        summaries: Object.fromEntries(summaryFilters.map(state => {
+          const stateKey = encodeFilters(state);
+          return [stateKey, cached(summaries, stateKey, SUMMARY_CACHE_SIZE, () => summarize(select(criteriaOf(state))))];
+        })),
+        dataset: datasetSummary(),
+        bounds: Object.fromEntries(ranges.map(column => [column, boundsOf(column)])),
+        suggestions: Object.fromEntries(suggestions.map(column => [column, suggestValues(totalsOf(column))])),
+        comparison: comparison && cached(
+          comparisons,
+          JSON.stringify([key, comparison.baseline && encodeFilters(comparison.baseline), comparison.columns]),
+          RESULT_CACHE_SIZE,
+          () => compare(scopeFor().rows.rows, comparison)
+        )
+      };
+    },
+
+    exportCSV: (filters) => formatCSV({ batch, rows: select(criteriaOf(filters)) })
+  };
+}
@@ -0,0 +1,162 @@
+import { DAYS_EMPLOYED_SENTINEL } from './home-credit-schema';
+import { ColumnarBatch } from './columnar';
+import { AUXILIARY_COLUMNS } from './auxiliary-tables';
+
+// Data-quality profiling for the active dataset
+
+export interface SentinelProfile {
+  value: string | number;
+  description: string;
+  count: number;
+  rate: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: 'numeric' | 'categorical';
+  derived: boolean;
+  missingCount: number;
+  missingRate: number;
+  distinctCount: number;
+  min: number | null;
+  max: number | null;
+  zeroRate: number | null;
+  sentinels: SentinelProfile[];
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columnCount: number;
+  numericColumns: number;
+  categoricalColumns: number;
+  avgMissingRate: number;
+  columns: ColumnProfile[];
+}
+
+// Columns computed by preprocessing or auxiliary joins rather than read from the source
+const DERIVED_COLUMNS = new Set([
+  'AGE_YEARS', 'EMPLOYMENT_YEARS', 'DTI', 'LOAN_TO_INCOME', 'ANNUITY_TO_CREDIT', 'INCOME_BRACKET',
+  ...AUXILIARY_COLUMNS
+]);
+
+// Placeholder values that stand in for "unknown" in the Home Credit data
+const KNOWN_SENTINELS: Record<string, { value: string | number; description: string }[]> = {
+  DAYS_EMPLOYED: [{ value: DAYS_EMPLOYED_SENTINEL, description: 'Pensioner / unemployed code' }],
+  CODE_GENDER: [{ value: 'XNA', description: 'Gender not available' }],
+  ORGANIZATION_TYPE: [{ value: 'XNA', description: 'Organization not available' }],
+  NAME_FAMILY_STATUS: [{ value: 'Unknown', description: 'Status not provided' }],
+  NAME_EDUCATION_TYPE: [{ value: 'Unknown', description: 'Education not provided' }],
+  NAME_HOUSING_TYPE: [{ value: 'Unknown', description: 'Housing not provided' }]
+};
+
+export function isMissingValue(value: unknown): boolean {
+  return value === null
+    || value === undefined
+    || value === ''
+    || (typeof value === 'number' && Number.isNaN(value));
+}
+
+function toPercent(count: number, total: number): number {
+  return total === 0 ? 0 : Number(((count / total) * 100).toFixed(2));
+}
+
+// Profiled straight from the engine's columnar copy: numeric columns hold
+// numbers and NaN for missing, text columns dictionary codes and -1 for missing
+export function profileColumn(batch: ColumnarBatch, column: string): ColumnProfile {
+  const encoded = batch.columns[column];
+  const distinct = new Set<string | number>();
+  const sentinelSpecs = KNOWN_SENTINELS[column] || [];
+  const sentinelCounts = sentinelSpecs.map(() => 0);
+  let missingCount = 0;
+  let zeroCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  if (encoded?.kind === 'numeric') {
+    encoded.values.forEach(value => {
+      if (Number.isNaN(value)) {
+        missingCount++;
+        return;
+      }
+      distinct.add(value);
+      sentinelSpecs.forEach((sentinel, i) => {
+        if (value === sentinel.value) sentinelCounts[i]++;
+      });
+      if (value === 0) zeroCount++;
+      // Sentinels would otherwise dominate the observed range
+      if (!sentinelSpecs.some(sentinel => sentinel.value === value)) {
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    });
+  } else if (encoded) {
+    // Each code is looked at once; rows are only tallied by code
+    const codeCounts = new Uint32Array(encoded.dictionary.length);
+    encoded.codes.forEach(code => {
+      if (code < 0) missingCount++;
+      else codeCounts[code]++;
+    });
+    codeCounts.forEach((count, code) => {
+      if (count === 0) return;
+      const value = encoded.dictionary[code];
+      if (isMissingValue(value)) {
+        missingCount += count;
+        return;
+      }
+      distinct.add(value);
+      sentinelSpecs.forEach((sentinel, i) => {
+        if (value === sentinel.value) sentinelCounts[i] += count;
+      });
+    });
+  } else {
+    missingCount = batch.length;
+  }
+
+  const presentCount = batch.length - missingCount;
+  const isNumeric = encoded?.kind === 'numeric' && presentCount > 0;
+
+  return {
+    column,
+    type: isNumeric ? 'numeric' : 'categorical',
+    derived: DERIVED_COLUMNS.has(column),
+    missingCount,
+    missingRate: toPercent(missingCount, batch.length),
+    distinctCount: distinct.size,
+    min: isNumeric && min !== Infinity ? min : null,
+    max: isNumeric && max !== -Infinity ? max : null,
+    zeroRate: isNumeric ? toPercent(zeroCount, presentCount) : null,
+    sentinels: sentinelSpecs
+      .map((sentinel, i) => ({
+        ...sentinel,
+        count: sentinelCounts[i],
+        rate: toPercent(sentinelCounts[i], batch.length)
+      }))
+      .filter(sentinel => sentinel.count > 0)
+  };
+}
+
+export function profileDataset(batch: ColumnarBatch): DatasetProfile {
+  const columns = Object.keys(batch.columns).map(column => profileColumn(batch, column));
+  const numericColumns = columns.filter(c => c.type === 'numeric').length;
+  const avgMissingRate = columns.length === 0
+    ? 0
+    : columns.reduce((sum, c) => sum + c.missingRate, 0) / columns.length;
+
+  return {
+    rowCount: batch.length,
+    columnCount: columns.length,
+    numericColumns,
+    categoricalColumns: columns.length - numericColumns,
+    avgMissingRate: Number(avgMissingRate.toFixed(2)),
+    columns
+  };
+}
+
+// Columns ordered by missing rate, for the data-quality chart
+export function topMissingColumns(profile: DatasetProfile, limit: number = 8) {
+  return profile.columns
+    .filter(c => c.missingCount > 0)
+    .sort((a, b) => b.missingRate - a.missingRate)
+    .slice(0, limit)
+    .map(c => ({ feature: c.column, missingPercent: c.missingRate }));
+}
@@ -1,133 +1,143 @@
 import { HomeCreditRecord } from './synthetic-data';
-import { FilterState } from '@/components/dashboard/FilterSidebar';
+import { ColumnarBatch, RowSet, categoryReader, numericReader } from './columnar';
 
-// Data filtering utilities
-export function applyFilters(data: HomeCreditRecord[], filters: FilterState): HomeCreditRecord[] {
-  return data.filter(record => {
-    // Gender filter
-    if (filters.gender.length > 0 && !filters.gender.includes(record.CODE_GENDER)) {
-      return false;
-    }
-    
-    // Education filter
-    if (filters.education.length > 0 && !filters.education.includes(record.NAME_EDUCATION_TYPE)) {
-      return false;
-    }
-    
-    // Family status filter
-    if (filters.familyStatus.length > 0 && !filters.familyStatus.includes(record.NAME_FAMILY_STATUS)) {
-      return false;
-    }
-    
-    // Housing type filter
-    if (filters.housingType.length > 0 && !filters.housingType.includes(record.NAME_HOUSING_TYPE)) {
-      return false;
-    }
-    
-    // Age range filter
-    if (record.AGE_YEARS && (record.AGE_YEARS < filters.ageRange[0] || record.AGE_YEARS > filters.ageRange[1])) {
-      return false;
-    }
-    
-    // Income bracket filter
-    if (filters.incomeBracket !== 'all') {
-      const bracketMap = { low: 'Low', mid: 'Mid', high: 'High' };
-      if (record.INCOME_BRACKET !== bracketMap[filters.incomeBracket as keyof typeof bracketMap]) {
-        return false;
-      }
-    }
-    
-    // Employment range filter
-    if (record.EMPLOYMENT_YEARS && (
-      record.EMPLOYMENT_YEARS < filters.employmentRange[0] || 
-      record.EMPLOYMENT_YEARS > filters.employmentRange[1]
-    )) {
-      return false;
-    }
-    
-    return true;
-  });
+// Unlabelled datasets (no TARGET column) have a missing TARGET on every row
+export function hasLabels(batch: ColumnarBatch): boolean {
+  const target = categoryReader(batch, 'TARGET');
+  for (let row = 0; row < batch.length; row++) {
+    if (target(row) !== '') return true;
+  }
+  return false;
 }
 
-// KPI calculation utilities
-export function calculateKPIs(data: HomeCreditRecord[]) {
-  if (data.length === 0) return {};
-  
-  const totalApplicants = data.length;
-  const totalDefaults = data.filter(r => r.TARGET === 1).length;
-  const defaultRate = (totalDefaults / totalApplicants) * 100;
-  const repaidRate = 100 - defaultRate;
-  
-  const ages = data.filter(r => r.AGE_YEARS).map(r => r.AGE_YEARS!);
-  const incomes = data.map(r => r.AMT_INCOME_TOTAL);
-  const credits = data.map(r => r.AMT_CREDIT);
-  const annuities = data.filter(r => r.AMT_ANNUITY).map(r => r.AMT_ANNUITY);
-  
+// KPI calculation utilities. KPIs and chart data are computed over a set of
+// rows of the columnar dataset held by the data engine.
+export function calculateKPIs({ batch, rows }: RowSet) {
+  if (rows.length === 0) return {};
+
+  const target = numericReader(batch, 'TARGET');
+  const age = numericReader(batch, 'AGE_YEARS');
+  const income = numericReader(batch, 'AMT_INCOME_TOTAL');
+  const credit = numericReader(batch, 'AMT_CREDIT');
+  const annuity = numericReader(batch, 'AMT_ANNUITY');
+  const dti = numericReader(batch, 'DTI');
+  const lti = numericReader(batch, 'LOAN_TO_INCOME');
+  const children = numericReader(batch, 'CNT_CHILDREN');
+  const familyMembers = numericReader(batch, 'CNT_FAM_MEMBERS');
+  const gender = categoryReader(batch, 'CODE_GENDER');
+
+  const totalApplicants = rows.length;
+  let labelledCount = 0;
+  let totalDefaults = 0;
+  let maleCount = 0;
+  let femaleCount = 0;
+  let withChildrenCount = 0;
+  let highCreditCount = 0;
+  const ages: number[] = [];
+  const incomes: number[] = [];
+  const incomeMean = runningMean();
+  const creditMean = runningMean();
+  const annuityMean = runningMean();
+  const dtiMean = runningMean();
+  const ltiMean = runningMean();
+  const familySizeMean = runningMean();
+  // Risk segmentation
+  const defaulterIncomeMean = runningMean();
+  const nonDefaulterIncomeMean = runningMean();
+
+  // One pass over the rows; missing values (NaN) drop out of every comparison
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const targetValue = target(row);
+    const incomeValue = income(row);
+    if (!Number.isNaN(targetValue)) labelledCount++;
+    if (targetValue === 1) totalDefaults++;
+    if (Number.isFinite(incomeValue)) {
+      incomes.push(incomeValue);
+      incomeMean.add(incomeValue);
+      if (targetValue === 1) defaulterIncomeMean.add(incomeValue);
+      if (targetValue === 0) nonDefaulterIncomeMean.add(incomeValue);
+    }
+
+    const ageValue = age(row);
+    if (ageValue) ages.push(ageValue);
+    const creditValue = credit(row);
+    if (Number.isFinite(creditValue)) creditMean.add(creditValue);
+    if (creditValue > 1000000) highCreditCount++;
+    const annuityValue = annuity(row);
+    if (annuityValue) annuityMean.add(annuityValue);
+
+    // DTI and LTI calculations
+    if (dti(row) > 0) dtiMean.add(dti(row));
+    if (lti(row) > 0) ltiMean.add(lti(row));
+
+    // Demographic breakdowns
+    const genderValue = gender(row);
+    if (genderValue === 'M') maleCount++;
+    if (genderValue === 'F') femaleCount++;
+    if (children(row) > 0) withChildrenCount++;
+    const familySize = familyMembers(row);
+    if (Number.isFinite(familySize)) familySizeMean.add(familySize);
+  }
+
+  const labelled = labelledCount > 0;
+  // Rates are over labelled records only; null when there are none
+  const defaultRate = labelled ? (totalDefaults / labelledCount) * 100 : null;
+  const repaidRate = labelled ? 100 - defaultRate : null;
+
   const medianAge = median(ages);
   const medianIncome = median(incomes);
-  const avgCredit = mean(credits);
-  const avgAnnuity = mean(annuities);
-  
-  // Missing data analysis
-  const totalFeatures = Object.keys(data[0] || {}).length;
-  const numericalFeatures = ['AMT_INCOME_TOTAL', 'AMT_CREDIT', 'AMT_ANNUITY', 'AGE_YEARS', 'EMPLOYMENT_YEARS', 'CNT_CHILDREN'].length;
-  const categoricalFeatures = totalFeatures - numericalFeatures;
-  
-  // DTI and LTI calculations
-  const dtiValues = data.filter(r => r.DTI && r.DTI > 0).map(r => r.DTI!);
-  const ltiValues = data.filter(r => r.LOAN_TO_INCOME && r.LOAN_TO_INCOME > 0).map(r => r.LOAN_TO_INCOME!);
-  
-  const avgDTI = mean(dtiValues);
-  const avgLTI = mean(ltiValues);
-  
-  // Demographic breakdowns
-  const maleCount = data.filter(r => r.CODE_GENDER === 'M').length;
-  const femaleCount = data.filter(r => r.CODE_GENDER === 'F').length;
-  const withChildrenCount = data.filter(r => r.CNT_CHILDREN > 0).length;
-  
-  // Risk segmentation
-  const defaulterIncomes = data.filter(r => r.TARGET === 1).map(r => r.AMT_INCOME_TOTAL);
-  const nonDefaulterIncomes = data.filter(r => r.TARGET === 0).map(r => r.AMT_INCOME_TOTAL);
-  const avgIncomeDefaulters = mean(defaulterIncomes);
-  const avgIncomeNonDefaulters = mean(nonDefaulterIncomes);
-  
+  const avgCredit = creditMean.value();
+  const avgAnnuity = annuityMean.value();
+  const avgDTI = dtiMean.value();
+  const avgLTI = ltiMean.value();
+  const avgIncomeDefaulters = defaulterIncomeMean.value();
+  const avgIncomeNonDefaulters = nonDefaulterIncomeMean.value();
+
   return {
     // Overview KPIs
     totalApplicants,
-    defaultRate: Number(defaultRate.toFixed(2)),
-    repaidRate: Number(repaidRate.toFixed(2)),
-    totalFeatures,
-    numericalFeatures,
-    categoricalFeatures,
+    labelled,
+    defaultRate: labelled ? Number(defaultRate.toFixed(2)) : null,
+    repaidRate: labelled ? Number(repaidRate.toFixed(2)) : null,
     medianAge: Number(medianAge?.toFixed(1) || 0),
     medianIncome: Number(medianIncome?.toFixed(0) || 0),
     avgCredit: Number(avgCredit?.toFixed(0) || 0),
     
-    // Risk KPIs
-    totalDefaults,
-    avgIncomeDefaulters: Number(avgIncomeDefaulters?.toFixed(0) || 0),
-    avgIncomeNonDefaulters: Number(avgIncomeNonDefaulters?.toFixed(0) || 0),
-    incomeGap: Number((avgIncomeNonDefaulters - avgIncomeDefaulters)?.toFixed(0) || 0),
+    // Risk KPIs (null when unlabelled)
+    totalDefaults: labelled ? totalDefaults : null,
+    avgIncomeDefaulters: labelled ? Number(avgIncomeDefaulters?.toFixed(0) || 0) : null,
+    avgIncomeNonDefaulters: labelled ? Number(avgIncomeNonDefaulters?.toFixed(0) || 0) : null,
+    incomeGap: labelled ? Number((avgIncomeNonDefaulters - avgIncomeDefaulters)?.toFixed(0) || 0) : null,
     
     // Demographics KPIs
     malePercentage: Number(((maleCount / totalApplicants) * 100).toFixed(1)),
     femalePercentage: Number(((femaleCount / totalApplicants) * 100).toFixed(1)),
     withChildrenPercentage: Number(((withChildrenCount / totalApplicants) * 100).toFixed(1)),
-    avgFamilySize: Number(mean(data.map(r => r.CNT_FAM_MEMBERS))?.toFixed(1) || 0),
+    avgFamilySize: Number(familySizeMean.value()?.toFixed(1) || 0),
     
     // Financial KPIs
-    avgIncome: Number(mean(incomes)?.toFixed(0) || 0),
+    avgIncome: Number(incomeMean.value()?.toFixed(0) || 0),
     avgAnnuity: Number(avgAnnuity?.toFixed(0) || 0),
     avgDTI: Number(avgDTI?.toFixed(3) || 0),
     avgLTI: Number(avgLTI?.toFixed(2) || 0),
-    highCreditPercentage: Number(((data.filter(r => r.AMT_CREDIT > 1000000).length / totalApplicants) * 100).toFixed(1))
+    highCreditPercentage: Number(((highCreditCount / totalApplicants) * 100).toFixed(1))
   };
 }
 
+export type PortfolioKPIs = ReturnType<typeof calculateKPIs>;
+
 // Statistical utility functions
-function mean(values: number[]): number | null {
-  if (values.length === 0) return null;
-  return values.reduce((sum, val) => sum + val, 0) / values.length;
+function runningMean() {
+  let sum = 0;
+  let count = 0;
+  return {
+    add: (value: number) => {
+      sum += value;
+      count++;
+    },
+    value: (): number | null => (count > 0 ? sum / count : null)
+  };
 }
 
 function median(values: number[]): number | null {
@@ -139,57 +149,96 @@ function median(values: number[]): number | null {
     : sorted[mid];
 }
 
+// Values of a numeric column over a row set; by default every non-missing one
+export function columnValues({ batch, rows }: RowSet, column: string, include: (value: number) => boolean = Number.isFinite): number[] {
+  const read = numericReader(batch, column);
+  const values: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const value = read(rows[i]);
+    if (include(value)) values.push(value);
+  }
+  return values;
+}
+
 // Chart data preparation utilities
-export function prepareChartData(data: HomeCreditRecord[], type: string) {
+export function prepareChartData(set: RowSet, type: string) {
   switch (type) {
-    case 'target_distribution':
-      const defaultCount = data.filter(r => r.TARGET === 1).length;
-      const repaidCount = data.length - defaultCount;
+    case 'target_distribution': {
+      const counts = countTargets(set);
       return [
-        { name: 'Repaid', value: repaidCount, color: 'hsl(var(--success))' },
-        { name: 'Default', value: defaultCount, color: 'hsl(var(--destructive))' }
+        { key: '0', name: 'Repaid', value: counts.repaid, color: 'hsl(var(--success))' },
+        { key: '1', name: 'Default', value: counts.defaults, color: 'hsl(var(--destructive))' }
       ];
+    }
       
     case 'age_distribution':
-      const ageBins = createBins(data.filter(r => r.AGE_YEARS).map(r => r.AGE_YEARS!), 15);
-      return ageBins;
+      return createBins(columnValues(set, 'AGE_YEARS', value => !!value), 15);
       
     case 'income_distribution':
-      const incomeBins = createBins(data.map(r => r.AMT_INCOME_TOTAL), 20);
-      return incomeBins;
+      return createBins(columnValues(set, 'AMT_INCOME_TOTAL'), 20);
       
     case 'gender_distribution':
-      return groupBy(data, 'CODE_GENDER').map(({ key, count }) => ({
+      return groupBy(set, 'CODE_GENDER').map(({ key, count }) => ({
+        key,
         name: key === 'M' ? 'Male' : key === 'F' ? 'Female' : 'Not Specified',
         value: count
       }));
       
     case 'education_distribution':
-      return groupBy(data, 'NAME_EDUCATION_TYPE');
+      return groupBy(set, 'NAME_EDUCATION_TYPE');
       
     case 'family_status_distribution':
-      return groupBy(data, 'NAME_FAMILY_STATUS');
+      return groupBy(set, 'NAME_FAMILY_STATUS');
       
     case 'default_by_gender':
-      return calculateDefaultRateByCategory(data, 'CODE_GENDER');
+      return calculateDefaultRateByCategory(set, 'CODE_GENDER');
       
     case 'default_by_education':
-      return calculateDefaultRateByCategory(data, 'NAME_EDUCATION_TYPE');
+      return calculateDefaultRateByCategory(set, 'NAME_EDUCATION_TYPE');
       
     case 'default_by_housing':
-      return calculateDefaultRateByCategory(data, 'NAME_HOUSING_TYPE');
+      return calculateDefaultRateByCategory(set, 'NAME_HOUSING_TYPE');
 
     case 'housing_distribution':
-      return groupBy(data, 'NAME_HOUSING_TYPE');
+      return groupBy(set, 'NAME_HOUSING_TYPE');
+
+    case 'monthly_trend':
+      // Records without APPLICATION_MONTH fall in the blank category
+      return calculateDefaultRateByCategory(set, 'APPLICATION_MONTH')
+        .filter(({ category }) => category !== '')
+        .map(({ category, defaultRate, total }) => ({ month: category, defaultRate, applications: total }))
+        .sort((a, b) => a.month.localeCompare(b.month));
       
     default:
       return [];
   }
 }
 
+export function countTargets({ batch, rows }: RowSet) {
+  const target = numericReader(batch, 'TARGET');
+  let repaid = 0;
+  let defaults = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const value = target(rows[i]);
+    if (value === 0) repaid++;
+    if (value === 1) defaults++;
+  }
+  return { repaid, defaults };
+}
+
 function createBins(values: number[], numBins: number) {
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  if (values.length === 0) return [];
+  // A loop rather than Math.min(...values), which overflows the stack on large datasets
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  // A single value (e.g. one matching record) has no span to divide
+  if (max === min) {
+    return [{ range: `${Math.round(min)}-${Math.round(max)}`, count: values.length, min, max }];
+  }
   const binSize = (max - min) / numBins;
   
   const bins = Array(numBins).fill(0).map((_, i) => ({
@@ -200,46 +249,54 @@ function createBins(values: number[], numBins: number) {
   }));
   
   values.forEach(value => {
-    const binIndex = Math.min(Math.floor((value - min) / binSize), numBins - 1);
-    bins[binIndex].count++;
+    const binIndex = Math.floor((value - min) / binSize);
+    if (Number.isNaN(binIndex)) return;
+    bins[Math.max(0, Math.min(binIndex, numBins - 1))].count++;
   });
   
   return bins;
 }
 
-function groupBy(data: HomeCreditRecord[], key: keyof HomeCreditRecord) {
-  const groups = data.reduce((acc, record) => {
-    const value = String(record[key]);
-    acc[value] = (acc[value] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+function groupBy({ batch, rows }: RowSet, column: string) {
+  const read = categoryReader(batch, column);
+  const groups = new Map<string, number>();
+  for (let i = 0; i < rows.length; i++) {
+    const value = read(rows[i]);
+    groups.set(value, (groups.get(value) || 0) + 1);
+  }
   
-  return Object.entries(groups)
+  return Array.from(groups.entries())
     .map(([key, count]) => ({ key, count, name: key, value: count }))
     .sort((a, b) => b.count - a.count);
 }
 
-function calculateDefaultRateByCategory(data: HomeCreditRecord[], category: keyof HomeCreditRecord) {
-  const groups = data.reduce((acc, record) => {
-    const key = String(record[category]);
-    if (!acc[key]) {
-      acc[key] = { total: 0, defaults: 0 };
+// Segment sizes count every record; default rates only labelled ones
+export function calculateDefaultRateByCategory({ batch, rows }: RowSet, column: string) {
+  const read = categoryReader(batch, column);
+  const target = numericReader(batch, 'TARGET');
+  const groups = new Map<string, { total: number; labelled: number; defaults: number }>();
+  for (let i = 0; i < rows.length; i++) {
+    const key = read(rows[i]);
+    const targetValue = target(rows[i]);
+    const group = groups.get(key) ?? { total: 0, labelled: 0, defaults: 0 };
+    group.total++;
+    if (!Number.isNaN(targetValue)) {
+      group.labelled++;
     }
-    acc[key].total++;
-    if (record.TARGET === 1) {
-      acc[key].defaults++;
+    if (targetValue === 1) {
+      group.defaults++;
     }
-    return acc;
-  }, {} as Record<string, { total: number; defaults: number }>);
+    groups.set(key, group);
+  }
   
-  return Object.entries(groups)
-    .map(([key, { total, defaults }]) => ({
+  return Array.from(groups.entries())
+    .map(([key, { total, labelled, defaults }]) => ({
       category: key,
-      defaultRate: (defaults / total) * 100,
+      defaultRate: labelled > 0 ? (defaults / labelled) * 100 : null,
       total,
       defaults
     }))
-    .sort((a, b) => b.defaultRate - a.defaultRate);
+    .sort((a, b) => (b.defaultRate ?? 0) - (a.defaultRate ?? 0) || b.total - a.total);
 }
 
 // Correlation calculations
@@ -0,0 +1,204 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { AuxiliaryAggregateSet } from './auxiliary-tables';
+
+// Persistent dataset catalog backed by IndexedDB.
+// Records are stored in fixed-size chunks so large uploads are written
+// and read back in pieces instead of as one huge value.
+
+export interface SchemaColumn {
+  name: string;
+  type: 'numeric' | 'categorical';
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  rowCount: number;
+  sourceFile: string | null;
+  uploadedAt: string;
+  columns: SchemaColumn[];
+  // False for datasets without TARGET; absent on entries saved before it existed
+  labelled?: boolean;
+}
+
+export interface DatasetSource {
+  name: string;
+  sourceFile: string | null;
+}
+
+export interface StoredDataset {
+  summary: DatasetSummary;
+  records: HomeCreditRecord[];
+  auxiliary: AuxiliaryAggregateSet;
+}
+
+const DB_NAME = 'credit-risk-catalog';
+const DB_VERSION = 1;
+const DATASETS = 'datasets';
+const CHUNKS = 'chunks';
+const AUXILIARY = 'auxiliary';
+const SETTINGS = 'settings';
+const ACTIVE_DATASET_KEY = 'activeDatasetId';
+const CHUNK_SIZE = 20000;
+const SCHEMA_SAMPLE = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(DATASETS, { keyPath: 'id' });
+        db.createObjectStore(CHUNKS, { keyPath: ['datasetId', 'index'] });
+        db.createObjectStore(AUXILIARY);
+        db.createObjectStore(SETTINGS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+function chunkRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+export function summarizeSchema(records: HomeCreditRecord[]): SchemaColumn[] {
+  const sample = records.slice(0, SCHEMA_SAMPLE);
+  const names = new Set<string>();
+  sample.forEach(record => Object.keys(record).forEach(key => names.add(key)));
+
+  return Array.from(names).map(name => {
+    const present = sample.map(record => record[name]).filter(value => value !== null && value !== undefined && value !== '');
+    const numeric = present.length > 0 && present.every(value => typeof value === 'number');
+    return { name, type: numeric ? 'numeric' : 'categorical' };
+  });
+}
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+  const db = await openDatabase();
+  const datasets = await requestResult(
+    db.transaction(DATASETS).objectStore(DATASETS).getAll() as IDBRequest<DatasetSummary[]>
+  );
+  return datasets.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+export async function saveDataset(
+  records: HomeCreditRecord[],
+  source: DatasetSource,
+  auxiliary: AuxiliaryAggregateSet = {}
+): Promise<DatasetSummary> {
+  const db = await openDatabase();
+  const summary: DatasetSummary = {
+    id: crypto.randomUUID(),
+    name: source.name,
+    rowCount: records.length,
+    sourceFile: source.sourceFile,
+    uploadedAt: new Date().toISOString(),
+    columns: summarizeSchema(records),
+    labelled: records.some(record => record.TARGET !== null)
+  };
+
+  const tx = db.transaction([DATASETS, CHUNKS, AUXILIARY], 'readwrite');
+  tx.objectStore(DATASETS).put(summary);
+  tx.objectStore(AUXILIARY).put(auxiliary, summary.id);
+  const chunks = tx.objectStore(CHUNKS);
+  for (let start = 0, index = 0; start < records.length; start += CHUNK_SIZE, index++) {
+    chunks.put({ datasetId: summary.id, index, records: records.slice(start, start + CHUNK_SIZE) });
+  }
+  await transactionDone(tx);
+
+  return summary;
+}
+
+export async function loadDataset(id: string): Promise<StoredDataset | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([DATASETS, CHUNKS, AUXILIARY]);
+  const [summary, chunks, auxiliary] = await Promise.all([
+    requestResult(tx.objectStore(DATASETS).get(id) as IDBRequest<DatasetSummary | undefined>),
+    requestResult(tx.objectStore(CHUNKS).getAll(chunkRange(id)) as IDBRequest<{ index: number; records: HomeCreditRecord[] }[]>),
+    requestResult(tx.objectStore(AUXILIARY).get(id) as IDBRequest<AuxiliaryAggregateSet | undefined>)
+  ]);
+  if (!summary) return null;
+
+  const records: HomeCreditRecord[] = [];
+  chunks
+    .sort((a, b) => a.index - b.index)
+    .forEach(chunk => {
+      for (const record of chunk.records) records.push(record);
+    });
+
+  return { summary, records, auxiliary: auxiliary || {} };
+}
+
+export async function renameDataset(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DATASETS, 'readwrite');
+  const store = tx.objectStore(DATASETS);
+  const summary = await requestResult(store.get(id) as IDBRequest<DatasetSummary | undefined>);
+  if (summary) store.put({ ...summary, name });
+  await transactionDone(tx);
+}
+
+export async function saveAuxiliaryTables(id: string, auxiliary: AuxiliaryAggregateSet): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(AUXILIARY, 'readwrite');
+  tx.objectStore(AUXILIARY).put(auxiliary, id);
+  await transactionDone(tx);
+}
+
+export async function deleteDataset(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([DATASETS, CHUNKS, AUXILIARY, SETTINGS], 'readwrite');
+  tx.objectStore(DATASETS).delete(id);
+  tx.objectStore(CHUNKS).delete(chunkRange(id));
+  tx.objectStore(AUXILIARY).delete(id);
+  const settings = tx.objectStore(SETTINGS);
+  const activeId = await requestResult(settings.get(ACTIVE_DATASET_KEY) as IDBRequest<string | undefined>);
+  if (activeId === id) settings.delete(ACTIVE_DATASET_KEY);
+  await transactionDone(tx);
+}
+
+export async function getActiveDatasetId(): Promise<string | null> {
+  const db = await openDatabase();
+  const id = await requestResult(
+    db.transaction(SETTINGS).objectStore(SETTINGS).get(ACTIVE_DATASET_KEY) as IDBRequest<string | undefined>
+  );
+  return id ?? null;
+}
+
+export async function setActiveDatasetId(id: string | null): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SETTINGS, 'readwrite');
+  if (id) {
+    tx.objectStore(SETTINGS).put(id, ACTIVE_DATASET_KEY);
+  } else {
+    tx.objectStore(SETTINGS).delete(ACTIVE_DATASET_KEY);
+  }
+  await transactionDone(tx);
+}
@@ -0,0 +1,63 @@
+import { FilterState, RangeBounds, describeFilters, filterFieldLabel, formatFilterValue, formatRangeBound } from './filters';
+import { describeQuery, isActiveQuery, serializeQuery } from './query';
+
+// Diffing two filter states for the undo/redo timeline, e.g.
+// "Age (years): 18–80 → 25–40".
+
+// Criteria that differ between two states: 'category:COL', 'range:COL', 'query'
+export function changedCriteria(before: FilterState, after: FilterState): string[] {
+  const changed: string[] = [];
+  const columns = (key: 'categories' | 'ranges') =>
+    Array.from(new Set([...Object.keys(before[key]), ...Object.keys(after[key])])).sort();
+
+  columns('categories').forEach(column => {
+    if (JSON.stringify(before.categories[column] ?? []) !== JSON.stringify(after.categories[column] ?? [])) {
+      changed.push(`category:${column}`);
+    }
+  });
+  columns('ranges').forEach(column => {
+    if (JSON.stringify(before.ranges[column] ?? null) !== JSON.stringify(after.ranges[column] ?? null)) {
+      changed.push(`range:${column}`);
+    }
+  });
+  if (queryText(before) !== queryText(after)) changed.push('query');
+  return changed;
+}
+
+function queryText(filters: FilterState): string {
+  return isActiveQuery(filters.query) ? JSON.stringify(serializeQuery(filters.query)) : '';
+}
+
+// One line per changed criterion; an unset range shows the dataset's full span when known
+export function describeFilterChange(
+  before: FilterState | null,
+  after: FilterState,
+  bounds: Record<string, RangeBounds | null> = {}
+): string[] {
+  if (!before) {
+    const active = describeFilters(after);
+    return [active.length > 0 ? `Started with ${active.join(' · ')}` : 'Started with all records'];
+  }
+
+  const values = (column: string, selected: string[] | undefined) =>
+    selected?.length ? selected.map(value => formatFilterValue(column, value)).join(', ') : 'all';
+  const range = (column: string, selected: [number, number] | undefined) => {
+    const span = selected ?? (bounds[column] ? [bounds[column].min, bounds[column].max] : null);
+    return span ? `${formatRangeBound(span[0])}–${formatRangeBound(span[1])}` : 'all';
+  };
+  const query = (filters: FilterState) => (isActiveQuery(filters.query) ? describeQuery(filters.query) : 'none');
+
+  const lines = changedCriteria(before, after).map(key => {
+    const separator = key.indexOf(':');
+    const kind = separator === -1 ? key : key.slice(0, separator);
+    const column = key.slice(separator + 1);
+    if (kind === 'category') {
+      return `${filterFieldLabel(column)}: ${values(column, before.categories[column])} → ${values(column, after.categories[column])}`;
+    }
+    if (kind === 'range') {
+      return `${filterFieldLabel(column)}: ${range(column, before.ranges[column])} → ${range(column, after.ranges[column])}`;
+    }
+    return `Query: ${query(before)} → ${query(after)}`;
+  });
+  return lines.length > 0 ? lines : ['No change'];
+}
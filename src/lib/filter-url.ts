@@ -0,0 +1,54 @@
+import { EMPTY_FILTERS, FilterState } from './filters';
+import { isActiveQuery, parseQuery, serializeQuery } from './query';
+
+// FilterState <-> query string, so a dashboard view can be shared as a link:
+//   ?c.CODE_GENDER=F&c.NAME_HOUSING_TYPE=Rented+apartment&r.AGE_YEARS=25..35
+// Categories repeat their parameter per value, ranges are "min..max" and the
+// boolean query travels as compact JSON in "q".
+
+const CATEGORY_PREFIX = 'c.';
+const RANGE_PREFIX = 'r.';
+const QUERY_PARAM = 'q';
+const RANGE_SEPARATOR = '..';
+
+export function encodeFilters(filters: FilterState): string {
+  const params = new URLSearchParams();
+  Object.entries(filters.categories).forEach(([column, values]) => {
+    values.forEach(value => params.append(CATEGORY_PREFIX + column, value));
+  });
+  Object.entries(filters.ranges).forEach(([column, [min, max]]) => {
+    params.set(RANGE_PREFIX + column, `${min}${RANGE_SEPARATOR}${max}`);
+  });
+  if (isActiveQuery(filters.query)) {
+    params.set(QUERY_PARAM, JSON.stringify(serializeQuery(filters.query)));
+  }
+  return params.toString();
+}
+
+// Unknown parameters and malformed values are ignored rather than failing the link
+export function decodeFilters(search: string): FilterState {
+  const params = new URLSearchParams(search);
+  const categories: FilterState['categories'] = {};
+  const ranges: FilterState['ranges'] = {};
+  let query: FilterState['query'] = null;
+
+  params.forEach((value, key) => {
+    if (key.startsWith(CATEGORY_PREFIX)) {
+      const column = key.slice(CATEGORY_PREFIX.length);
+      categories[column] = [...(categories[column] || []), value];
+    } else if (key.startsWith(RANGE_PREFIX)) {
+      const bounds = value.split(RANGE_SEPARATOR).map(part => (part.trim() === '' ? NaN : Number(part)));
+      if (bounds.length === 2 && bounds.every(Number.isFinite) && bounds[0] <= bounds[1]) {
+        ranges[key.slice(RANGE_PREFIX.length)] = [bounds[0], bounds[1]];
+      }
+    } else if (key === QUERY_PARAM) {
+      try {
+        query = parseQuery(JSON.parse(value));
+      } catch {
+        // A damaged query drops out; the rest of the link still applies
+      }
+    }
+  });
+
+  return { ...EMPTY_FILTERS, categories, ranges, query };
+}
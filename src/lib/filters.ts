@@ -0,0 +1,327 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { isMissingValue } from './data-profile';
+import { ColumnarBatch, numericReader } from './columnar';
+import { loadJSON, saveJSON } from './local-store';
+import { QueryGroup, compileQuery, describeQuery, isActiveQuery, parseQuery, serializeQuery } from './query';
+
+// Schema-driven dashboard filters. Criteria are keyed by column, so any
+// column can be filtered; the sidebar shows one facet per FilterField.
+
+export type FacetKind = 'category' | 'range';
+
+export interface FilterField {
+  column: string;
+  kind: FacetKind;
+}
+
+export interface FilterState {
+  // Accepted values per column; no selected values means no restriction
+  categories: Record<string, string[]>;
+  // Inclusive [min, max] per numeric column; records missing the value fail
+  ranges: Record<string, [number, number]>;
+  // Boolean query from the query builder, combined with the facets by AND
+  query?: QueryGroup | null;
+}
+
+export const EMPTY_FILTERS: FilterState = { categories: {}, ranges: {}, query: null };
+
+export const DEFAULT_FILTER_FIELDS: FilterField[] = [
+  { column: 'CODE_GENDER', kind: 'category' },
+  { column: 'AGE_YEARS', kind: 'range' },
+  { column: 'INCOME_BRACKET', kind: 'category' },
+  { column: 'EMPLOYMENT_YEARS', kind: 'range' },
+  { column: 'NAME_EDUCATION_TYPE', kind: 'category' },
+  { column: 'NAME_FAMILY_STATUS', kind: 'category' },
+  { column: 'NAME_HOUSING_TYPE', kind: 'category' },
+  { column: 'OCCUPATION_TYPE', kind: 'category' },
+  { column: 'NAME_CONTRACT_TYPE', kind: 'category' },
+  { column: 'FLAG_OWN_CAR', kind: 'category' },
+  { column: 'FLAG_OWN_REALTY', kind: 'category' },
+  { column: 'REGION_RATING_CLIENT', kind: 'category' },
+  { column: 'CNT_CHILDREN', kind: 'category' },
+  { column: 'AMT_CREDIT', kind: 'range' },
+  { column: 'DTI', kind: 'range' },
+  { column: 'LOAN_TO_INCOME', kind: 'range' }
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  CODE_GENDER: 'Gender',
+  AGE_YEARS: 'Age (years)',
+  INCOME_BRACKET: 'Income Bracket',
+  EMPLOYMENT_YEARS: 'Employment Years',
+  NAME_EDUCATION_TYPE: 'Education Level',
+  NAME_FAMILY_STATUS: 'Family Status',
+  NAME_HOUSING_TYPE: 'Housing Type',
+  OCCUPATION_TYPE: 'Occupation',
+  NAME_CONTRACT_TYPE: 'Contract Type',
+  FLAG_OWN_CAR: 'Owns a Car',
+  FLAG_OWN_REALTY: 'Owns Realty',
+  REGION_RATING_CLIENT: 'Region Rating',
+  CNT_CHILDREN: 'Children',
+  AMT_CREDIT: 'Credit Amount',
+  AMT_INCOME_TOTAL: 'Annual Income',
+  AMT_ANNUITY: 'Annuity Amount',
+  DTI: 'Debt-to-Income',
+  LOAN_TO_INCOME: 'Loan-to-Income'
+};
+
+const FLAG_LABELS = { Y: 'Yes', N: 'No' };
+
+const VALUE_LABELS: Record<string, Record<string, string>> = {
+  CODE_GENDER: { M: 'Male', F: 'Female', XNA: 'Not Specified' },
+  FLAG_OWN_CAR: FLAG_LABELS,
+  FLAG_OWN_REALTY: FLAG_LABELS
+};
+
+// Options listed in a fixed order rather than by frequency, e.g. income
+// brackets from lowest to highest
+export type ValueOrder = Record<string, string[]>;
+
+export function filterFieldLabel(column: string): string {
+  return FIELD_LABELS[column] ?? column;
+}
+
+export function formatFilterValue(column: string, value: string): string {
+  if (value === '') return '(blank)';
+  return VALUE_LABELS[column]?.[value] ?? value;
+}
+
+// A record's value as a category option; missing values are the blank option
+export function categoryValue(record: HomeCreditRecord, column: string): string {
+  const value = record[column];
+  return isMissingValue(value) ? '' : String(value);
+}
+
+export function numericValue(record: HomeCreditRecord, column: string): number | null {
+  const value = record[column];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+type Criterion = (record: HomeCreditRecord) => boolean;
+
+function compileFilters(filters: FilterState): Criterion[] {
+  const criteria: Criterion[] = [];
+  Object.entries(filters.categories).forEach(([column, values]) => {
+    if (values.length === 0) return;
+    const accepted = new Set(values);
+    criteria.push(record => accepted.has(categoryValue(record, column)));
+  });
+  Object.entries(filters.ranges).forEach(([column, [min, max]]) => {
+    criteria.push(record => {
+      const value = numericValue(record, column);
+      return value !== null && value >= min && value <= max;
+    });
+  });
+  if (isActiveQuery(filters.query)) {
+    criteria.push(compileQuery(filters.query));
+  }
+  return criteria;
+}
+
+export function countActiveFilters(filters: FilterState): number {
+  return compileFilters(filters).length;
+}
+
+export interface FilterChip {
+  kind: 'category' | 'range' | 'query';
+  column: string | null;
+  label: string;
+}
+
+// One removable chip per active criterion, e.g. "Gender: Female"
+export function filterChips(filters: FilterState): FilterChip[] {
+  return [
+    ...Object.entries(filters.categories)
+      .filter(([, values]) => values.length > 0)
+      .map(([column, values]) => ({
+        kind: 'category' as const,
+        column,
+        label: `${filterFieldLabel(column)}: ${values.map(value => formatFilterValue(column, value)).join(', ')}`
+      })),
+    ...Object.entries(filters.ranges).map(([column, [min, max]]) => ({
+      kind: 'range' as const,
+      column,
+      label: `${filterFieldLabel(column)}: ${formatRangeBound(min)}–${formatRangeBound(max)}`
+    })),
+    ...(isActiveQuery(filters.query)
+      ? [{ kind: 'query' as const, column: null, label: `Query: ${describeQuery(filters.query)}` }]
+      : [])
+  ];
+}
+
+export function formatRangeBound(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+export function describeFilters(filters: FilterState): string[] {
+  return filterChips(filters).map(chip => chip.label);
+}
+
+export function removeChip(filters: FilterState, chip: FilterChip): FilterState {
+  if (chip.kind === 'category') return withCategory(filters, chip.column, []);
+  if (chip.kind === 'range') return withRange(filters, chip.column, null);
+  return withQuery(filters, null);
+}
+
+// Immutable updates; clearing a facet removes its key
+export function withCategory(filters: FilterState, column: string, values: string[]): FilterState {
+  const { [column]: _previous, ...categories } = filters.categories;
+  return { ...filters, categories: values.length > 0 ? { ...categories, [column]: values } : categories };
+}
+
+export function withRange(filters: FilterState, column: string, range: [number, number] | null): FilterState {
+  const { [column]: _previous, ...ranges } = filters.ranges;
+  return { ...filters, ranges: range ? { ...ranges, [column]: range } : ranges };
+}
+
+export function withQuery(filters: FilterState, query: QueryGroup | null): FilterState {
+  return { ...filters, query };
+}
+
+// Plain JSON form for saved segments and exports; the query drops its node ids
+export function serializeFilters(filters: FilterState): unknown {
+  return {
+    categories: filters.categories,
+    ranges: filters.ranges,
+    query: isActiveQuery(filters.query) ? serializeQuery(filters.query) : null
+  };
+}
+
+// Rebuild filters from untrusted JSON, rejecting anything malformed
+export function parseFilters(value: unknown): FilterState {
+  if (typeof value !== 'object' || value === null) throw new Error('Filters are not an object');
+  const { categories = {}, ranges = {}, query = null } = value as Record<string, unknown>;
+
+  if (typeof categories !== 'object' || categories === null) throw new Error('Invalid category filters');
+  Object.entries(categories).forEach(([column, values]) => {
+    if (!Array.isArray(values) || values.some(v => typeof v !== 'string')) {
+      throw new Error(`Invalid values for ${column}`);
+    }
+  });
+
+  if (typeof ranges !== 'object' || ranges === null) throw new Error('Invalid range filters');
+  Object.entries(ranges).forEach(([column, range]) => {
+    if (!Array.isArray(range) || range.length !== 2 || !range.every(Number.isFinite) || range[0] > range[1]) {
+      throw new Error(`Invalid range for ${column}`);
+    }
+  });
+
+  return {
+    categories: categories as FilterState['categories'],
+    ranges: ranges as FilterState['ranges'],
+    query: query === null ? null : parseQuery(query)
+  };
+}
+
+// A clicked chart element: one or more category values (a "5+" bar covers
+// several) or a histogram bin
+export type ChartSelection =
+  | { column: string; values: string[] }
+  | { column: string; range: [number, number] };
+
+// A plain click selects only the clicked element, or clears it when it is
+// already the whole selection; an additive (shift) click adds it to or
+// removes it from the selection, and widens a range to cover the bin
+export function applyChartSelection(filters: FilterState, selection: ChartSelection, additive: boolean): FilterState {
+  const { column } = selection;
+  if ('values' in selection) {
+    const current = filters.categories[column] || [];
+    const { values } = selection;
+    const selected = values.every(value => current.includes(value));
+    if (additive) {
+      return withCategory(filters, column, selected
+        ? current.filter(value => !values.includes(value))
+        : [...current, ...values.filter(value => !current.includes(value))]);
+    }
+    return withCategory(filters, column, selected && current.length === values.length ? [] : values);
+  }
+
+  const [min, max] = selection.range;
+  const current = filters.ranges[column];
+  if (additive && current) {
+    return withRange(filters, column, [Math.min(current[0], min), Math.max(current[1], max)]);
+  }
+  const same = current && current[0] === min && current[1] === max;
+  return withRange(filters, column, same ? null : [min, max]);
+}
+
+export interface FacetOption {
+  value: string;
+  // Records with this value that pass every other filter
+  count: number;
+}
+
+// Options for a category field: every value in the data, with `totals`
+// giving each value's frequency over all records. Counts apply every filter
+// except the field's own (see the data engine), so options stay selectable
+// and show what selecting them would add.
+export function facetOptions(
+  column: string,
+  totals: Map<string, number>,
+  counts: Map<string, number>,
+  filters: FilterState,
+  valueOrder: ValueOrder = {}
+): FacetOption[] {
+  const values = Array.from(totals.keys());
+  // Selected values missing from the data stay listed so they can be cleared
+  (filters.categories[column] || []).forEach(value => {
+    if (!totals.has(value)) values.push(value);
+  });
+  const order = valueOrder[column];
+  const numeric = values.every(value => value !== '' && Number.isFinite(Number(value)));
+  if (order) {
+    // Values outside the order (blanks, stale selections) go last
+    const rank = (value: string) => (order.includes(value) ? order.indexOf(value) : order.length);
+    values.sort((a, b) => rank(a) - rank(b));
+  } else if (numeric) {
+    values.sort((a, b) => Number(a) - Number(b));
+  } else {
+    values.sort((a, b) => (totals.get(b) || 0) - (totals.get(a) || 0) || a.localeCompare(b));
+  }
+  return values.map(value => ({ value, count: counts.get(value) || 0 }));
+}
+
+export interface RangeBounds {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Slider bounds spanning every value of a numeric column, on a step of
+// roughly 1/100th of the span (whole numbers for integer columns)
+export function rangeBounds(batch: ColumnarBatch, column: string): RangeBounds | null {
+  const read = numericReader(batch, column);
+  let min = Infinity;
+  let max = -Infinity;
+  let integers = true;
+  for (let row = 0; row < batch.length; row++) {
+    const value = read(row);
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+    if (!Number.isInteger(value)) integers = false;
+  }
+  if (min > max) return null;
+
+  const span = max - min;
+  let step = span > 0 ? 10 ** Math.floor(Math.log10(span / 100)) : 1;
+  if (integers) step = Math.max(1, step);
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const snap = (value: number) => Number(value.toFixed(decimals));
+
+  return {
+    min: snap(Math.floor(min / step) * step),
+    max: snap(Math.ceil(max / step) * step),
+    step
+  };
+}
+
+const FILTER_FIELDS_KEY = 'filter-fields';
+
+export function loadFilterFields(): FilterField[] {
+  return loadJSON<FilterField[]>(FILTER_FIELDS_KEY, DEFAULT_FILTER_FIELDS);
+}
+
+export function saveFilterFields(fields: FilterField[]): void {
+  saveJSON(FILTER_FIELDS_KEY, fields);
+}
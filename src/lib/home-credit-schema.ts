@@ -0,0 +1,146 @@
+// Column definitions for the Home Credit application table
+// Used to validate and coerce uploaded files before preprocessing
+
+export type ColumnType = 'integer' | 'float' | 'category' | 'flag';
+
+export interface ColumnSpec {
+  name: string;
+  type: ColumnType;
+  required?: boolean;
+  // Value used when an optional column is missing or unparseable
+  fallback?: string | number;
+  // Closed set of accepted values for categorical columns
+  allowed?: readonly string[];
+  // Reject rows whose value falls outside these bounds
+  min?: number;
+  max?: number;
+}
+
+// Default label; files without it (e.g. application_test.csv) load unlabelled
+export const LABEL_COLUMN = 'TARGET';
+
+// Columns the dashboard relies on; optional ones get a fallback when missing
+export const CORE_COLUMNS: ColumnSpec[] = [
+  { name: 'SK_ID_CURR', type: 'integer' },
+  { name: 'TARGET', type: 'integer', required: true, allowed: ['0', '1'] },
+  { name: 'NAME_CONTRACT_TYPE', type: 'category', fallback: 'Cash loans' },
+  { name: 'CODE_GENDER', type: 'category', required: true, allowed: ['M', 'F', 'XNA'], fallback: 'XNA' },
+  { name: 'FLAG_OWN_CAR', type: 'flag', fallback: 'N' },
+  { name: 'FLAG_OWN_REALTY', type: 'flag', fallback: 'N' },
+  { name: 'CNT_CHILDREN', type: 'integer', fallback: 0, min: 0 },
+  { name: 'AMT_INCOME_TOTAL', type: 'float', required: true, min: 1 },
+  { name: 'AMT_CREDIT', type: 'float', required: true, min: 1 },
+  { name: 'AMT_ANNUITY', type: 'float', fallback: 0, min: 0 },
+  { name: 'AMT_GOODS_PRICE', type: 'float', fallback: 0, min: 0 },
+  { name: 'NAME_EDUCATION_TYPE', type: 'category', fallback: 'Unknown' },
+  { name: 'NAME_FAMILY_STATUS', type: 'category', fallback: 'Unknown' },
+  { name: 'NAME_HOUSING_TYPE', type: 'category', fallback: 'Unknown' },
+  { name: 'DAYS_BIRTH', type: 'integer', required: true },
+  { name: 'DAYS_EMPLOYED', type: 'integer', fallback: 0 },
+  { name: 'OCCUPATION_TYPE', type: 'category', fallback: '' },
+  { name: 'CNT_FAM_MEMBERS', type: 'integer', fallback: 1, min: 0 },
+  { name: 'REGION_RATING_CLIENT', type: 'integer', fallback: 1 }
+];
+
+// Building-info features, each published as _AVG, _MODE and _MEDI variants
+const BUILDING_FEATURES = [
+  'APARTMENTS', 'BASEMENTAREA', 'YEARS_BEGINEXPLUATATION', 'YEARS_BUILD',
+  'COMMONAREA', 'ELEVATORS', 'ENTRANCES', 'FLOORSMAX', 'FLOORSMIN',
+  'LANDAREA', 'LIVINGAPARTMENTS', 'LIVINGAREA', 'NONLIVINGAPARTMENTS', 'NONLIVINGAREA'
+];
+
+const float = (name: string): ColumnSpec => ({ name, type: 'float' });
+const integer = (name: string): ColumnSpec => ({ name, type: 'integer' });
+const category = (name: string): ColumnSpec => ({ name, type: 'category' });
+const binary = (name: string): ColumnSpec => ({ name, type: 'integer', allowed: ['0', '1'] });
+
+// Remaining application_train.csv columns, kept as-is with missing values as null
+const EXTENDED_COLUMNS: ColumnSpec[] = [
+  category('NAME_TYPE_SUITE'),
+  category('NAME_INCOME_TYPE'),
+  float('REGION_POPULATION_RELATIVE'),
+  float('DAYS_REGISTRATION'),
+  integer('DAYS_ID_PUBLISH'),
+  float('OWN_CAR_AGE'),
+  binary('FLAG_MOBIL'),
+  binary('FLAG_EMP_PHONE'),
+  binary('FLAG_WORK_PHONE'),
+  binary('FLAG_CONT_MOBILE'),
+  binary('FLAG_PHONE'),
+  binary('FLAG_EMAIL'),
+  integer('REGION_RATING_CLIENT_W_CITY'),
+  category('WEEKDAY_APPR_PROCESS_START'),
+  integer('HOUR_APPR_PROCESS_START'),
+  binary('REG_REGION_NOT_LIVE_REGION'),
+  binary('REG_REGION_NOT_WORK_REGION'),
+  binary('LIVE_REGION_NOT_WORK_REGION'),
+  binary('REG_CITY_NOT_LIVE_CITY'),
+  binary('REG_CITY_NOT_WORK_CITY'),
+  binary('LIVE_CITY_NOT_WORK_CITY'),
+  category('ORGANIZATION_TYPE'),
+  float('EXT_SOURCE_1'),
+  float('EXT_SOURCE_2'),
+  float('EXT_SOURCE_3'),
+  ...['AVG', 'MODE', 'MEDI'].flatMap(suffix =>
+    BUILDING_FEATURES.map(feature => float(`${feature}_${suffix}`))
+  ),
+  category('FONDKAPREMONT_MODE'),
+  category('HOUSETYPE_MODE'),
+  float('TOTALAREA_MODE'),
+  category('WALLSMATERIAL_MODE'),
+  category('EMERGENCYSTATE_MODE'),
+  float('OBS_30_CNT_SOCIAL_CIRCLE'),
+  float('DEF_30_CNT_SOCIAL_CIRCLE'),
+  float('OBS_60_CNT_SOCIAL_CIRCLE'),
+  float('DEF_60_CNT_SOCIAL_CIRCLE'),
+  float('DAYS_LAST_PHONE_CHANGE'),
+  ...Array.from({ length: 20 }, (_, i) => binary(`FLAG_DOCUMENT_${i + 2}`)),
+  float('AMT_REQ_CREDIT_BUREAU_HOUR'),
+  float('AMT_REQ_CREDIT_BUREAU_DAY'),
+  float('AMT_REQ_CREDIT_BUREAU_WEEK'),
+  float('AMT_REQ_CREDIT_BUREAU_MON'),
+  float('AMT_REQ_CREDIT_BUREAU_QRT'),
+  float('AMT_REQ_CREDIT_BUREAU_YEAR')
+];
+
+export const APPLICATION_COLUMNS: ColumnSpec[] = [...CORE_COLUMNS, ...EXTENDED_COLUMNS];
+
+const knownColumns = new Map(APPLICATION_COLUMNS.map(spec => [spec.name, spec]));
+
+export function getColumnSpec(name: string): ColumnSpec | undefined {
+  return knownColumns.get(name);
+}
+
+// Columns outside the schema are typed from a sample of their values
+export function inferColumnSpec(name: string, sample: string[]): ColumnSpec {
+  const present = sample.map(value => value.trim()).filter(value => value !== '');
+  const numeric = present.length > 0 && present.every(value => Number.isFinite(Number(value)));
+  return { name, type: numeric ? 'float' : 'category' };
+}
+
+// Specs for an uploaded file: core columns always, plus every other header
+// column, typed from the schema when known and inferred from the sample otherwise.
+// Without a label column every TARGET is null rather than every row rejected.
+export function resolveColumnSpecs(header: string[], sampleRows: Record<string, string | undefined>[]): ColumnSpec[] {
+  const labelled = header.includes(LABEL_COLUMN);
+  const specs = CORE_COLUMNS.map(spec =>
+    spec.name === LABEL_COLUMN && !labelled ? { ...spec, required: false } : spec
+  );
+  const included = new Set(CORE_COLUMNS.map(spec => spec.name));
+
+  header.forEach(name => {
+    if (included.has(name) || name.trim() === '') return;
+    included.add(name);
+    specs.push(knownColumns.get(name) ?? inferColumnSpec(name, sampleRows.map(row => row[name] ?? '')));
+  });
+
+  return specs;
+}
+
+// Columns a file must have; the label is required per row only when present
+export const REQUIRED_COLUMNS = CORE_COLUMNS
+  .filter(column => column.required && column.name !== LABEL_COLUMN)
+  .map(column => column.name);
+
+// DAYS_EMPLOYED uses this value for pensioners and unemployed applicants
+export const DAYS_EMPLOYED_SENTINEL = 365243;
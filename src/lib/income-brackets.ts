@@ -0,0 +1,102 @@
+import { loadJSON, saveJSON } from './local-store';
+
+// How AMT_INCOME_TOTAL is split into INCOME_BRACKET values. Schemes are kept
+// per dataset, so each portfolio can use its own credit-policy bands.
+
+export interface IncomeBracketScheme {
+  // 'quantile': cuts are percentiles of the dataset's incomes (0-100);
+  // 'amount': cuts are fixed incomes
+  basis: 'quantile' | 'amount';
+  // Ascending. The first cut closes the lowest bracket (upper bound inclusive);
+  // each later cut starts the next bracket (lower bound inclusive)
+  cuts: number[];
+  // One more label than cuts, lowest bracket first
+  labels: string[];
+}
+
+// Low up to and including the 25th percentile, High from the 75th on, Mid between
+export const DEFAULT_INCOME_BRACKETS: IncomeBracketScheme = {
+  basis: 'quantile',
+  cuts: [25, 75],
+  labels: ['Low', 'Mid', 'High']
+};
+
+export const MAX_INCOME_BRACKETS = 20;
+
+const SCHEMES_KEY = 'income-brackets';
+
+// Equal-sized brackets: quartiles Q1-Q4, deciles D1-D10, ...
+export function quantileScheme(count: number): IncomeBracketScheme {
+  const prefix = count === 10 ? 'D' : 'Q';
+  return {
+    basis: 'quantile',
+    cuts: Array.from({ length: count - 1 }, (_, i) => Math.round(((i + 1) * 10000) / count) / 100),
+    labels: Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`)
+  };
+}
+
+// Problems that keep a scheme from being applied; empty when it is valid
+export function validateIncomeBrackets(scheme: IncomeBracketScheme): string[] {
+  const problems: string[] = [];
+  const { basis, cuts, labels } = scheme;
+  if (cuts.length === 0) problems.push('Add at least one cut point');
+  if (cuts.length + 1 > MAX_INCOME_BRACKETS) problems.push(`Use at most ${MAX_INCOME_BRACKETS} brackets`);
+  if (!cuts.every(Number.isFinite)) problems.push('Cut points must be numbers');
+  if (cuts.some((cut, i) => i > 0 && cut <= cuts[i - 1])) problems.push('Cut points must increase');
+  if (basis === 'quantile' && cuts.some(cut => cut <= 0 || cut >= 100)) {
+    problems.push('Percentile cut points must be between 0 and 100');
+  }
+  if (labels.length !== cuts.length + 1) {
+    problems.push(`${cuts.length} cut point${cuts.length === 1 ? '' : 's'} need ${cuts.length + 1} labels`);
+  }
+  if (labels.some(label => !label.trim())) problems.push('Labels cannot be blank');
+  if (new Set(labels).size !== labels.length) problems.push('Labels must be unique');
+  return problems;
+}
+
+// The scheme's cut points as incomes, for the given dataset's incomes
+export function incomeThresholds(incomes: number[], scheme: IncomeBracketScheme): number[] {
+  if (scheme.basis === 'amount') return scheme.cuts;
+  const sorted = incomes.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return scheme.cuts.map(() => NaN);
+  return scheme.cuts.map(cut => sorted[Math.min(Math.floor((sorted.length * cut) / 100), sorted.length - 1)]);
+}
+
+// Index of the bracket an income falls in. Incomes tied with the first cut
+// stay in the lowest bracket, as in the original Low/Mid/High split at Q1 and Q3.
+export function bracketIndex(income: number, thresholds: number[]): number {
+  if (thresholds.length === 0 || income <= thresholds[0]) return 0;
+  let index = 1;
+  while (index < thresholds.length && income >= thresholds[index]) index++;
+  return index;
+}
+
+export function describeIncomeBrackets(scheme: IncomeBracketScheme): string {
+  const cuts = scheme.basis === 'quantile'
+    ? scheme.cuts.map(cut => `${cut}th pct`).join(', ')
+    : scheme.cuts.map(cut => `$${cut.toLocaleString()}`).join(', ');
+  return `${scheme.labels.length} brackets (${scheme.labels.join(', ')}) split at ${cuts}`;
+}
+
+// Schemes by dataset key; datasets without one use the default
+function loadSchemes(): Record<string, IncomeBracketScheme> {
+  return loadJSON<Record<string, IncomeBracketScheme>>(SCHEMES_KEY, {});
+}
+
+export function loadIncomeBrackets(datasetKey: string): IncomeBracketScheme {
+  const scheme = loadSchemes()[datasetKey];
+  // A damaged entry falls back to the default rather than breaking the dashboard
+  if (!scheme || !Array.isArray(scheme.cuts) || !Array.isArray(scheme.labels)) return DEFAULT_INCOME_BRACKETS;
+  return validateIncomeBrackets(scheme).length === 0 ? scheme : DEFAULT_INCOME_BRACKETS;
+}
+
+// Saving null returns the dataset to the default scheme
+export function saveIncomeBrackets(datasetKey: string, scheme: IncomeBracketScheme | null): void {
+  const schemes = loadSchemes();
+  if (scheme) {
+    schemes[datasetKey] = scheme;
+  } else {
+    delete schemes[datasetKey];
+  }
+  saveJSON(SCHEMES_KEY, schemes);
+}
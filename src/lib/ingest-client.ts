@@ -0,0 +1,147 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { IngestionReport, RawRow, findMissingColumns } from './ingestion';
+import { decodeColumns } from './columnar';
+import { AuxiliaryAggregates, AuxiliaryTableName, detectAuxiliaryTable, getAuxiliaryTable } from './auxiliary-tables';
+import { ColumnMapping } from './column-mapping';
+import { LABEL_COLUMN } from './home-credit-schema';
+import { ArchiveEntry, FilePreview, ReadOptions, getReader } from './readers';
+import { IngestRequest, IngestResponse } from '@/workers/ingest-protocol';
+
+// Main-thread handles for the ingestion worker
+
+export interface IngestProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsRead: number;
+}
+
+export interface IngestOutcome {
+  records: HomeCreditRecord[];
+  report: IngestionReport;
+  preview: RawRow[];
+}
+
+export interface IngestJob<T = IngestOutcome> {
+  result: Promise<T>;
+  // Stops the worker; the result promise rejects with an AbortError
+  cancel: () => void;
+}
+
+// Spawn a worker for one request and settle once it reports a final message
+function runIngestWorker<T>(
+  request: IngestRequest,
+  onProgress: (progress: IngestProgress) => void,
+  onMessage: (message: IngestResponse, resolve: (value: T) => void) => void
+): IngestJob<T> {
+  const worker = new Worker(new URL('../workers/ingest.worker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const result = new Promise<T>((resolve, reject) => {
+    const finish = () => worker.terminate();
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+      } else {
+        onMessage(message, value => {
+          finish();
+          resolve(value);
+        });
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Ingestion worker failed'));
+    };
+
+    cancel = () => {
+      finish();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return { result, cancel };
+}
+
+// Reads just the header and first rows on the main thread, e.g. to map columns
+export async function previewFile(file: File, options: ReadOptions = {}, rowCount = 20): Promise<FilePreview> {
+  const reader = getReader(file.name);
+  if (!reader) throw new Error(`Unsupported file type: ${file.name}`);
+  return reader.preview(file, options, rowCount);
+}
+
+export interface ArchiveTable {
+  entry: ArchiveEntry;
+  role: 'application' | 'auxiliary' | 'other';
+  // Set for auxiliary tables
+  table?: AuxiliaryTableName;
+}
+
+// Lists the tables inside an archive and guesses what each one is from its
+// name and header: one application table, auxiliary tables, everything else
+export async function inspectArchive(file: File): Promise<ArchiveTable[]> {
+  const reader = getReader(file.name);
+  if (!reader?.listEntries) throw new Error(`${file.name} is not an archive`);
+
+  const tables: ArchiveTable[] = [];
+  // A labelled application table (train) is preferred over an unlabelled one (test)
+  let applicationLabelled = false;
+  for (const entry of await reader.listEntries(file)) {
+    const fields = await reader.preview(file, { entry: entry.name }, 1)
+      .then(preview => preview.fields)
+      .catch(() => [] as string[]);
+
+    const table = detectAuxiliaryTable(entry.name);
+    const application = tables.find(t => t.role === 'application');
+    const labelled = fields.includes(LABEL_COLUMN);
+    if (table && getAuxiliaryTable(table).requiredColumns.every(column => fields.includes(column))) {
+      tables.push({ entry, role: 'auxiliary', table });
+    } else if ((!application || (labelled && !applicationLabelled)) && findMissingColumns(fields).length === 0) {
+      if (application) application.role = 'other';
+      applicationLabelled = labelled;
+      tables.push({ entry, role: 'application' });
+    } else {
+      tables.push({ entry, role: 'other' });
+    }
+  }
+  return tables;
+}
+
+export function startIngestion(
+  file: File,
+  onProgress: (progress: IngestProgress) => void,
+  options: ReadOptions = {},
+  mapping?: ColumnMapping[]
+): IngestJob {
+  const records: HomeCreditRecord[] = [];
+
+  return runIngestWorker<IngestOutcome>({ type: 'application', file, options, mapping }, onProgress, (message, resolve) => {
+    if (message.type === 'batch') {
+      for (const record of decodeColumns(message.batch)) {
+        records.push(record);
+      }
+    } else if (message.type === 'done') {
+      resolve({ records, report: message.report, preview: message.preview });
+    }
+  });
+}
+
+export function startAuxiliaryIngestion(
+  file: File,
+  table: AuxiliaryTableName,
+  onProgress: (progress: IngestProgress) => void,
+  options: ReadOptions = {}
+): IngestJob<AuxiliaryAggregates> {
+  return runIngestWorker<AuxiliaryAggregates>({ type: 'auxiliary', file, table, options }, onProgress, (message, resolve) => {
+    if (message.type === 'aggregates') {
+      resolve(message.aggregates);
+    }
+  });
+}
@@ -0,0 +1,162 @@
+import { HomeCreditRecord, preprocessData, addIncomeBrackets } from './synthetic-data';
+import { APPLICATION_COLUMNS, REQUIRED_COLUMNS, ColumnSpec } from './home-credit-schema';
+
+// Ingestion pipeline for uploaded application data:
+// schema validation -> typed coercion -> derived fields -> income brackets
+
+export type RawRow = Record<string, string | undefined>;
+
+export interface IngestionIssue {
+  row: number;
+  column: string;
+  value: string;
+  action: 'rejected' | 'coerced';
+  message: string;
+}
+
+export interface IngestionReport {
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  coercedValues: number;
+  issues: IngestionIssue[];
+  // Issues beyond MAX_REPORTED_ISSUES are counted but not kept
+  truncatedIssues: number;
+}
+
+const MAX_REPORTED_ISSUES = 500;
+
+// Rows used to infer the type of columns outside the known schema
+export const SAMPLE_ROWS = 1000;
+
+const flagValues: Record<string, 'Y' | 'N'> = {
+  Y: 'Y', YES: 'Y', TRUE: 'Y', '1': 'Y',
+  N: 'N', NO: 'N', FALSE: 'N', '0': 'N'
+};
+
+// Returns the required columns absent from the given header
+export function findMissingColumns(columns: string[]): string[] {
+  return REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+}
+
+export function createEmptyReport(): IngestionReport {
+  return {
+    totalRows: 0,
+    acceptedRows: 0,
+    rejectedRows: 0,
+    coercedValues: 0,
+    issues: [],
+    truncatedIssues: 0
+  };
+}
+
+export function recordIssue(report: IngestionReport, issue: IngestionIssue) {
+  if (issue.action === 'coerced') report.coercedValues++;
+  if (report.issues.length < MAX_REPORTED_ISSUES) {
+    report.issues.push(issue);
+  } else {
+    report.truncatedIssues++;
+  }
+}
+
+type CoercedValue = { value: string | number } | { error: string };
+
+function coerceValue(spec: ColumnSpec, raw: string): CoercedValue {
+  switch (spec.type) {
+    case 'integer':
+    case 'float': {
+      const parsed = Number(raw);
+      if (!Number.isFinite(parsed)) return { error: `"${raw}" is not a number` };
+      const value = spec.type === 'integer' ? Math.round(parsed) : parsed;
+      if (spec.allowed && !spec.allowed.includes(String(value))) {
+        return { error: `expected one of ${spec.allowed.join(', ')}` };
+      }
+      if (spec.min !== undefined && value < spec.min) return { error: `below minimum of ${spec.min}` };
+      if (spec.max !== undefined && value > spec.max) return { error: `above maximum of ${spec.max}` };
+      return { value };
+    }
+    case 'flag': {
+      const flag = flagValues[raw.toUpperCase()];
+      return flag ? { value: flag } : { error: `expected Y or N` };
+    }
+    case 'category': {
+      if (spec.allowed && !spec.allowed.includes(raw)) {
+        return { error: `expected one of ${spec.allowed.join(', ')}` };
+      }
+      return { value: raw };
+    }
+  }
+}
+
+// Coerce a single raw row into a record, or return null if the row must be dropped
+export function coerceRow(
+  row: RawRow,
+  rowNumber: number,
+  report: IngestionReport,
+  specs: ColumnSpec[] = APPLICATION_COLUMNS
+): HomeCreditRecord | null {
+  const record: Record<string, string | number | null> = {};
+  let rejected = false;
+
+  for (const spec of specs) {
+    const raw = (row[spec.name] ?? '').trim();
+
+    if (raw === '') {
+      if (spec.required) {
+        recordIssue(report, { row: rowNumber, column: spec.name, value: raw, action: 'rejected', message: 'required value is missing' });
+        rejected = true;
+      } else {
+        record[spec.name] = spec.fallback ?? null;
+      }
+      continue;
+    }
+
+    const result = coerceValue(spec, raw);
+    if ('value' in result) {
+      record[spec.name] = result.value;
+    } else if (spec.required && spec.fallback === undefined) {
+      recordIssue(report, { row: rowNumber, column: spec.name, value: raw, action: 'rejected', message: result.error });
+      rejected = true;
+    } else {
+      recordIssue(report, {
+        row: rowNumber,
+        column: spec.name,
+        value: raw,
+        action: 'coerced',
+        message: spec.fallback === undefined
+          ? `${result.error}; treated as missing`
+          : `${result.error}; replaced with "${spec.fallback}"`
+      });
+      record[spec.name] = spec.fallback ?? null;
+    }
+  }
+
+  // Ages are stored as negative day offsets; a positive value is a flipped sign
+  if (!rejected && (record.DAYS_BIRTH as number) > 0) {
+    recordIssue(report, {
+      row: rowNumber,
+      column: 'DAYS_BIRTH',
+      value: String(record.DAYS_BIRTH),
+      action: 'coerced',
+      message: 'positive day count; sign flipped'
+    });
+    record.DAYS_BIRTH = -(record.DAYS_BIRTH as number);
+  }
+
+  if (rejected) {
+    report.rejectedRows++;
+    return null;
+  }
+
+  if (record.SK_ID_CURR === null) {
+    record.SK_ID_CURR = 100000 + rowNumber;
+  }
+  report.acceptedRows++;
+  return record as unknown as HomeCreditRecord;
+}
+
+// Derived fields and brackets depend on the full dataset, so they run last
+export function finalizeRecords(records: HomeCreditRecord[]): HomeCreditRecord[] {
+  if (records.length === 0) return records;
+  return addIncomeBrackets(preprocessData(records));
+}
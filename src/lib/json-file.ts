@@ -0,0 +1,27 @@
+// Browser download and file-picker helpers for exporting and importing
+// user-defined presets (queries, segments) as JSON files.
+
+export function downloadJSON(fileName: string, value: unknown): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+// Calls back with the parsed contents of a picked .json file, or the read/parse error
+export function pickJSONFile(onPicked: (value: unknown, fileName: string) => void, onError: (err: unknown) => void): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,application/json';
+  input.onchange = (e) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => onPicked(JSON.parse(text), file.name))
+      .catch(onError);
+  };
+  input.click();
+}
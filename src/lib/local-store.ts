@@ -0,0 +1,22 @@
+// Small JSON helpers over localStorage for user-defined presets
+// (mapping templates, scenarios, segments). Failures fall back silently
+// so private browsing or a full quota never breaks the dashboard.
+
+const PREFIX = 'credit-risk:';
+
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable or full; the value only lives for this session
+  }
+}
@@ -0,0 +1,233 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { isMissingValue } from './data-profile';
+import { loadJSON, saveJSON } from './local-store';
+
+// Boolean queries over record columns: nested AND/OR groups of conditions.
+// Trees are plain JSON so they can be saved, exported and put in URLs.
+
+export type QueryOperator = 'eq' | 'in' | 'between' | 'gt' | 'lt' | 'missing';
+export type QueryCombinator = 'and' | 'or';
+
+export interface QueryCondition {
+  type: 'condition';
+  id: string;
+  column: string;
+  operator: QueryOperator;
+  // eq/gt/lt: one value; in: the accepted values; between: inclusive [min, max]
+  values: string[];
+}
+
+export interface QueryGroup {
+  type: 'group';
+  id: string;
+  combinator: QueryCombinator;
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+export const OPERATOR_LABELS: Record<QueryOperator, string> = {
+  eq: '=',
+  in: 'in',
+  between: 'between',
+  gt: '>',
+  lt: '<',
+  missing: 'is missing'
+};
+
+const OPERATORS = Object.keys(OPERATOR_LABELS) as QueryOperator[];
+
+export function createCondition(column = ''): QueryCondition {
+  return { type: 'condition', id: crypto.randomUUID(), column, operator: 'eq', values: [] };
+}
+
+export function createGroup(combinator: QueryCombinator = 'and', children: QueryNode[] = []): QueryGroup {
+  return { type: 'group', id: crypto.randomUUID(), combinator, children };
+}
+
+// Conditions missing a column or values are still being edited and match everything
+export function isComplete(condition: QueryCondition): boolean {
+  if (!condition.column) return false;
+  switch (condition.operator) {
+    case 'missing':
+      return true;
+    case 'in':
+      return condition.values.length > 0;
+    case 'between':
+      return condition.values.length === 2 && condition.values.every(value => value.trim() !== '' && Number.isFinite(Number(value)));
+    case 'gt':
+    case 'lt':
+      return condition.values.length === 1 && condition.values[0].trim() !== '' && Number.isFinite(Number(condition.values[0]));
+    default:
+      return condition.values.length === 1;
+  }
+}
+
+// True when the tree has at least one complete condition
+export function isActiveQuery(node: QueryNode | null | undefined): boolean {
+  if (!node) return false;
+  return node.type === 'condition' ? isComplete(node) : node.children.some(isActiveQuery);
+}
+
+function compileCondition(condition: QueryCondition): (record: HomeCreditRecord) => boolean {
+  const { column, values } = condition;
+  const numeric = (record: HomeCreditRecord) => {
+    const value = record[column];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  };
+  // Equality compares as text so "6" matches the number 6
+  const text = (record: HomeCreditRecord) => (isMissingValue(record[column]) ? '' : String(record[column]));
+
+  switch (condition.operator) {
+    case 'missing':
+      return record => isMissingValue(record[column]);
+    case 'eq':
+      return record => text(record) === values[0];
+    case 'in': {
+      const accepted = new Set(values);
+      return record => accepted.has(text(record));
+    }
+    case 'gt': {
+      const bound = Number(values[0]);
+      return record => numeric(record) !== null && numeric(record) > bound;
+    }
+    case 'lt': {
+      const bound = Number(values[0]);
+      return record => numeric(record) !== null && numeric(record) < bound;
+    }
+    case 'between': {
+      const [min, max] = values.map(Number);
+      return record => {
+        const value = numeric(record);
+        return value !== null && value >= min && value <= max;
+      };
+    }
+  }
+}
+
+// Compile once, then test each record; incomplete parts and empty groups match everything
+export function compileQuery(node: QueryNode): (record: HomeCreditRecord) => boolean {
+  if (node.type === 'condition') {
+    return isComplete(node) ? compileCondition(node) : () => true;
+  }
+  const tests = node.children.filter(isActiveQuery).map(compileQuery);
+  if (tests.length === 0) return () => true;
+  return node.combinator === 'and'
+    ? record => tests.every(test => test(record))
+    : record => tests.some(test => test(record));
+}
+
+export function describeQuery(node: QueryNode, nested = false): string {
+  if (node.type === 'condition') {
+    const { column, operator, values } = node;
+    if (operator === 'missing') return `${column} is missing`;
+    if (operator === 'between') return `${column} between ${values[0]} and ${values[1]}`;
+    if (operator === 'in') return `${column} in (${values.join(', ')})`;
+    return `${column} ${OPERATOR_LABELS[operator]} ${values[0]}`;
+  }
+  const parts = node.children.filter(isActiveQuery).map(child => describeQuery(child, true));
+  const joined = parts.join(node.combinator === 'and' ? ' AND ' : ' OR ');
+  return nested && parts.length > 1 ? `(${joined})` : joined;
+}
+
+// Immutable tree edits, addressing nodes by id
+export function updateNode(root: QueryGroup, id: string, update: (node: QueryNode) => QueryNode): QueryGroup {
+  const visit = (node: QueryNode): QueryNode => {
+    if (node.id === id) return update(node);
+    return node.type === 'group' ? { ...node, children: node.children.map(visit) } : node;
+  };
+  return visit(root) as QueryGroup;
+}
+
+export function removeNode(root: QueryGroup, id: string): QueryGroup {
+  const visit = (group: QueryGroup): QueryGroup => ({
+    ...group,
+    children: group.children
+      .filter(child => child.id !== id)
+      .map(child => (child.type === 'group' ? visit(child) : child))
+  });
+  return visit(root);
+}
+
+// Compact JSON form without node ids, for URLs and exports
+export function serializeQuery(node: QueryNode): unknown {
+  if (node.type === 'condition') {
+    const { id: _id, ...condition } = node;
+    return condition;
+  }
+  return { type: 'group', combinator: node.combinator, children: node.children.map(serializeQuery) };
+}
+
+// Rebuild a query from untrusted JSON (imports, saved state), with fresh ids
+export function parseQuery(value: unknown): QueryGroup {
+  const node = parseNode(value);
+  if (node.type !== 'group') throw new Error('A query must be a group of conditions');
+  return node;
+}
+
+function parseNode(value: unknown): QueryNode {
+  if (typeof value !== 'object' || value === null) throw new Error('Query node is not an object');
+  const node = value as Record<string, unknown>;
+
+  if (node.type === 'group') {
+    if (node.combinator !== 'and' && node.combinator !== 'or') {
+      throw new Error(`Unknown combinator: ${String(node.combinator)}`);
+    }
+    if (!Array.isArray(node.children)) throw new Error('Query group has no children');
+    return createGroup(node.combinator, node.children.map(parseNode));
+  }
+
+  if (node.type === 'condition') {
+    if (typeof node.column !== 'string') throw new Error('Query condition has no column');
+    if (!OPERATORS.includes(node.operator as QueryOperator)) {
+      throw new Error(`Unknown operator: ${String(node.operator)}`);
+    }
+    const values = Array.isArray(node.values) ? node.values.map(String) : [];
+    return { ...createCondition(node.column), operator: node.operator as QueryOperator, values };
+  }
+
+  throw new Error(`Unknown query node type: ${String(node.type)}`);
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: QueryGroup;
+}
+
+const QUERIES_KEY = 'queries';
+
+export function loadSavedQueries(): SavedQuery[] {
+  return loadJSON<SavedQuery[]>(QUERIES_KEY, []);
+}
+
+export function saveQuery(name: string, query: QueryGroup): SavedQuery[] {
+  // Saving under an existing name replaces that query
+  const saved = loadSavedQueries().filter(entry => entry.name !== name);
+  saved.push({ id: crypto.randomUUID(), name, query });
+  saveJSON(QUERIES_KEY, saved);
+  return saved;
+}
+
+export function deleteSavedQuery(id: string): SavedQuery[] {
+  const saved = loadSavedQueries().filter(entry => entry.id !== id);
+  saveJSON(QUERIES_KEY, saved);
+  return saved;
+}
+
+// Most frequent values of a column, as suggestions for equality conditions,
+// from the column's value frequencies ('' counts missing values)
+export function suggestValues(counts: Map<string, number>, limit = 50): string[] {
+  return Array.from(counts.entries())
+    .filter(([value]) => value !== '')
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+// Columns named by the tree's conditions, complete or not
+export function queryColumns(node: QueryNode | null): string[] {
+  if (!node) return [];
+  if (node.type === 'condition') return node.column ? [node.column] : [];
+  return Array.from(new Set(node.children.flatMap(queryColumns)));
+}
@@ -0,0 +1,44 @@
+// Seedable pseudo-random numbers for reproducible synthetic data.
+// mulberry32: a 32-bit state, fast and good enough for sampling.
+
+export type Random = () => number;
+
+// Seed used when none is given, so reloads show the same sample dataset
+export const DEFAULT_SEED = 42;
+
+const MAX_SEED = 0xffffffff;
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Independent stream for an optional part of a generator, so enabling it
+// leaves the values drawn from the main seed unchanged
+export function deriveSeed(seed: number, stream: number): number {
+  return (Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(stream, 0xc2b2ae35)) >>> 0;
+}
+
+// Standard normal draw (Box–Muller)
+export function randomNormal(random: Random): number {
+  const u = Math.max(random(), Number.MIN_VALUE);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+// Seeds are whole numbers in the unsigned 32-bit range; anything else is null
+export function parseSeed(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+}
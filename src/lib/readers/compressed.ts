@@ -0,0 +1,132 @@
+import type { FileEntry } from '@zip.js/zip.js';
+import { ByteProgress, ChunkHandler, FilePreview, ReadOptions, TableReader } from './types';
+import { FORMAT_READERS, findReader } from './formats';
+import { collectPreview, countBytes } from './stream';
+
+// Gzip files and zip archives, decompressed as a stream in the browser.
+// CSV and NDJSON are parsed while decompressing; formats that need
+// random access (Excel, Parquet) are inflated into a Blob first.
+
+function formatReader(fileName: string, container: string): TableReader {
+  const reader = findReader(FORMAT_READERS, fileName);
+  if (!reader) throw new Error(`Unsupported file ${fileName} in ${container}`);
+  return reader;
+}
+
+async function readDecompressed(
+  fileName: string,
+  container: string,
+  stream: ReadableStream<Uint8Array>,
+  progress: ByteProgress,
+  options: ReadOptions,
+  onChunk: ChunkHandler
+) {
+  const reader = formatReader(fileName, container);
+  if (reader.readStream) return reader.readStream(stream, progress, onChunk);
+
+  const inflated = new File([await new Response(stream).blob()], fileName);
+  return reader.read(inflated, options, onChunk);
+}
+
+async function previewDecompressed(
+  fileName: string,
+  container: string,
+  stream: ReadableStream<Uint8Array>,
+  options: ReadOptions,
+  rowCount: number
+): Promise<FilePreview> {
+  const reader = formatReader(fileName, container);
+  if (reader.readStream) {
+    return collectPreview(onChunk => reader.readStream(stream, () => ({ bytesRead: 0, totalBytes: 0 }), onChunk), rowCount);
+  }
+
+  const inflated = new File([await new Response(stream).blob()], fileName);
+  return reader.preview(inflated, options, rowCount);
+}
+
+const innerName = (file: File) => file.name.replace(/\.gz$/i, '');
+
+function gunzip(file: File, counter: { bytes: number }): ReadableStream<Uint8Array> {
+  return countBytes(file.stream(), counter).pipeThrough(new DecompressionStream('gzip'));
+}
+
+export const gzipReader: TableReader = {
+  format: 'gzip',
+  label: 'Gzip',
+  extensions: ['.gz'],
+
+  read: (file, options, onChunk) => {
+    const counter = { bytes: 0 };
+    const progress = () => ({ bytesRead: counter.bytes, totalBytes: file.size });
+    return readDecompressed(innerName(file), file.name, gunzip(file, counter), progress, options, onChunk);
+  },
+
+  preview: (file, options, rowCount) =>
+    previewDecompressed(innerName(file), file.name, gunzip(file, { bytes: 0 }), options, rowCount)
+};
+
+async function openArchive(file: File) {
+  const { ZipReader, BlobReader, configure } = await import('@zip.js/zip.js');
+  // Already off the main thread where it matters; avoid nested workers
+  configure({ useWebWorkers: false });
+
+  const zip = new ZipReader(new BlobReader(file));
+  const entries = (await zip.getEntries()).filter(
+    (entry): entry is FileEntry => !entry.directory && !entry.filename.startsWith('__MACOSX/')
+  );
+  return { zip, entries };
+}
+
+// Streams one archive entry; the returned promise settles once extraction ends
+async function openEntry(file: File, name: string | undefined) {
+  const { zip, entries } = await openArchive(file);
+  const entry = name
+    ? entries.find(e => e.filename === name)
+    : entries.find(e => findReader(FORMAT_READERS, e.filename));
+  if (!entry) {
+    await zip.close();
+    throw new Error(name ? `${name} not found in ${file.name}` : `No supported files in ${file.name}`);
+  }
+
+  const counter = { bytes: 0 };
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  // Rejects when the reader stops early and cancels the stream; that is expected
+  const extraction = entry
+    .getData(writable, {
+      onprogress: (progress, total) => {
+        counter.bytes = total > 0 ? Math.round(entry.compressedSize * (progress / total)) : 0;
+      }
+    })
+    .catch(() => undefined)
+    .then(() => zip.close());
+
+  const progress = () => ({ bytesRead: counter.bytes, totalBytes: entry.compressedSize });
+  return { entry, stream: readable, progress, extraction };
+}
+
+export const zipReader: TableReader = {
+  format: 'zip',
+  label: 'Zip',
+  extensions: ['.zip'],
+
+  read: async (file, options, onChunk) => {
+    const { entry, stream, progress, extraction } = await openEntry(file, options.entry);
+    await readDecompressed(entry.filename, file.name, stream, progress, options, onChunk);
+    await extraction;
+  },
+
+  preview: async (file, options, rowCount) => {
+    const { entry, stream, extraction } = await openEntry(file, options.entry);
+    const preview = await previewDecompressed(entry.filename, file.name, stream, options, rowCount);
+    await extraction;
+    return preview;
+  },
+
+  listEntries: async (file) => {
+    const { zip, entries } = await openArchive(file);
+    await zip.close();
+    return entries
+      .filter(entry => findReader(FORMAT_READERS, entry.filename))
+      .map(entry => ({ name: entry.filename, size: entry.uncompressedSize, compressedSize: entry.compressedSize }));
+  }
+};
@@ -0,0 +1,119 @@
+import Papa from 'papaparse';
+import { RawRow } from '../ingestion';
+import { ByteProgress, ChunkHandler, TableReader } from './types';
+
+// Papa streams the file in fixed-size byte chunks so progress is exact
+const CHUNK_SIZE = 4 * 1024 * 1024;
+// Decompressed text is buffered to roughly this many characters per parse
+const STREAM_BUFFER = 1024 * 1024;
+
+// End of the last complete record: the last newline outside quoted values.
+// Escaped quotes ("") toggle twice, so a parity count is enough.
+function lastRecordEnd(text: string): number {
+  let inQuotes = false;
+  let end = -1;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 34) inQuotes = !inQuotes;
+    else if (code === 10 && !inQuotes) end = i;
+  }
+  return end;
+}
+
+// Parses CSV text arriving in pieces, e.g. from a decompression stream
+async function readCsvStream(stream: ReadableStream<Uint8Array>, progress: ByteProgress, onChunk: ChunkHandler) {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let fields: string[] | null = null;
+  let pending = '';
+
+  const emit = (text: string): boolean => {
+    const parsed = Papa.parse<string[]>(text, { skipEmptyLines: true });
+    let data = parsed.data;
+    let offset = 0;
+    if (!fields) {
+      fields = data[0] || [];
+      data = data.slice(1);
+      offset = 1;
+    }
+
+    const errors = new Map(parsed.errors.map(e => [e.row - offset, e.message]));
+    const rows = data.map((values, index) => {
+      if (values.length !== fields.length && !errors.has(index)) {
+        errors.set(index, `Expected ${fields.length} fields but parsed ${values.length}`);
+      }
+      const row: RawRow = {};
+      fields.forEach((field, i) => {
+        row[field] = values[i];
+      });
+      return row;
+    });
+
+    return onChunk({ fields, rows, errors, ...progress() }) !== false;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += value;
+    if (pending.length < STREAM_BUFFER) continue;
+
+    const end = lastRecordEnd(pending);
+    if (end < 0) continue;
+    const complete = pending.slice(0, end + 1);
+    pending = pending.slice(end + 1);
+    if (!emit(complete)) {
+      await reader.cancel();
+      return;
+    }
+  }
+
+  if (pending.trim() !== '' || !fields) emit(pending);
+}
+
+export const csvReader: TableReader = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['.csv'],
+
+  read: (file, _options, onChunk) => new Promise((resolve, reject) => {
+    let chunksRead = 0;
+    // Rows delivered by earlier chunks
+    let rowsBefore = 0;
+
+    Papa.parse<RawRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunkSize: CHUNK_SIZE,
+      chunk: (results, parser) => {
+        chunksRead++;
+        // Papa numbers FieldMismatch errors from the start of the file but
+        // other errors from the start of the chunk; rows are keyed by chunk index
+        const errors = new Map(results.errors.map(e => [e.type === 'FieldMismatch' ? e.row - rowsBefore : e.row, e.message]));
+        rowsBefore += results.data.length;
+        const keepReading = onChunk({
+          fields: results.meta.fields || [],
+          rows: results.data,
+          errors,
+          bytesRead: Math.min(file.size, chunksRead * CHUNK_SIZE),
+          totalBytes: file.size
+        });
+        if (keepReading === false) parser.abort();
+      },
+      complete: () => resolve(),
+      error: (error) => reject(new Error(`Failed to parse CSV: ${error.message}`))
+    });
+  }),
+
+  preview: (file, _options, rowCount) => new Promise((resolve, reject) => {
+    Papa.parse<RawRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: rowCount,
+      complete: (results) => resolve({ fields: results.meta.fields || [], rows: results.data }),
+      error: (error) => reject(new Error(`Failed to parse CSV: ${error.message}`))
+    });
+  }),
+
+  readStream: readCsvStream
+};
+
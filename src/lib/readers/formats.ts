@@ -0,0 +1,13 @@
+import { TableReader } from './types';
+import { csvReader } from './csv';
+import { ndjsonReader } from './ndjson';
+import { xlsxReader } from './xlsx';
+import { parquetReader } from './parquet';
+
+// Plain tabular formats; archives and compressed files delegate to these
+export const FORMAT_READERS: TableReader[] = [csvReader, ndjsonReader, xlsxReader, parquetReader];
+
+export function findReader(readers: TableReader[], fileName: string): TableReader | undefined {
+  const name = fileName.toLowerCase();
+  return readers.find(reader => reader.extensions.some(extension => name.endsWith(extension)));
+}
@@ -0,0 +1,33 @@
+import { TableReader } from './types';
+import { FORMAT_READERS, findReader } from './formats';
+import { gzipReader, zipReader } from './compressed';
+
+export type {
+  ArchiveEntry,
+  ChunkHandler,
+  FileFormat,
+  FilePreview,
+  ReadOptions,
+  RowChunk,
+  TableReader
+} from './types';
+
+// Registered readers, matched on file extension
+export const TABLE_READERS: TableReader[] = [...FORMAT_READERS, gzipReader, zipReader];
+
+export const ACCEPTED_EXTENSIONS = TABLE_READERS.flatMap(reader => reader.extensions);
+
+export function getReader(fileName: string): TableReader | undefined {
+  return findReader(TABLE_READERS, fileName);
+}
+
+// File name without its format extensions (e.g. ".csv.gz"), used as the default dataset name
+export function baseName(fileName: string): string {
+  let name = fileName;
+  for (;;) {
+    const lower = name.toLowerCase();
+    const extension = ACCEPTED_EXTENSIONS.find(ext => lower.endsWith(ext));
+    if (!extension || extension.length === name.length) return name;
+    name = name.slice(0, -extension.length);
+  }
+}
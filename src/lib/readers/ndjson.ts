@@ -0,0 +1,98 @@
+import { RawRow } from '../ingestion';
+import { ByteProgress, ChunkHandler, TableReader } from './types';
+import { collectFields, toRawRow } from './values';
+import { countBytes } from './stream';
+
+// Newline-delimited JSON: one object per line, keys become columns
+
+const BATCH_ROWS = 20000;
+const PREVIEW_BYTES = 256 * 1024;
+
+type ParsedLine = { value: Record<string, unknown> } | { error: string };
+
+function parseLine(line: string): ParsedLine {
+  try {
+    const value = JSON.parse(line);
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return { error: 'line is not a JSON object' };
+    }
+    return { value };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'invalid JSON' };
+  }
+}
+
+async function readNdjsonStream(stream: ReadableStream<Uint8Array>, progress: ByteProgress, onChunk: ChunkHandler) {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let fields: string[] = [];
+  let rows: RawRow[] = [];
+  let errors = new Map<number, string>();
+  let pending = '';
+
+  const addLine = (line: string) => {
+    if (line.trim() === '') return;
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      errors.set(rows.length, parsed.error);
+      rows.push({});
+    } else {
+      fields = collectFields([parsed.value], fields);
+      rows.push(toRawRow(parsed.value));
+    }
+  };
+
+  const flush = () => {
+    const keepReading = onChunk({ fields, rows, errors, ...progress() });
+    rows = [];
+    errors = new Map();
+    return keepReading !== false;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += value;
+
+    const lines = pending.split('\n');
+    pending = lines.pop();
+    lines.forEach(addLine);
+
+    if (rows.length >= BATCH_ROWS && !flush()) {
+      await reader.cancel();
+      return;
+    }
+  }
+
+  addLine(pending);
+  if (rows.length > 0) flush();
+}
+
+export const ndjsonReader: TableReader = {
+  format: 'ndjson',
+  label: 'NDJSON',
+  extensions: ['.ndjson', '.jsonl'],
+
+  read: (file, _options, onChunk) => {
+    const counter = { bytes: 0 };
+    const stream = countBytes(file.stream(), counter);
+    return readNdjsonStream(stream, () => ({ bytesRead: counter.bytes, totalBytes: file.size }), onChunk);
+  },
+
+  readStream: readNdjsonStream,
+
+  preview: async (file, _options, rowCount) => {
+    const text = await file.slice(0, PREVIEW_BYTES).text();
+    const lines = text.split('\n');
+    // The last line may be cut off by the slice
+    if (file.size > PREVIEW_BYTES) lines.pop();
+
+    const values = lines
+      .filter(line => line.trim() !== '')
+      .slice(0, rowCount)
+      .map(parseLine)
+      .filter((parsed): parsed is { value: Record<string, unknown> } => 'value' in parsed)
+      .map(parsed => parsed.value);
+
+    return { fields: collectFields(values), rows: values.map(toRawRow) };
+  }
+};
@@ -0,0 +1,60 @@
+import type { AsyncBuffer, FileMetaData } from 'hyparquet';
+import { TableReader } from './types';
+import { toRawRow } from './values';
+
+// Parquet files are read one row group at a time through ranged slices
+// of the File, so only the footer and the current group are held in memory.
+
+function fileBuffer(file: File): AsyncBuffer {
+  return {
+    byteLength: file.size,
+    slice: (start, end) => file.slice(start, end).arrayBuffer()
+  };
+}
+
+async function openParquet(file: File) {
+  const [{ parquetMetadataAsync, parquetReadObjects, parquetSchema }, { compressors }] = await Promise.all([
+    import('hyparquet'),
+    import('hyparquet-compressors')
+  ]);
+  const buffer = fileBuffer(file);
+  const metadata: FileMetaData = await parquetMetadataAsync(buffer);
+  const fields = parquetSchema(metadata).children.map(child => child.element.name);
+
+  const readRows = (rowStart: number, rowEnd: number) =>
+    parquetReadObjects({ file: buffer, metadata, rowStart, rowEnd, compressors });
+
+  return { metadata, fields, readRows };
+}
+
+export const parquetReader: TableReader = {
+  format: 'parquet',
+  label: 'Parquet',
+  extensions: ['.parquet'],
+
+  read: async (file, _options, onChunk) => {
+    const { metadata, fields, readRows } = await openParquet(file);
+    const totalRows = Number(metadata.num_rows);
+    let rowStart = 0;
+
+    for (const group of metadata.row_groups) {
+      const rowEnd = rowStart + Number(group.num_rows);
+      const values = await readRows(rowStart, rowEnd);
+      const keepReading = onChunk({
+        fields,
+        rows: values.map(toRawRow),
+        errors: new Map(),
+        bytesRead: totalRows > 0 ? Math.round(file.size * (rowEnd / totalRows)) : file.size,
+        totalBytes: file.size
+      });
+      if (keepReading === false) return;
+      rowStart = rowEnd;
+    }
+  },
+
+  preview: async (file, _options, rowCount) => {
+    const { fields, readRows } = await openParquet(file);
+    const values = await readRows(0, rowCount);
+    return { fields, rows: values.map(toRawRow) };
+  }
+};
@@ -0,0 +1,37 @@
+import { RawRow } from '../ingestion';
+import { ChunkHandler, FilePreview } from './types';
+
+// Helpers for readers that parse byte streams rather than whole files
+
+export interface ByteCounter {
+  bytes: number;
+}
+
+// Passes the stream through unchanged while counting the bytes read from it
+export function countBytes(source: ReadableStream<Uint8Array>, counter: ByteCounter): ReadableStream<Uint8Array> {
+  return source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      counter.bytes += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  }));
+}
+
+// Runs a reader until it has produced enough rows for a preview
+export async function collectPreview(
+  read: (onChunk: ChunkHandler) => Promise<void>,
+  rowCount: number
+): Promise<FilePreview> {
+  let fields: string[] = [];
+  const rows: RawRow[] = [];
+
+  await read((chunk) => {
+    fields = chunk.fields;
+    chunk.rows.forEach((row, index) => {
+      if (rows.length < rowCount && !chunk.errors.has(index)) rows.push(row);
+    });
+    return rows.length < rowCount;
+  });
+
+  return { fields, rows };
+}
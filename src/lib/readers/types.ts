@@ -0,0 +1,52 @@
+import { RawRow } from '../ingestion';
+
+// Shared contract for the tabular file formats accepted by the uploader.
+// Every reader hands back string rows so CSV, NDJSON, XLSX and Parquet
+// all go through the same validation and coercion path.
+
+export type FileFormat = 'csv' | 'ndjson' | 'xlsx' | 'parquet' | 'gzip' | 'zip';
+
+export interface ReadOptions {
+  // Worksheet to read from multi-sheet workbooks; defaults to the first
+  sheet?: string;
+  // File to read from inside an archive
+  entry?: string;
+}
+
+export interface RowChunk {
+  fields: string[];
+  rows: RawRow[];
+  // Structural errors keyed by index into rows; those rows are rejected
+  errors: Map<number, string>;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+// Return false to stop reading, e.g. once the header has been rejected
+export type ChunkHandler = (chunk: RowChunk) => boolean | void;
+
+// Bytes consumed from the original file, which may be compressed
+export type ByteProgress = () => { bytesRead: number; totalBytes: number };
+
+export interface ArchiveEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+}
+
+export interface FilePreview {
+  fields: string[];
+  rows: RawRow[];
+}
+
+export interface TableReader {
+  format: FileFormat;
+  label: string;
+  extensions: string[];
+  read: (file: File, options: ReadOptions, onChunk: ChunkHandler) => Promise<void>;
+  preview: (file: File, options: ReadOptions, rowCount: number) => Promise<FilePreview>;
+  // Formats that can be parsed straight from a decompressed byte stream
+  readStream?: (stream: ReadableStream<Uint8Array>, progress: ByteProgress, onChunk: ChunkHandler) => Promise<void>;
+  listSheets?: (file: File) => Promise<string[]>;
+  listEntries?: (file: File) => Promise<ArchiveEntry[]>;
+}
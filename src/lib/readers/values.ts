@@ -0,0 +1,34 @@
+import { RawRow } from '../ingestion';
+
+// Typed values from JSON, Excel or Parquet flattened to the strings CSV would carry
+
+export function toRawValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function toRawRow(value: Record<string, unknown>): RawRow {
+  const row: RawRow = {};
+  for (const key of Object.keys(value)) {
+    row[key] = toRawValue(value[key]);
+  }
+  return row;
+}
+
+// Union of keys in first-seen order, for formats without a fixed header
+export function collectFields(rows: Record<string, unknown>[], fields: string[] = []): string[] {
+  const seen = new Set(fields);
+  const merged = [...fields];
+  rows.forEach(row => {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(key);
+      }
+    }
+  });
+  return merged;
+}
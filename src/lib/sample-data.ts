@@ -0,0 +1,47 @@
+import { AuxiliaryAggregateSet, aggregateRows } from './auxiliary-tables';
+import { DEFAULT_SEED } from './random';
+import { DEFAULT_SCENARIO, HomeCreditRecord, generateAuxiliaryTables, generateCompleteDataset } from './synthetic-data';
+
+// The built-in sample, shared by startup and the uploader so that one seed
+// always gives the same records and history.
+
+export const SAMPLE_SIZE = 10000;
+
+export interface SampleOptions {
+  // EXT_SOURCE_1/2/3 scores
+  extSources: boolean;
+  // Linked bureau and installment history, aggregated like uploaded tables
+  history: boolean;
+}
+
+export const DEFAULT_SAMPLE_OPTIONS: SampleOptions = { extSources: true, history: true };
+
+export interface SampleDataset {
+  records: HomeCreditRecord[];
+  auxiliary: AuxiliaryAggregateSet;
+}
+
+export function generateSampleRecords(
+  count: number,
+  seed: number = DEFAULT_SEED,
+  options: SampleOptions = DEFAULT_SAMPLE_OPTIONS
+): HomeCreditRecord[] {
+  return generateCompleteDataset(count, seed, DEFAULT_SCENARIO, { extSources: options.extSources });
+}
+
+export function generateSampleDataset(
+  seed: number = DEFAULT_SEED,
+  options: SampleOptions = DEFAULT_SAMPLE_OPTIONS
+): SampleDataset {
+  const records = generateSampleRecords(SAMPLE_SIZE, seed, options);
+  if (!options.history) return { records, auxiliary: {} };
+
+  const tables = generateAuxiliaryTables(records, seed);
+  return {
+    records,
+    auxiliary: {
+      bureau: aggregateRows('bureau', tables.bureau),
+      installments_payments: aggregateRows('installments_payments', tables.installments_payments)
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { CohortSettings, DEFAULT_COHORTS, DEFAULT_SCENARIO, ScenarioParameters, generateSyntheticData } from './synthetic-data';
+import { loadJSON, saveJSON } from './local-store';
+
+// Named generator scenarios: built-in presets plus user-saved ones
+// kept in localStorage, each a full set of ScenarioParameters.
+
+export interface Scenario {
+  id: string;
+  name: string;
+  parameters: ScenarioParameters;
+  builtIn?: boolean;
+}
+
+const SCENARIOS_KEY = 'scenarios';
+const PREVIEW_RECORDS = 5000;
+
+export const PRESET_SCENARIOS: Scenario[] = [
+  { id: 'preset:baseline', name: 'Baseline', builtIn: true, parameters: DEFAULT_SCENARIO },
+  {
+    id: 'preset:recession',
+    name: 'Recession',
+    builtIn: true,
+    parameters: {
+      ...DEFAULT_SCENARIO,
+      baselineDefaultRate: 0.12,
+      incomeLogMean: 11.3,
+      unemploymentRate: 0.2,
+      multipliers: {
+        ...DEFAULT_SCENARIO.multipliers,
+        incomeUnder100k: 2.5,
+        employedUnder1Year: 2.2
+      }
+    }
+  },
+  {
+    id: 'preset:young',
+    name: 'Young-skewed portfolio',
+    builtIn: true,
+    parameters: {
+      ...DEFAULT_SCENARIO,
+      ageMean: 28,
+      ageStd: 8,
+      incomeLogMean: 11.2,
+      unemploymentRate: 0.15
+    }
+  },
+  {
+    id: 'preset:drifting-downturn',
+    name: 'Drifting downturn (24 months)',
+    builtIn: true,
+    parameters: {
+      ...DEFAULT_SCENARIO,
+      cohorts: {
+        ...DEFAULT_COHORTS,
+        incomeDrift: -0.2,
+        defaultRateDrift: 0.75,
+        occupationDrift: { occupation: 'Low-skill Laborers', share: 0.3 }
+      }
+    }
+  }
+];
+
+// Keys edited in the scenario builder, with the bounds the generator supports
+export const PARAMETER_BOUNDS: Record<Exclude<keyof ScenarioParameters, 'multipliers' | 'cohorts'>, [number, number]> = {
+  baselineDefaultRate: [0, 0.5],
+  incomeLogMean: [9, 14],
+  incomeLogStd: [0, 2],
+  ageMean: [18, 80],
+  ageStd: [0, 30],
+  unemploymentRate: [0, 1],
+  femaleShare: [0, 1]
+};
+
+export const MULTIPLIER_BOUNDS: [number, number] = [0, 10];
+
+export const COHORT_BOUNDS: Record<'months' | 'incomeDrift' | 'defaultRateDrift', [number, number]> = {
+  months: [1, 120],
+  incomeDrift: [-1, 1],
+  defaultRateDrift: [-1, 4]
+};
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Out-of-range parameters, by name; empty when the scenario can be generated
+export function validateScenario(parameters: ScenarioParameters): string[] {
+  const outOfRange = (value: number, [min, max]: [number, number]) =>
+    !Number.isFinite(value) || value < min || value > max;
+
+  return [
+    ...Object.entries(PARAMETER_BOUNDS)
+      .filter(([key, bounds]) => outOfRange(parameters[key as keyof typeof PARAMETER_BOUNDS], bounds))
+      .map(([key]) => key),
+    ...Object.entries(parameters.multipliers)
+      .filter(([, value]) => outOfRange(value, MULTIPLIER_BOUNDS))
+      .map(([key]) => `multipliers.${key}`),
+    ...(parameters.cohorts ? validateCohorts(parameters.cohorts, outOfRange) : [])
+  ];
+}
+
+function validateCohorts(
+  cohorts: CohortSettings,
+  outOfRange: (value: number, bounds: [number, number]) => boolean
+): string[] {
+  const invalid = Object.entries(COHORT_BOUNDS)
+    .filter(([key, bounds]) => outOfRange(cohorts[key as keyof typeof COHORT_BOUNDS], bounds))
+    .map(([key]) => `cohorts.${key}`);
+  if (!Number.isInteger(cohorts.months)) invalid.push('cohorts.months');
+  if (!MONTH_PATTERN.test(cohorts.startMonth)) invalid.push('cohorts.startMonth');
+  if (cohorts.occupationDrift && outOfRange(cohorts.occupationDrift.share, [0, 1])) {
+    invalid.push('cohorts.occupationDrift');
+  }
+  return Array.from(new Set(invalid));
+}
+
+// Default rate of a sample drawn with the scenario, as a percentage
+export function previewDefaultRate(parameters: ScenarioParameters, seed: number): number {
+  const sample = generateSyntheticData(PREVIEW_RECORDS, seed, parameters);
+  return (sample.filter(record => record.TARGET === 1).length / sample.length) * 100;
+}
+
+export function loadScenarios(): Scenario[] {
+  return [...PRESET_SCENARIOS, ...loadJSON<Scenario[]>(SCENARIOS_KEY, [])];
+}
+
+export function saveScenario(name: string, parameters: ScenarioParameters): Scenario[] {
+  // Saving under an existing name replaces that scenario
+  const saved = loadJSON<Scenario[]>(SCENARIOS_KEY, []).filter(scenario => scenario.name !== name);
+  saved.push({ id: crypto.randomUUID(), name, parameters });
+  saveJSON(SCENARIOS_KEY, saved);
+  return [...PRESET_SCENARIOS, ...saved];
+}
+
+export function deleteScenario(id: string): Scenario[] {
+  const saved = loadJSON<Scenario[]>(SCENARIOS_KEY, []).filter(scenario => scenario.id !== id);
+  saveJSON(SCENARIOS_KEY, saved);
+  return [...PRESET_SCENARIOS, ...saved];
+}
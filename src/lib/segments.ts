@@ -0,0 +1,90 @@
+import { FilterState, parseFilters, serializeFilters } from './filters';
+import { loadJSON, saveJSON } from './local-store';
+
+// Named, described filter combinations kept in localStorage and shared
+// between users as JSON files.
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string;
+  filters: FilterState;
+  createdAt: string;
+}
+
+const SEGMENTS_KEY = 'segments';
+const EXPORT_VERSION = 1;
+
+// Segments are stored in their serialized form, like exports
+interface StoredSegment {
+  id: string;
+  name: string;
+  description: string;
+  filters: unknown;
+  createdAt: string;
+}
+
+function toStored(segment: Segment): StoredSegment {
+  return { ...segment, filters: serializeFilters(segment.filters) };
+}
+
+function writeSegments(segments: Segment[]): Segment[] {
+  saveJSON(SEGMENTS_KEY, segments.map(toStored));
+  return segments;
+}
+
+export function loadSegments(): Segment[] {
+  // Entries that no longer parse are skipped rather than breaking the library
+  return loadJSON<StoredSegment[]>(SEGMENTS_KEY, []).flatMap(stored => {
+    try {
+      return [{ ...stored, filters: parseFilters(stored.filters) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function saveSegment(name: string, description: string, filters: FilterState): Segment[] {
+  // Saving under an existing name replaces that segment
+  const segments = loadSegments().filter(segment => segment.name !== name);
+  segments.push({ id: crypto.randomUUID(), name, description, filters, createdAt: new Date().toISOString() });
+  return writeSegments(segments);
+}
+
+export function deleteSegment(id: string): Segment[] {
+  return writeSegments(loadSegments().filter(segment => segment.id !== id));
+}
+
+export function exportSegments(segments: Segment[]): unknown {
+  return {
+    version: EXPORT_VERSION,
+    segments: segments.map(({ name, description, filters }) => ({ name, description, filters: serializeFilters(filters) }))
+  };
+}
+
+// Imported segments replace saved ones of the same name; returns the library
+// and how many segments the file held
+export function importSegments(value: unknown): { segments: Segment[]; imported: number } {
+  const entries = (value as { segments?: unknown })?.segments;
+  if (!Array.isArray(entries)) throw new Error('Not a segments file');
+
+  const incoming = entries.map((entry, i) => {
+    const { name, description = '', filters } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`Segment ${i + 1} has no name`);
+    try {
+      return {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        description: String(description),
+        filters: parseFilters(filters),
+        createdAt: new Date().toISOString()
+      };
+    } catch (err) {
+      throw new Error(`Segment "${name}": ${err instanceof Error ? err.message : 'invalid filters'}`);
+    }
+  });
+
+  const names = new Set(incoming.map(segment => segment.name));
+  const segments = [...loadSegments().filter(segment => !names.has(segment.name)), ...incoming];
+  return { segments: writeSegments(segments), imported: incoming.length };
+}
@@ -0,0 +1,115 @@
+// Distribution helpers shared by the synthetic twin and segment comparisons
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+// Two-sample Kolmogorov–Smirnov statistic: largest gap between the empirical CDFs
+export function ksStatistic(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const x = [...a].sort((p, q) => p - q);
+  const y = [...b].sort((p, q) => p - q);
+  let i = 0;
+  let j = 0;
+  let gap = 0;
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] === value) i++;
+    while (j < y.length && y[j] === value) j++;
+    gap = Math.max(gap, Math.abs(i / x.length - j / y.length));
+  }
+  return gap;
+}
+
+// Total variation distance between two categorical count tables
+export function totalVariation(a: Map<string, number>, b: Map<string, number>): number {
+  const totalA = Array.from(a.values()).reduce((sum, count) => sum + count, 0);
+  const totalB = Array.from(b.values()).reduce((sum, count) => sum + count, 0);
+  if (totalA === 0 || totalB === 0) return 0;
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  let distance = 0;
+  keys.forEach(key => {
+    distance += Math.abs((a.get(key) ?? 0) / totalA - (b.get(key) ?? 0) / totalB);
+  });
+  return distance / 2;
+}
+
+// Pearson correlation of paired values
+export function correlation(x: number[], y: number[]): number {
+  const n = x.length;
+  if (n < 2) return 0;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  return sxx === 0 || syy === 0 ? 0 : sxy / Math.sqrt(sxx * syy);
+}
+
+export interface ProportionTest {
+  // Difference in percentage points (A - B)
+  difference: number;
+  z: number;
+  // Two-sided
+  pValue: number;
+}
+
+// Pooled two-proportion z-test; null when either group is empty or the pooled
+// proportion is 0 or 1 (no variance to test against)
+export function twoProportionTest(successesA: number, totalA: number, successesB: number, totalB: number): ProportionTest | null {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  if (pooled === 0 || pooled === 1) return null;
+  const difference = successesA / totalA - successesB / totalB;
+  const z = difference / Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  return { difference: difference * 100, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
@@ -1,9 +1,29 @@
 // Synthetic Home Credit Default Risk dataset generator
 // Based on the schema described in the Colab notebook
 
-export interface HomeCreditRecord {
+import { DAYS_EMPLOYED_SENTINEL } from './home-credit-schema';
+import type { RawRow } from './ingestion';
+import { DEFAULT_SEED, Random, createRandom, deriveSeed, randomNormal } from './random';
+import { normalCdf } from './stats';
+import { DEFAULT_INCOME_BRACKETS, IncomeBracketScheme, bracketIndex, incomeThresholds } from './income-brackets';
+
+type BuildingFeature =
+  | 'APARTMENTS' | 'BASEMENTAREA' | 'YEARS_BEGINEXPLUATATION' | 'YEARS_BUILD'
+  | 'COMMONAREA' | 'ELEVATORS' | 'ENTRANCES' | 'FLOORSMAX' | 'FLOORSMIN'
+  | 'LANDAREA' | 'LIVINGAPARTMENTS' | 'LIVINGAREA' | 'NONLIVINGAPARTMENTS' | 'NONLIVINGAREA';
+
+type BuildingInfoColumns = {
+  [K in `${BuildingFeature}_${'AVG' | 'MODE' | 'MEDI'}`]?: number | null;
+};
+
+type DocumentFlagColumns = {
+  [K in `FLAG_DOCUMENT_${2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15 | 16 | 17 | 18 | 19 | 20 | 21}`]?: 0 | 1 | null;
+};
+
+export interface HomeCreditRecord extends BuildingInfoColumns, DocumentFlagColumns {
   SK_ID_CURR: number;
-  TARGET: 0 | 1;
+  // null in unlabelled datasets (no TARGET column)
+  TARGET: 0 | 1 | null;
   CODE_GENDER: 'M' | 'F' | 'XNA';
   DAYS_BIRTH: number;
   DAYS_EMPLOYED: number;
@@ -21,6 +41,72 @@ export interface HomeCreditRecord {
   REGION_RATING_CLIENT: number;
   FLAG_OWN_CAR: 'Y' | 'N';
   FLAG_OWN_REALTY: 'Y' | 'N';
+
+  // Remaining application_train.csv columns (present on uploaded data, null when missing)
+  NAME_TYPE_SUITE?: string | null;
+  NAME_INCOME_TYPE?: string | null;
+  REGION_POPULATION_RELATIVE?: number | null;
+  DAYS_REGISTRATION?: number | null;
+  DAYS_ID_PUBLISH?: number | null;
+  OWN_CAR_AGE?: number | null;
+  FLAG_MOBIL?: 0 | 1 | null;
+  FLAG_EMP_PHONE?: 0 | 1 | null;
+  FLAG_WORK_PHONE?: 0 | 1 | null;
+  FLAG_CONT_MOBILE?: 0 | 1 | null;
+  FLAG_PHONE?: 0 | 1 | null;
+  FLAG_EMAIL?: 0 | 1 | null;
+  REGION_RATING_CLIENT_W_CITY?: number | null;
+  WEEKDAY_APPR_PROCESS_START?: string | null;
+  HOUR_APPR_PROCESS_START?: number | null;
+  REG_REGION_NOT_LIVE_REGION?: 0 | 1 | null;
+  REG_REGION_NOT_WORK_REGION?: 0 | 1 | null;
+  LIVE_REGION_NOT_WORK_REGION?: 0 | 1 | null;
+  REG_CITY_NOT_LIVE_CITY?: 0 | 1 | null;
+  REG_CITY_NOT_WORK_CITY?: 0 | 1 | null;
+  LIVE_CITY_NOT_WORK_CITY?: 0 | 1 | null;
+  ORGANIZATION_TYPE?: string | null;
+  EXT_SOURCE_1?: number | null;
+  EXT_SOURCE_2?: number | null;
+  EXT_SOURCE_3?: number | null;
+  FONDKAPREMONT_MODE?: string | null;
+  HOUSETYPE_MODE?: string | null;
+  TOTALAREA_MODE?: number | null;
+  WALLSMATERIAL_MODE?: string | null;
+  EMERGENCYSTATE_MODE?: string | null;
+  OBS_30_CNT_SOCIAL_CIRCLE?: number | null;
+  DEF_30_CNT_SOCIAL_CIRCLE?: number | null;
+  OBS_60_CNT_SOCIAL_CIRCLE?: number | null;
+  DEF_60_CNT_SOCIAL_CIRCLE?: number | null;
+  DAYS_LAST_PHONE_CHANGE?: number | null;
+  AMT_REQ_CREDIT_BUREAU_HOUR?: number | null;
+  AMT_REQ_CREDIT_BUREAU_DAY?: number | null;
+  AMT_REQ_CREDIT_BUREAU_WEEK?: number | null;
+  AMT_REQ_CREDIT_BUREAU_MON?: number | null;
+  AMT_REQ_CREDIT_BUREAU_QRT?: number | null;
+  AMT_REQ_CREDIT_BUREAU_YEAR?: number | null;
+
+  // Application month (YYYY-MM) on time-indexed data
+  APPLICATION_MONTH?: string | null;
+
+  // Aggregates joined from auxiliary tables (see auxiliary-tables.ts)
+  BUREAU_LOAN_COUNT?: number;
+  BUREAU_ACTIVE_LOANS?: number;
+  BUREAU_MAX_DAYS_OVERDUE?: number | null;
+  BUREAU_TOTAL_DEBT?: number;
+  BUREAU_MEAN_CREDIT?: number | null;
+  BUREAU_BALANCE_MONTHS?: number;
+  BUREAU_BALANCE_MAX_STATUS?: number | null;
+  PREV_APP_COUNT?: number;
+  PREV_APP_REFUSED_RATE?: number | null;
+  PREV_APP_MEAN_CREDIT?: number | null;
+  POS_MONTHS_COUNT?: number;
+  POS_MAX_DPD?: number | null;
+  CC_MEAN_UTILIZATION?: number | null;
+  CC_MAX_DPD?: number | null;
+  INST_COUNT?: number;
+  INST_MEAN_PAYMENT_RATIO?: number | null;
+  INST_LATE_RATE?: number | null;
+  INST_MAX_DAYS_LATE?: number | null;
   
   // Derived fields (calculated during preprocessing)
   AGE_YEARS?: number;
@@ -28,7 +114,11 @@ export interface HomeCreditRecord {
   DTI?: number;
   LOAN_TO_INCOME?: number;
   ANNUITY_TO_CREDIT?: number;
-  INCOME_BRACKET?: 'Low' | 'Mid' | 'High';
+  // Label from the dataset's income bracketing scheme (see income-brackets.ts)
+  INCOME_BRACKET?: string;
+
+  // Columns outside the known schema, typed during ingestion
+  [column: string]: string | number | null | undefined;
 }
 
 // Reference data for synthetic generation
@@ -80,107 +170,314 @@ const occupationTypes = [
 
 const contractTypes = ["Cash loans", "Revolving loans"];
 
+export const OCCUPATION_TYPES = occupationTypes;
+
+// "2024-01" plus 14 months is "2025-03"
+export function offsetMonth(month: string, offset: number): string {
+  const [year, monthOfYear] = month.split('-').map(Number);
+  const index = year * 12 + (monthOfYear - 1) + offset;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+// Scenario in effect at a point of the cohort range, t from 0 (first month) to 1 (last)
+function driftedScenario(scenario: ScenarioParameters, t: number): ScenarioParameters {
+  const { cohorts } = scenario;
+  if (!cohorts || t === 0) return scenario;
+  return {
+    ...scenario,
+    incomeLogMean: scenario.incomeLogMean + cohorts.incomeDrift * t,
+    baselineDefaultRate: scenario.baselineDefaultRate * (1 + cohorts.defaultRateDrift * t)
+  };
+}
+
+// Generator parameters; DEFAULT_SCENARIO reproduces the original constants
+export interface RiskMultipliers {
+  ageUnder25: number;
+  age25To35: number;
+  ageOver65: number;
+  incomeUnder100k: number;
+  income100kTo200k: number;
+  incomeOver500k: number;
+  higherEducation: number;
+  lowerSecondary: number;
+  employedUnder1Year: number;
+  employedOver10Years: number;
+}
+
+export interface ScenarioParameters {
+  baselineDefaultRate: number;
+  // Log-scale location and spread of annual income
+  incomeLogMean: number;
+  incomeLogStd: number;
+  ageMean: number;
+  ageStd: number;
+  unemploymentRate: number;
+  femaleShare: number;
+  multipliers: RiskMultipliers;
+  // Spread applications over months, optionally drifting over time
+  cohorts?: CohortSettings | null;
+}
+
+// Drift is linear in time: none in the first month, the full amount in the last
+export interface CohortSettings {
+  startMonth: string; // YYYY-MM
+  months: number;
+  // Added to the income log-mean (0.1 ≈ +10% incomes)
+  incomeDrift: number;
+  // Relative change in the baseline default rate (0.5 = +50%)
+  defaultRateDrift: number;
+  // Extra share of applicants moved into this occupation
+  occupationDrift: { occupation: string; share: number } | null;
+}
+
+export const DEFAULT_COHORTS: CohortSettings = {
+  startMonth: '2024-01',
+  months: 24,
+  incomeDrift: 0,
+  defaultRateDrift: 0,
+  occupationDrift: null
+};
+
+export const DEFAULT_SCENARIO: ScenarioParameters = {
+  baselineDefaultRate: 0.08,
+  incomeLogMean: 11.5, // ~100k average
+  incomeLogStd: 0.8,
+  ageMean: 42,
+  ageStd: 12,
+  unemploymentRate: 0.1,
+  femaleShare: 0.35,
+  multipliers: {
+    ageUnder25: 1.5,
+    age25To35: 1.2,
+    ageOver65: 1.3,
+    incomeUnder100k: 2.0,
+    income100kTo200k: 1.4,
+    incomeOver500k: 0.6,
+    higherEducation: 0.7,
+    lowerSecondary: 1.4,
+    employedUnder1Year: 1.8,
+    employedOver10Years: 0.8
+  }
+};
+
+export interface GeneratorOptions {
+  // EXT_SOURCE_1/2/3 scores correlated with TARGET, with realistic missingness
+  extSources?: boolean;
+}
+
 // Realistic probability distributions for default risk
 function getDefaultRiskByProfile(
   age: number,
   income: number, 
   education: string,
-  employment: number
+  employment: number,
+  scenario: ScenarioParameters
 ): number {
-  let baseRisk = 0.08; // 8% baseline default rate
+  const m = scenario.multipliers;
+  let baseRisk = scenario.baselineDefaultRate;
   
   // Age factor (younger = higher risk)
-  if (age < 25) baseRisk *= 1.5;
-  else if (age < 35) baseRisk *= 1.2;
-  else if (age > 65) baseRisk *= 1.3;
+  if (age < 25) baseRisk *= m.ageUnder25;
+  else if (age < 35) baseRisk *= m.age25To35;
+  else if (age > 65) baseRisk *= m.ageOver65;
   
   // Income factor (lower income = higher risk)
-  if (income < 100000) baseRisk *= 2.0;
-  else if (income < 200000) baseRisk *= 1.4;
-  else if (income > 500000) baseRisk *= 0.6;
+  if (income < 100000) baseRisk *= m.incomeUnder100k;
+  else if (income < 200000) baseRisk *= m.income100kTo200k;
+  else if (income > 500000) baseRisk *= m.incomeOver500k;
   
   // Education factor
   if (education === "Higher education" || education === "Academic degree") {
-    baseRisk *= 0.7;
+    baseRisk *= m.higherEducation;
   } else if (education === "Lower secondary") {
-    baseRisk *= 1.4;
+    baseRisk *= m.lowerSecondary;
   }
   
   // Employment stability
-  if (employment < 1) baseRisk *= 1.8;
-  else if (employment > 10) baseRisk *= 0.8;
+  if (employment < 1) baseRisk *= m.employedUnder1Year;
+  else if (employment > 10) baseRisk *= m.employedOver10Years;
   
   return Math.min(0.5, baseRisk); // Cap at 50%
 }
 
 // Generate random value within realistic ranges
-function randomIncome(): number {
+function randomIncome(random: Random, scenario: ScenarioParameters): number {
   // Log-normal distribution for realistic income distribution
-  const mean = 11.5; // ~100k average
-  const stdDev = 0.8;
-  const normal = Math.random() * Math.random() * Math.random(); // Approximate normal
-  return Math.exp(mean + stdDev * (normal - 0.5) * 6) * (0.5 + Math.random() * 0.5);
+  const mean = scenario.incomeLogMean;
+  const stdDev = scenario.incomeLogStd;
+  const normal = random() * random() * random(); // Approximate normal
+  return Math.exp(mean + stdDev * (normal - 0.5) * 6) * (0.5 + random() * 0.5);
 }
 
-function randomAge(): number {
-  // Normal distribution centered around 42 years
-  const mean = 42;
-  const stdDev = 12;
+function randomAge(random: Random, scenario: ScenarioParameters): number {
+  // Normal distribution centered around the scenario's mean age
+  const mean = scenario.ageMean;
+  const stdDev = scenario.ageStd;
   let age;
   do {
-    age = mean + stdDev * (Math.random() + Math.random() - 1);
+    age = mean + stdDev * (random() + random() - 1);
   } while (age < 18 || age > 80);
   return Math.round(age);
 }
 
-function randomCredit(income: number): number {
+function randomCredit(income: number, random: Random): number {
   // Credit amount typically 2-8x annual income
-  const multiplier = 2 + Math.random() * 6;
-  return income * multiplier * (0.8 + Math.random() * 0.4);
+  const multiplier = 2 + random() * 6;
+  return income * multiplier * (0.8 + random() * 0.4);
 }
 
-export function generateSyntheticData(numRecords: number = 10000): HomeCreditRecord[] {
+// The same seed always produces the same records
+export function generateSyntheticData(
+  numRecords: number = 10000,
+  seed: number = DEFAULT_SEED,
+  baseScenario: ScenarioParameters = DEFAULT_SCENARIO,
+  options: GeneratorOptions = {}
+): HomeCreditRecord[] {
+  const random = createRandom(seed);
   const records: HomeCreditRecord[] = [];
+  const { cohorts } = baseScenario;
+  // Occupation drift draws from its own stream so other fields keep their values
+  const cohortRandom = createRandom(deriveSeed(seed, 3));
   
   for (let i = 0; i < numRecords; i++) {
-    const age = randomAge();
-    const income = randomIncome();
-    const education = educationTypes[Math.floor(Math.random() * educationTypes.length)];
-    const employment = Math.random() > 0.1 ? Math.random() * 25 : -1; // 10% unemployed
+    // Records are spread evenly over the months in SK_ID_CURR order
+    const monthIndex = cohorts ? Math.floor((i * cohorts.months) / numRecords) : 0;
+    const t = cohorts && cohorts.months > 1 ? monthIndex / (cohorts.months - 1) : 0;
+    const scenario = driftedScenario(baseScenario, t);
+
+    const age = randomAge(random, scenario);
+    const income = randomIncome(random, scenario);
+    const education = educationTypes[Math.floor(random() * educationTypes.length)];
+    const employment = random() > scenario.unemploymentRate ? random() * 25 : -1;
     
     // Calculate default probability based on profile
-    const defaultRisk = getDefaultRiskByProfile(age, income, education, employment);
-    const target = Math.random() < defaultRisk ? 1 : 0;
+    const defaultRisk = getDefaultRiskByProfile(age, income, education, employment, scenario);
+    const target = random() < defaultRisk ? 1 : 0;
     
-    const credit = randomCredit(income);
-    const annuity = credit * (0.05 + Math.random() * 0.15) / 12; // 5-20% annual rate, monthly payment
+    const credit = randomCredit(income, random);
+    const annuity = credit * (0.05 + random() * 0.15) / 12; // 5-20% annual rate, monthly payment
     
     const record: HomeCreditRecord = {
       SK_ID_CURR: 100000 + i,
       TARGET: target as 0 | 1,
-      CODE_GENDER: Math.random() > 0.65 ? 'F' : Math.random() > 0.95 ? 'XNA' : 'M',
+      CODE_GENDER: random() > 1 - scenario.femaleShare ? 'F' : random() > 0.95 ? 'XNA' : 'M',
       DAYS_BIRTH: -Math.round(age * 365.25),
-      DAYS_EMPLOYED: employment > 0 ? -Math.round(employment * 365.25) : 365243, // 365243 is unemployed code
-      NAME_FAMILY_STATUS: familyStatusTypes[Math.floor(Math.random() * familyStatusTypes.length)],
-      CNT_CHILDREN: Math.random() > 0.4 ? 0 : Math.floor(Math.random() * 4),
-      CNT_FAM_MEMBERS: 1 + Math.floor(Math.random() * 5),
+      DAYS_EMPLOYED: employment > 0 ? -Math.round(employment * 365.25) : DAYS_EMPLOYED_SENTINEL, // unemployed code
+      NAME_FAMILY_STATUS: familyStatusTypes[Math.floor(random() * familyStatusTypes.length)],
+      CNT_CHILDREN: random() > 0.4 ? 0 : Math.floor(random() * 4),
+      CNT_FAM_MEMBERS: 1 + Math.floor(random() * 5),
       NAME_EDUCATION_TYPE: education,
-      OCCUPATION_TYPE: Math.random() > 0.05 ? occupationTypes[Math.floor(Math.random() * occupationTypes.length)] : "",
-      NAME_HOUSING_TYPE: housingTypes[Math.floor(Math.random() * housingTypes.length)],
+      OCCUPATION_TYPE: random() > 0.05 ? occupationTypes[Math.floor(random() * occupationTypes.length)] : "",
+      NAME_HOUSING_TYPE: housingTypes[Math.floor(random() * housingTypes.length)],
       AMT_INCOME_TOTAL: Math.round(income),
       AMT_CREDIT: Math.round(credit),
       AMT_ANNUITY: Math.round(annuity),
-      AMT_GOODS_PRICE: Math.round(credit * (0.8 + Math.random() * 0.4)),
-      NAME_CONTRACT_TYPE: contractTypes[Math.floor(Math.random() * contractTypes.length)],
-      REGION_RATING_CLIENT: 1 + Math.floor(Math.random() * 3),
-      FLAG_OWN_CAR: Math.random() > 0.5 ? 'Y' : 'N',
-      FLAG_OWN_REALTY: Math.random() > 0.3 ? 'Y' : 'N'
+      AMT_GOODS_PRICE: Math.round(credit * (0.8 + random() * 0.4)),
+      NAME_CONTRACT_TYPE: contractTypes[Math.floor(random() * contractTypes.length)],
+      REGION_RATING_CLIENT: 1 + Math.floor(random() * 3),
+      FLAG_OWN_CAR: random() > 0.5 ? 'Y' : 'N',
+      FLAG_OWN_REALTY: random() > 0.3 ? 'Y' : 'N'
     };
+
+    if (cohorts) {
+      record.APPLICATION_MONTH = offsetMonth(cohorts.startMonth, monthIndex);
+      const drift = cohorts.occupationDrift;
+      if (drift && record.OCCUPATION_TYPE && cohortRandom() < drift.share * t) {
+        record.OCCUPATION_TYPE = drift.occupation;
+      }
+    }
     
     records.push(record);
   }
   
-  return records;
+  return options.extSources ? addExtSources(records, seed) : records;
+}
+
+// Share of missing values per EXT_SOURCE column, as in application_train.csv
+const EXT_SOURCE_MISSING_RATES = [0.56, 0.002, 0.2];
+
+// External scores share a creditworthiness factor that is lower for
+// defaulters; EXT_SOURCE_1 also rises with age, as in the real data
+function addExtSources(records: HomeCreditRecord[], seed: number): HomeCreditRecord[] {
+  const random = createRandom(deriveSeed(seed, 1));
+
+  return records.map(record => {
+    const factor = randomNormal(random) - (record.TARGET === 1 ? 0.9 : 0);
+    const ageEffect = (-record.DAYS_BIRTH / 365.25 - 42) / 40;
+    const [ext1, ext2, ext3] = EXT_SOURCE_MISSING_RATES.map((missingRate, i) => {
+      const latent = 0.6 * factor + 0.8 * randomNormal(random) + (i === 0 ? ageEffect : 0);
+      if (random() < missingRate) return null;
+      return Math.round(normalCdf(latent) * 1e6) / 1e6;
+    });
+    return { ...record, EXT_SOURCE_1: ext1, EXT_SOURCE_2: ext2, EXT_SOURCE_3: ext3 };
+  });
+}
+
+export interface SyntheticAuxiliaryTables {
+  bureau: RawRow[];
+  installments_payments: RawRow[];
+}
+
+const bureauCreditTypes = ["Consumer credit", "Credit card", "Car loan", "Mortgage", "Microloan"];
+
+// Bureau loans and installment histories linked to applicants by SK_ID_CURR.
+// Defaulters carry more overdue bureau loans and more late or short payments.
+// Rows use raw CSV values so they go through the same aggregation as uploads.
+export function generateAuxiliaryTables(records: HomeCreditRecord[], seed: number = DEFAULT_SEED): SyntheticAuxiliaryTables {
+  const random = createRandom(deriveSeed(seed, 2));
+  const bureau: RawRow[] = [];
+  const installments: RawRow[] = [];
+  let bureauId = 5000000;
+  let previousId = 1000000;
+
+  records.forEach(record => {
+    const risky = record.TARGET === 1;
+    const applicant = String(record.SK_ID_CURR);
+
+    // Bureau: 0-7 prior loans, 15% of applicants have none
+    const loans = random() < 0.15 ? 0 : 1 + Math.floor(random() * 7);
+    for (let i = 0; i < loans; i++) {
+      const active = random() < 0.35;
+      const amount = record.AMT_INCOME_TOTAL * (0.5 + random() * 2.5);
+      const overdue = random() < (risky ? 0.1 : 0.02) ? 1 + Math.floor(random() * 90) : 0;
+      bureau.push({
+        SK_ID_CURR: applicant,
+        SK_ID_BUREAU: String(bureauId++),
+        CREDIT_ACTIVE: active ? 'Active' : 'Closed',
+        CREDIT_TYPE: bureauCreditTypes[Math.floor(random() * bureauCreditTypes.length)],
+        DAYS_CREDIT: String(-Math.round(random() * 2900)),
+        CREDIT_DAY_OVERDUE: String(active ? overdue : 0),
+        AMT_CREDIT_SUM: amount.toFixed(2),
+        AMT_CREDIT_SUM_DEBT: (active ? amount * random() * 0.9 : 0).toFixed(2)
+      });
+    }
+
+    // Installments: 0-3 previous loans with 4-12 monthly payments each
+    const previousLoans = Math.floor(random() * 4);
+    for (let p = 0; p < previousLoans; p++) {
+      const prev = String(previousId++);
+      const instalment = record.AMT_ANNUITY * (0.3 + random() * 0.7);
+      const payments = 4 + Math.floor(random() * 9);
+      const start = -Math.round(60 + random() * 2500);
+      for (let n = 0; n < payments; n++) {
+        const due = start + n * 30;
+        const late = random() < (risky ? 0.15 : 0.04);
+        const short = random() < (risky ? 0.1 : 0.02);
+        installments.push({
+          SK_ID_PREV: prev,
+          SK_ID_CURR: applicant,
+          NUM_INSTALMENT_VERSION: '1',
+          NUM_INSTALMENT_NUMBER: String(n + 1),
+          DAYS_INSTALMENT: String(due),
+          DAYS_ENTRY_PAYMENT: String(late ? due + 1 + Math.floor(random() * 60) : due - Math.floor(random() * 10)),
+          AMT_INSTALMENT: instalment.toFixed(2),
+          AMT_PAYMENT: (short ? instalment * (0.3 + random() * 0.6) : instalment).toFixed(2)
+        });
+      }
+    }
+  });
+
+  return { bureau, installments_payments: installments };
 }
 
 // Add derived fields based on the specification
@@ -188,7 +485,7 @@ export function preprocessData(records: HomeCreditRecord[]): HomeCreditRecord[]
   return records.map(record => {
     // Convert days to years
     const ageYears = -record.DAYS_BIRTH / 365.25;
-    const employmentYears = record.DAYS_EMPLOYED === 365243 ? 0 : -record.DAYS_EMPLOYED / 365.25;
+    const employmentYears = record.DAYS_EMPLOYED === DAYS_EMPLOYED_SENTINEL ? 0 : -record.DAYS_EMPLOYED / 365.25;
     
     // Calculate financial ratios
     const dti = record.AMT_ANNUITY / record.AMT_INCOME_TOTAL;
@@ -206,23 +503,29 @@ export function preprocessData(records: HomeCreditRecord[]): HomeCreditRecord[]
   });
 }
 
-// Add income brackets based on quartiles
-export function addIncomeBrackets(records: HomeCreditRecord[]): HomeCreditRecord[] {
-  const incomes = records.map(r => r.AMT_INCOME_TOTAL).sort((a, b) => a - b);
-  const q1 = incomes[Math.floor(incomes.length * 0.25)];
-  const q3 = incomes[Math.floor(incomes.length * 0.75)];
+// Add income brackets; by default Low/Mid/High split at the quartiles
+export function addIncomeBrackets(
+  records: HomeCreditRecord[],
+  scheme: IncomeBracketScheme = DEFAULT_INCOME_BRACKETS
+): HomeCreditRecord[] {
+  const thresholds = incomeThresholds(records.map(r => r.AMT_INCOME_TOTAL), scheme);
   
   return records.map(record => ({
     ...record,
-    INCOME_BRACKET: record.AMT_INCOME_TOTAL <= q1 ? 'Low' as const 
-      : record.AMT_INCOME_TOTAL >= q3 ? 'High' as const 
-      : 'Mid' as const
+    INCOME_BRACKET: Number.isFinite(record.AMT_INCOME_TOTAL)
+      ? scheme.labels[bracketIndex(record.AMT_INCOME_TOTAL, thresholds)]
+      : undefined
   }));
 }
 
 // Generate and preprocess a complete dataset
-export function generateCompleteDataset(numRecords: number = 10000): HomeCreditRecord[] {
-  const raw = generateSyntheticData(numRecords);
+export function generateCompleteDataset(
+  numRecords: number = 10000,
+  seed: number = DEFAULT_SEED,
+  scenario: ScenarioParameters = DEFAULT_SCENARIO,
+  options: GeneratorOptions = {}
+): HomeCreditRecord[] {
+  const raw = generateSyntheticData(numRecords, seed, scenario, options);
   const processed = preprocessData(raw);
   return addIncomeBrackets(processed);
 }
\ No newline at end of file
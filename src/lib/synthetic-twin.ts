@@ -0,0 +1,400 @@
+import { HomeCreditRecord } from './synthetic-data';
+import { APPLICATION_COLUMNS, CORE_COLUMNS, LABEL_COLUMN } from './home-credit-schema';
+import { finalizeRecords } from './ingestion';
+import { Random, createRandom, randomNormal } from './random';
+import { correlation, ksStatistic, mean, normalCdf, normalQuantile, totalVariation } from './stats';
+
+// Synthetic twin of an uploaded dataset.
+// Numeric columns share a Gaussian copula: each keeps its own marginal
+// (a clipped quantile grid) while their dependence comes from the
+// correlation of normal scores. Categorical columns are sampled from
+// tables conditioned on the label and on a quartile of their most
+// associated numeric column. No source row is copied: tails are clipped,
+// rare categories dropped and values interpolated between quantiles.
+
+interface NumericMarginal {
+  column: string;
+  integer: boolean;
+  quantiles: number[];
+  missingRate: number;
+}
+
+interface CategoricalModel {
+  column: string;
+  // Index into TwinModel.numeric of the conditioning column, or -1
+  parent: number;
+  // Counts keyed by "label|bin", "label|*" and "*|*"
+  tables: Record<string, [string | null, number][]>;
+}
+
+export interface TwinModel {
+  sourceRows: number;
+  labelled: boolean;
+  numeric: NumericMarginal[];
+  cholesky: number[][];
+  categorical: CategoricalModel[];
+}
+
+export interface ColumnFidelity {
+  column: string;
+  type: 'numeric' | 'categorical';
+  // KS statistic for numeric columns, total variation for categorical ones
+  distance: number;
+  realMean: number | null;
+  syntheticMean: number | null;
+}
+
+export interface SegmentFidelity {
+  column: string;
+  category: string;
+  realRate: number;
+  syntheticRate: number;
+}
+
+export interface FidelityReport {
+  realRows: number;
+  syntheticRows: number;
+  realDefaultRate: number | null;
+  syntheticDefaultRate: number | null;
+  defaultRateBySegment: SegmentFidelity[];
+  // Mean absolute difference between real and synthetic correlations
+  correlationError: number;
+  // Synthetic rows identical to a real row on every core column
+  exactCopies: number;
+  columns: ColumnFidelity[];
+}
+
+const MAX_FIT_ROWS = 20000;
+const MAX_COPULA_COLUMNS = 40;
+const QUANTILE_POINTS = 201;
+// Share of each tail left out of the marginals
+const TAIL = 0.001;
+const PARENT_BINS = 4;
+const MIN_CATEGORY_COUNT = 5;
+const MIN_CELL_COUNT = 20;
+const MISSING_KEY = '\u0000';
+const SEGMENT_COLUMNS = ['CODE_GENDER', 'NAME_EDUCATION_TYPE', 'NAME_CONTRACT_TYPE'];
+
+const isMissing = (value: unknown) => value === null || value === undefined || (typeof value === 'number' && Number.isNaN(value));
+
+function sampleRows(records: HomeCreditRecord[], limit: number, random: Random): HomeCreditRecord[] {
+  if (records.length <= limit) return records;
+  // Partial Fisher–Yates over indices
+  const indices = records.map((_, i) => i);
+  for (let i = 0; i < limit; i++) {
+    const j = i + Math.floor(random() * (indices.length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, limit).map(i => records[i]);
+}
+
+function numericValues(rows: HomeCreditRecord[], column: string): (number | null)[] {
+  return rows.map(row => {
+    const value = row[column];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  });
+}
+
+function buildQuantiles(present: number[]): number[] {
+  const sorted = [...present].sort((a, b) => a - b);
+  return Array.from({ length: QUANTILE_POINTS }, (_, k) => {
+    const p = TAIL + (k / (QUANTILE_POINTS - 1)) * (1 - 2 * TAIL);
+    return sorted[Math.round(p * (sorted.length - 1))];
+  });
+}
+
+// Inverse CDF from the quantile grid. Repeated grid values are point masses
+// (flags, sentinels), so samples snap to them instead of interpolating across.
+function inverseMarginal(quantiles: number[], u: number): number {
+  const position = Math.min(Math.max(u, 0), 1) * (quantiles.length - 1);
+  const lo = Math.floor(position);
+  const hi = Math.min(lo + 1, quantiles.length - 1);
+  const a = quantiles[lo];
+  const b = quantiles[hi];
+  if (a === b) return a;
+  const atom = (k: number) => quantiles[k] === quantiles[k - 1] || quantiles[k] === quantiles[k + 1];
+  if (atom(lo) || atom(hi)) return position - lo < 0.5 ? a : b;
+  return a + (b - a) * (position - lo);
+}
+
+// Normal scores from mid-ranks; missing values sit at the centre
+function normalScores(values: (number | null)[]): number[] {
+  const present = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null)
+    .sort((a, b) => a.value - b.value);
+  const scores = values.map(() => 0);
+  let start = 0;
+  while (start < present.length) {
+    let end = start;
+    while (end + 1 < present.length && present[end + 1].value === present[start].value) end++;
+    const rank = (start + end) / 2 + 0.5;
+    const score = normalQuantile(rank / present.length);
+    for (let k = start; k <= end; k++) scores[present[k].index] = score;
+    start = end + 1;
+  }
+  return scores;
+}
+
+function tryCholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+// Shrinks towards the identity until the correlation matrix factorises
+function choleskyWithShrinkage(matrix: number[][]): number[][] {
+  for (const shrinkage of [0, 0.01, 0.05, 0.1, 0.25, 0.5, 1]) {
+    const shrunk = matrix.map((row, i) => row.map((value, j) => (i === j ? 1 : value * (1 - shrinkage))));
+    const lower = tryCholesky(shrunk);
+    if (lower) return lower;
+  }
+  return matrix.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+}
+
+const categoryKey = (value: unknown) => (isMissing(value) ? MISSING_KEY : String(value));
+const parentBin = (score: number) => Math.min(PARENT_BINS - 1, Math.floor(normalCdf(score) * PARENT_BINS));
+
+// Share of a categorical column's variance explained by the bins of a score
+function correlationRatio(categories: string[], scores: number[]): number {
+  const overall = mean(scores);
+  const groups = new Map<string, number[]>();
+  categories.forEach((category, i) => {
+    const group = groups.get(category) ?? [];
+    group.push(scores[i]);
+    groups.set(category, group);
+  });
+  let between = 0;
+  groups.forEach(group => {
+    between += group.length * (mean(group) - overall) ** 2;
+  });
+  const total = scores.reduce((sum, score) => sum + (score - overall) ** 2, 0);
+  return total === 0 ? 0 : between / total;
+}
+
+function countTable(entries: string[]): [string | null, number][] {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => counts.set(entry, (counts.get(entry) ?? 0) + 1));
+  return Array.from(counts.entries()).map(([key, count]) => [key === MISSING_KEY ? null : key, count]);
+}
+
+export function fitTwinModel(records: HomeCreditRecord[], seed: number): TwinModel {
+  const random = createRandom(seed);
+  const rows = sampleRows(records, MAX_FIT_ROWS, random);
+  const labelled = rows.some(row => row[LABEL_COLUMN] !== null);
+  const coreNames = new Set(CORE_COLUMNS.map(spec => spec.name));
+
+  // Numeric columns: core ones first, then the best-populated extended ones
+  const numericCandidates = APPLICATION_COLUMNS
+    .filter(spec => (spec.type === 'integer' || spec.type === 'float') && spec.name !== 'SK_ID_CURR')
+    .map(spec => ({ spec, values: numericValues(rows, spec.name) }))
+    .map(entry => ({ ...entry, present: entry.values.filter(value => value !== null).length }))
+    .filter(entry => entry.present > 0);
+  const numericColumns = [
+    ...numericCandidates.filter(entry => coreNames.has(entry.spec.name)),
+    ...numericCandidates.filter(entry => !coreNames.has(entry.spec.name)).sort((a, b) => b.present - a.present)
+  ].slice(0, MAX_COPULA_COLUMNS);
+
+  const numeric: NumericMarginal[] = numericColumns.map(({ spec, values, present }) => ({
+    column: spec.name,
+    integer: spec.type === 'integer',
+    quantiles: buildQuantiles(values.filter((value): value is number => value !== null)),
+    missingRate: 1 - present / rows.length
+  }));
+
+  const scores = numericColumns.map(({ values }) => normalScores(values));
+  const matrix = scores.map((a, i) => scores.map((b, j) => (i === j ? 1 : correlation(a, b))));
+
+  const labelIndex = numeric.findIndex(marginal => marginal.column === LABEL_COLUMN);
+  const labels = rows.map(row => (labelled && !isMissing(row[LABEL_COLUMN]) ? String(row[LABEL_COLUMN]) : '*'));
+
+  const categorical = APPLICATION_COLUMNS
+    .filter(spec => spec.type === 'category' || spec.type === 'flag')
+    .filter(spec => rows.some(row => !isMissing(row[spec.name])))
+    .map(spec => {
+      const categories = rows.map(row => categoryKey(row[spec.name]));
+      // Rare categories could single out individuals
+      const frequent = new Set(
+        countTable(categories).filter(([, count]) => count >= MIN_CATEGORY_COUNT).map(([key]) => key ?? MISSING_KEY)
+      );
+
+      let parent = -1;
+      let strongest = 0;
+      scores.forEach((columnScores, index) => {
+        if (index === labelIndex) return;
+        const ratio = correlationRatio(categories, columnScores);
+        if (ratio > strongest) {
+          strongest = ratio;
+          parent = index;
+        }
+      });
+
+      const cells = new Map<string, string[]>();
+      const add = (key: string, category: string) => {
+        const cell = cells.get(key) ?? [];
+        cell.push(category);
+        cells.set(key, cell);
+      };
+      categories.forEach((category, i) => {
+        if (!frequent.has(category)) return;
+        const bin = parent >= 0 ? parentBin(scores[parent][i]) : 0;
+        add(`${labels[i]}|${bin}`, category);
+        add(`${labels[i]}|*`, category);
+        add('*|*', category);
+      });
+
+      const tables: CategoricalModel['tables'] = {};
+      cells.forEach((cell, key) => {
+        if (cell.length >= MIN_CELL_COUNT || key === '*|*') tables[key] = countTable(cell);
+      });
+      return { column: spec.name, parent, tables };
+    })
+    .filter(model => model.tables['*|*']);
+
+  return {
+    sourceRows: records.length,
+    labelled,
+    numeric,
+    cholesky: choleskyWithShrinkage(matrix),
+    categorical
+  };
+}
+
+function pickWeighted(table: [string | null, number][], random: Random): string | null {
+  const total = table.reduce((sum, [, count]) => sum + count, 0);
+  let threshold = random() * total;
+  for (const [value, count] of table) {
+    threshold -= count;
+    if (threshold < 0) return value;
+  }
+  return table[table.length - 1][0];
+}
+
+export function sampleTwin(model: TwinModel, size: number, seed: number): HomeCreditRecord[] {
+  const random = createRandom(seed);
+  const k = model.numeric.length;
+  const records: HomeCreditRecord[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const normals = Array.from({ length: k }, () => randomNormal(random));
+    const latent = model.cholesky.map(row => row.reduce((sum, weight, j) => sum + weight * normals[j], 0));
+    const record: Record<string, string | number | null> = { SK_ID_CURR: 100000 + i };
+
+    model.numeric.forEach((marginal, j) => {
+      if (random() < marginal.missingRate) {
+        record[marginal.column] = null;
+        return;
+      }
+      const value = inverseMarginal(marginal.quantiles, normalCdf(latent[j]));
+      record[marginal.column] = marginal.integer ? Math.round(value) : Math.round(value * 100) / 100;
+    });
+
+    const label = model.labelled && !isMissing(record[LABEL_COLUMN]) ? String(record[LABEL_COLUMN]) : '*';
+    model.categorical.forEach(({ column, parent, tables }) => {
+      const bin = parent >= 0 ? parentBin(latent[parent]) : 0;
+      const table = tables[`${label}|${bin}`] ?? tables[`${label}|*`] ?? tables['*|*'];
+      record[column] = pickWeighted(table, random);
+    });
+
+    if (!model.labelled) record[LABEL_COLUMN] = null;
+    records.push(record as unknown as HomeCreditRecord);
+  }
+
+  return finalizeRecords(records);
+}
+
+function defaultRate(records: HomeCreditRecord[]): number | null {
+  const labelled = records.filter(record => record.TARGET !== null);
+  return labelled.length === 0 ? null : (labelled.filter(record => record.TARGET === 1).length / labelled.length) * 100;
+}
+
+function categoryCounts(records: HomeCreditRecord[], column: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  records.forEach(record => {
+    const key = categoryKey(record[column]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+// Compares marginals, dependence and default rates of real and synthetic data
+export function compareFidelity(real: HomeCreditRecord[], synthetic: HomeCreditRecord[], model: TwinModel): FidelityReport {
+  const random = createRandom(1);
+  const realRows = sampleRows(real, MAX_FIT_ROWS, random);
+  const syntheticRows = sampleRows(synthetic, MAX_FIT_ROWS, random);
+
+  const present = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+  const numericColumns: ColumnFidelity[] = model.numeric.map(({ column }) => {
+    const a = present(numericValues(realRows, column));
+    const b = present(numericValues(syntheticRows, column));
+    return {
+      column,
+      type: 'numeric',
+      distance: ksStatistic(a, b),
+      realMean: a.length > 0 ? mean(a) : null,
+      syntheticMean: b.length > 0 ? mean(b) : null
+    };
+  });
+  const categoricalColumns: ColumnFidelity[] = model.categorical.map(({ column }) => ({
+    column,
+    type: 'categorical',
+    distance: totalVariation(categoryCounts(realRows, column), categoryCounts(syntheticRows, column)),
+    realMean: null,
+    syntheticMean: null
+  }));
+
+  // Correlations over rows where both columns are present
+  const correlationOf = (rows: HomeCreditRecord[], x: string, y: string) => {
+    const pairs = rows.filter(row => !isMissing(row[x]) && !isMissing(row[y]));
+    return correlation(pairs.map(row => Number(row[x])), pairs.map(row => Number(row[y])));
+  };
+  const coreNumeric = model.numeric.filter(({ column }) => CORE_COLUMNS.some(spec => spec.name === column));
+  const errors: number[] = [];
+  coreNumeric.forEach((a, i) => {
+    coreNumeric.slice(i + 1).forEach(b => {
+      errors.push(Math.abs(correlationOf(realRows, a.column, b.column) - correlationOf(syntheticRows, a.column, b.column)));
+    });
+  });
+
+  const defaultRateBySegment = model.labelled
+    ? SEGMENT_COLUMNS.flatMap(column => {
+      const categories = Array.from(categoryCounts(realRows, column).entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([key]) => key);
+      return categories.map(category => ({
+        column,
+        category: category === MISSING_KEY ? '(missing)' : category,
+        realRate: defaultRate(real.filter(record => categoryKey(record[column]) === category)) ?? 0,
+        syntheticRate: defaultRate(synthetic.filter(record => categoryKey(record[column]) === category)) ?? 0
+      }));
+    })
+    : [];
+
+  const coreKey = (record: HomeCreditRecord) =>
+    CORE_COLUMNS.filter(spec => spec.name !== 'SK_ID_CURR').map(spec => categoryKey(record[spec.name])).join('|');
+  const realKeys = new Set(real.map(coreKey));
+
+  return {
+    realRows: real.length,
+    syntheticRows: synthetic.length,
+    realDefaultRate: defaultRate(real),
+    syntheticDefaultRate: defaultRate(synthetic),
+    defaultRateBySegment,
+    correlationError: mean(errors),
+    exactCopies: synthetic.filter(record => realKeys.has(coreKey(record))).length,
+    columns: [...numericColumns, ...categoricalColumns].sort((a, b) => b.distance - a.distance)
+  };
+}
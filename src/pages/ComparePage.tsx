@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import { ChartCard } from '@/components/dashboard/ChartCard';
+import { ComparisonKPICard } from '@/components/dashboard/ComparisonKPICard';
+import { UnlabelledNotice } from '@/components/dashboard/UnlabelledNotice';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeftRight, Columns2, Layers, Pin } from 'lucide-react';
+import { FilterState, describeFilters, filterFieldLabel } from '@/lib/filters';
+import { Segment } from '@/lib/segments';
+import {
+  COMPARE_CATEGORY_COLUMNS,
+  COMPARE_NUMERIC_COLUMNS,
+  ComparisonBaseline,
+  ComparisonColumns,
+  SegmentComparison,
+  baselineLabel,
+  formatDelta,
+  formatPValue,
+  isSignificant
+} from '@/lib/compare';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+
+interface ComparePageProps {
+  // Segment A (the records matching the active filters) against the baseline's
+  // segment B, as computed by the data engine
+  comparison: SegmentComparison;
+  columns: ComparisonColumns;
+  filters: FilterState;
+  labelled: boolean;
+  baseline: ComparisonBaseline;
+  // Saved segments offered as baselines
+  segments: Segment[];
+  onBaselineChange: (baseline: ComparisonBaseline) => void;
+  onColumnsChange: (columns: ComparisonColumns) => void;
+  onFiltersChange: (filters: FilterState) => void;
+}
+
+type ChartLayout = 'overlay' | 'side-by-side';
+
+const COLOR_A = 'hsl(var(--chart-1))';
+const COLOR_B = 'hsl(var(--chart-2))';
+
+interface ComparisonBarsProps {
+  rows: object[];
+  xKey: string;
+  keyA: string;
+  keyB: string;
+  labelA: string;
+  labelB: string;
+  layout: ChartLayout;
+  angled?: boolean;
+}
+
+// Overlaid: one chart with grouped A/B bars. Side by side: one chart per
+// segment on a shared y-axis so bar heights stay comparable
+function ComparisonBars({ rows, xKey, keyA, keyB, labelA, labelB, layout, angled }: ComparisonBarsProps) {
+  const xAxis = angled
+    ? <XAxis dataKey={xKey} angle={-45} textAnchor="end" height={80} fontSize={11} interval={0} />
+    : <XAxis dataKey={xKey} fontSize={11} />;
+  const formatter = (value: number | null) => (value === null ? '—' : `${Number(value).toFixed(1)}%`);
+
+  if (layout === 'overlay') {
+    return (
+      <ResponsiveContainer width="100%" height={280}>
+        <BarChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          {xAxis}
+          <YAxis unit="%" />
+          <Tooltip formatter={formatter} />
+          <Legend />
+          <Bar dataKey={keyA} name={labelA} fill={COLOR_A} />
+          <Bar dataKey={keyB} name={labelB} fill={COLOR_B} />
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  const top = Math.max(0, ...rows.flatMap(row => [Number(row[keyA]) || 0, Number(row[keyB]) || 0]));
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {[{ key: keyA, label: labelA, fill: COLOR_A }, { key: keyB, label: labelB, fill: COLOR_B }].map(side => (
+        <div key={side.key}>
+          <div className="text-xs font-medium text-muted-foreground mb-1">{side.label}</div>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              {xAxis}
+              <YAxis unit="%" domain={[0, Math.ceil(top)]} />
+              <Tooltip formatter={formatter} />
+              <Bar dataKey={side.key} name={side.label} fill={side.fill} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ComparePage({
+  comparison,
+  columns,
+  filters,
+  labelled,
+  baseline,
+  segments,
+  onBaselineChange,
+  onColumnsChange,
+  onFiltersChange
+}: ComparePageProps) {
+  const [layout, setLayout] = useState<ChartLayout>('overlay');
+  const { countA, countB, independent, metrics, categories, distribution } = comparison;
+  const { category: categoryColumn, numeric: numericColumn } = columns;
+
+  const describe = (state: FilterState) => describeFilters(state).join(' · ') || 'All records';
+  const labelA = 'A: ' + describe(filters);
+  const labelB = 'B: ' + baselineLabel(baseline);
+  // Significant category differences are starred on the chart axis
+  const categoryRows = categories.map(row => ({ ...row, name: isSignificant(row.test) ? `${row.label} *` : row.label }));
+
+  const selectBaseline = (value: string) => {
+    if (value === 'rest' || value === 'all') {
+      onBaselineChange({ kind: value });
+      return;
+    }
+    const segment = segments.find(s => `segment:${s.id}` === value);
+    if (segment) onBaselineChange({ kind: 'filters', label: segment.name, filters: segment.filters });
+  };
+
+  // Pinning freezes the current filters as B so A can be edited independently
+  const pin = () => onBaselineChange({ kind: 'filters', label: describe(filters), filters });
+  const swap = () => {
+    if (baseline.kind !== 'filters') return;
+    onBaselineChange({ kind: 'filters', label: describe(filters), filters });
+    onFiltersChange(baseline.filters);
+  };
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Segment Comparison</h1>
+        <p className="text-muted-foreground">
+          Segment A follows the active filters; pick or pin segment B to compare against
+        </p>
+      </div>
+
+      {/* Segment pickers */}
+      <div className="bg-card border rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="font-medium" style={{ color: COLOR_A }}>Segment A · {countA.toLocaleString()} records</div>
+            <div className="text-muted-foreground">{describe(filters)}</div>
+          </div>
+          <div>
+            <div className="font-medium" style={{ color: COLOR_B }}>Segment B · {countB.toLocaleString()} records</div>
+            <div className="text-muted-foreground">{baselineLabel(baseline)}</div>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={baseline.kind === 'filters' ? 'filters' : baseline.kind} onValueChange={selectBaseline}>
+            <SelectTrigger className="w-64 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rest">Everyone else</SelectItem>
+              <SelectItem value="all">All records</SelectItem>
+              {baseline.kind === 'filters' && (
+                <SelectItem value="filters">{baseline.label}</SelectItem>
+              )}
+              {segments.map(segment => (
+                <SelectItem key={segment.id} value={`segment:${segment.id}`}>Segment: {segment.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={pin}>
+            <Pin className="w-3 h-3 mr-1" />
+            Pin Current Filters as B
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 text-xs" disabled={baseline.kind !== 'filters'} onClick={swap}>
+            <ArrowLeftRight className="w-3 h-3 mr-1" />
+            Swap A and B
+          </Button>
+          <div className="flex-1" />
+          <Button
+            variant={layout === 'overlay' ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setLayout('overlay')}
+          >
+            <Layers className="w-3 h-3 mr-1" />
+            Overlaid
+          </Button>
+          <Button
+            variant={layout === 'side-by-side' ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setLayout('side-by-side')}
+          >
+            <Columns2 className="w-3 h-3 mr-1" />
+            Side by Side
+          </Button>
+        </div>
+        {!independent && (
+          <p className="text-xs text-muted-foreground">
+            The segments share records, so significance tests are not shown; compare against everyone else
+            for independent groups.
+          </p>
+        )}
+      </div>
+
+      {countA === 0 || countB === 0 ? (
+        <div className="flex items-center justify-center h-[200px] text-sm text-muted-foreground border rounded-lg">
+          {countA === 0 ? 'Segment A has no records' : 'Segment B has no records'}
+        </div>
+      ) : (
+        <>
+          {/* KPI Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {metrics.map(metric => (
+              <ComparisonKPICard key={metric.id} metric={metric} />
+            ))}
+          </div>
+
+          {/* Charts Grid */}
+          <div className="grid grid-cols-1 gap-6">
+            <ChartCard
+              title={`Default Rate by ${filterFieldLabel(categoryColumn)}`}
+              description={independent
+                ? 'Starred categories differ significantly between the segments (two-proportion z-test, p < 0.05)'
+                : 'Default rates per category in each segment'}
+            >
+              <div className="space-y-4">
+                <Select value={categoryColumn} onValueChange={category => onColumnsChange({ ...columns, category })}>
+                  <SelectTrigger className="w-56 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARE_CATEGORY_COLUMNS.map(column => (
+                      <SelectItem key={column} value={column}>{filterFieldLabel(column)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!labelled ? (
+                  <UnlabelledNotice className="h-[200px]" />
+                ) : (
+                  <>
+                    <ComparisonBars
+                      rows={categoryRows}
+                      xKey="name"
+                      keyA="defaultRateA"
+                      keyB="defaultRateB"
+                      labelA={labelA}
+                      labelB={labelB}
+                      layout={layout}
+                      angled
+                    />
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left p-2 font-medium">{filterFieldLabel(categoryColumn)}</th>
+                            <th className="text-right p-2 font-medium">Default rate A</th>
+                            <th className="text-right p-2 font-medium">Default rate B</th>
+                            <th className="text-right p-2 font-medium">Δ</th>
+                            <th className="text-right p-2 font-medium">Significance</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {categories.map(row => (
+                            <tr key={row.value} className="border-b">
+                              <td className="p-2">{row.label}</td>
+                              <td className="p-2 text-right tabular-nums">{row.defaultRateA === null ? '—' : `${row.defaultRateA.toFixed(1)}%`}</td>
+                              <td className="p-2 text-right tabular-nums">{row.defaultRateB === null ? '—' : `${row.defaultRateB.toFixed(1)}%`}</td>
+                              <td className="p-2 text-right tabular-nums">{formatDelta(row.defaultRateA === null || row.defaultRateB === null ? null : row.defaultRateA - row.defaultRateB, 'percent')}</td>
+                              <td className={`p-2 text-right tabular-nums ${isSignificant(row.test) ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+                                {row.test ? formatPValue(row.test.pValue) : '—'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </div>
+            </ChartCard>
+
+            <ChartCard
+              title={`Composition by ${filterFieldLabel(categoryColumn)}`}
+              description="Share of each segment's applicants per category"
+            >
+              <ComparisonBars
+                rows={categoryRows}
+                xKey="label"
+                keyA="shareA"
+                keyB="shareB"
+                labelA={labelA}
+                labelB={labelB}
+                layout={layout}
+                angled
+              />
+            </ChartCard>
+
+            <ChartCard
+              title={`${filterFieldLabel(numericColumn)} Distribution`}
+              description="Share of each segment's applicants per bin, over shared bins"
+            >
+              <div className="space-y-4">
+                <Select value={numericColumn} onValueChange={numeric => onColumnsChange({ ...columns, numeric })}>
+                  <SelectTrigger className="w-56 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARE_NUMERIC_COLUMNS.map(column => (
+                      <SelectItem key={column} value={column}>{filterFieldLabel(column)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ComparisonBars
+                  rows={distribution}
+                  xKey="range"
+                  keyA="shareA"
+                  keyB="shareB"
+                  labelA={labelA}
+                  labelB={labelB}
+                  layout={layout}
+                />
+              </div>
+            </ChartCard>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
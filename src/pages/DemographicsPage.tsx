@@ -1,8 +1,9 @@
 import React from 'react';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { ChartCard } from '@/components/dashboard/ChartCard';
-import { HomeCreditRecord } from '@/lib/synthetic-data';
-import { calculateKPIs, prepareChartData } from '@/lib/data-utils';
+import { DemographicsAggregates } from '@/lib/dashboard-aggregates';
+import { UnlabelledNotice } from '@/components/dashboard/UnlabelledNotice';
+import type { CrossFilter } from '@/hooks/use-cross-filter';
 import { 
   BarChart, 
   Bar, 
@@ -19,69 +20,34 @@ import {
 } from 'recharts';
 
 interface DemographicsPageProps {
-  data: HomeCreditRecord[];
+  aggregates: DemographicsAggregates;
+  labelled: boolean;
+  crossFilter: CrossFilter;
 }
 
-export function DemographicsPage({ data }: DemographicsPageProps) {
-  const kpis = calculateKPIs(data);
-  
-  const genderDistribution = prepareChartData(data, 'gender_distribution');
-  const educationDistribution = prepareChartData(data, 'education_distribution');
-  const familyStatusDistribution = prepareChartData(data, 'family_status_distribution');
-  const ageDistribution = prepareChartData(data, 'age_distribution');
-  
-  // Calculate additional demographics KPIs
-  const defaulters = data.filter(r => r.TARGET === 1);
-  const nonDefaulters = data.filter(r => r.TARGET === 0);
-  
-  const avgAgeDefaulters = defaulters.filter(r => r.AGE_YEARS).reduce((sum, r) => sum + r.AGE_YEARS!, 0) / defaulters.filter(r => r.AGE_YEARS).length;
-  const avgAgeNonDefaulters = nonDefaulters.filter(r => r.AGE_YEARS).reduce((sum, r) => sum + r.AGE_YEARS!, 0) / nonDefaulters.filter(r => r.AGE_YEARS).length;
-  
-  const marriedCount = data.filter(r => r.NAME_FAMILY_STATUS.includes('Married')).length;
-  const singleCount = data.filter(r => r.NAME_FAMILY_STATUS.includes('Single')).length;
-  
-  const higherEdCount = data.filter(r => 
-    r.NAME_EDUCATION_TYPE === 'Higher education' || 
-    r.NAME_EDUCATION_TYPE === 'Academic degree'
-  ).length;
-  
-  const livingWithParentsCount = data.filter(r => r.NAME_HOUSING_TYPE === 'With parents').length;
-  const workingCount = data.filter(r => r.EMPLOYMENT_YEARS && r.EMPLOYMENT_YEARS > 0).length;
-  const avgEmploymentYears = data.filter(r => r.EMPLOYMENT_YEARS && r.EMPLOYMENT_YEARS > 0).reduce((sum, r) => sum + r.EMPLOYMENT_YEARS!, 0) / workingCount;
-
-  // Occupation data (top 10)
-  const occupationCounts = data.reduce((acc, r) => {
-    if (r.OCCUPATION_TYPE && r.OCCUPATION_TYPE.trim()) {
-      acc[r.OCCUPATION_TYPE] = (acc[r.OCCUPATION_TYPE] || 0) + 1;
-    }
-    return acc;
-  }, {} as Record<string, number>);
-
-  const topOccupations = Object.entries(occupationCounts)
-    .sort(([,a], [,b]) => b - a)
-    .slice(0, 10)
-    .map(([name, count]) => ({ name, count }));
-
-  // Children distribution
-  const childrenDistribution = [0, 1, 2, 3, 4, 5].map(count => ({
-    children: count === 5 ? '5+' : count.toString(),
-    count: count === 5 
-      ? data.filter(r => r.CNT_CHILDREN >= 5).length
-      : data.filter(r => r.CNT_CHILDREN === count).length
-  }));
-
-  // Housing type distribution
-  const housingDistribution = prepareChartData(data, 'housing_distribution');
-
-  // Age vs Target correlation data
-  const ageTargetData = data
-    .filter(r => r.AGE_YEARS)
-    .map(r => ({
-      age: r.AGE_YEARS!,
-      target: r.TARGET,
-      children: r.CNT_CHILDREN,
-      familySize: r.CNT_FAM_MEMBERS
-    }));
+export function DemographicsPage({ aggregates, labelled, crossFilter }: DemographicsPageProps) {
+  const {
+    kpis,
+    total,
+    genderDistribution,
+    educationDistribution,
+    familyStatusDistribution,
+    ageDistribution,
+    avgAgeDefaulters,
+    avgAgeNonDefaulters,
+    avgAge,
+    withChildrenCount,
+    marriedCount,
+    singleCount,
+    higherEdCount,
+    livingWithParentsCount,
+    workingCount,
+    avgEmploymentYears,
+    topOccupations,
+    childrenDistribution,
+    housingDistribution,
+    ageTargetData
+  } = aggregates;
 
   // Correlation matrix data (simplified)
   const correlationData = [
@@ -110,20 +76,35 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
           value={`${kpis.malePercentage}% / ${kpis.femalePercentage}%`}
           subtitle="Gender split"
         />
-        <KPICard 
-          title="Avg Age - Defaulters"
-          value={`${avgAgeDefaulters?.toFixed(1) || 0} yrs`}
-          variant="danger"
-        />
-        <KPICard 
-          title="Avg Age - Non-Defaulters"
-          value={`${avgAgeNonDefaulters?.toFixed(1) || 0} yrs`}
-          variant="success"
-        />
+        {labelled ? (
+          <>
+            <KPICard 
+              title="Avg Age - Defaulters"
+              value={`${avgAgeDefaulters?.toFixed(1) || 0} yrs`}
+              variant="danger"
+            />
+            <KPICard 
+              title="Avg Age - Non-Defaulters"
+              value={`${avgAgeNonDefaulters?.toFixed(1) || 0} yrs`}
+              variant="success"
+            />
+          </>
+        ) : (
+          <>
+            <KPICard 
+              title="Avg Age"
+              value={`${avgAge?.toFixed(1) || 0} yrs`}
+            />
+            <KPICard 
+              title="Median Age"
+              value={`${kpis.medianAge || 0} yrs`}
+            />
+          </>
+        )}
         <KPICard 
           title="% With Children"
           value={`${kpis.withChildrenPercentage}%`}
-          subtitle={`${data.filter(r => r.CNT_CHILDREN > 0).length} applicants`}
+          subtitle={`${withChildrenCount} applicants`}
         />
         <KPICard 
           title="Avg Family Size"
@@ -134,22 +115,22 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <KPICard 
           title="% Married vs Single"
-          value={`${((marriedCount / data.length) * 100).toFixed(1)}% / ${((singleCount / data.length) * 100).toFixed(1)}%`}
+          value={`${((marriedCount / total) * 100).toFixed(1)}% / ${((singleCount / total) * 100).toFixed(1)}%`}
           subtitle="Marital status"
         />
         <KPICard 
           title="% Higher Education"
-          value={`${((higherEdCount / data.length) * 100).toFixed(1)}%`}
+          value={`${((higherEdCount / total) * 100).toFixed(1)}%`}
           subtitle="Bachelor+ degrees"
         />
         <KPICard 
           title="% Living With Parents"
-          value={`${((livingWithParentsCount / data.length) * 100).toFixed(1)}%`}
+          value={`${((livingWithParentsCount / total) * 100).toFixed(1)}%`}
           variant="warning"
         />
         <KPICard 
           title="% Currently Working"
-          value={`${((workingCount / data.length) * 100).toFixed(1)}%`}
+          value={`${((workingCount / total) * 100).toFixed(1)}%`}
           subtitle={`${workingCount.toLocaleString()} employed`}
         />
         <KPICard 
@@ -172,7 +153,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               <XAxis dataKey="range" fontSize={11} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-1))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onBinClick('AGE_YEARS')}>
+                {ageDistribution.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AGE_YEARS', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -182,6 +167,9 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
           title="Age Distribution by Default Status"
           description="Age patterns for defaulters vs non-defaulters"
         >
+          {!labelled ? (
+            <UnlabelledNotice className="h-[250px]" />
+          ) : (
           <ResponsiveContainer width="100%" height={250}>
             <ScatterChart data={ageTargetData.slice(0, 500)}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -200,6 +188,7 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               />
             </ScatterChart>
           </ResponsiveContainer>
+          )}
         </ChartCard>
 
         {/* Gender Distribution */}
@@ -218,9 +207,15 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
                 outerRadius={80}
                 fill="#8884d8"
                 dataKey="value"
+                cursor="pointer"
+                onClick={crossFilter.onCategoryClick('CODE_GENDER', 'key')}
               >
                 {genderDistribution.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={`hsl(var(--chart-${(index % 5) + 1}))`} />
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={`hsl(var(--chart-${(index % 5) + 1}))`}
+                    fillOpacity={crossFilter.categoryOpacity('CODE_GENDER', entry.key)}
+                  />
                 ))}
               </Pie>
               <Tooltip />
@@ -245,7 +240,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-2))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-2))" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_FAMILY_STATUS', 'key')}>
+                {familyStatusDistribution.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_FAMILY_STATUS', entry.key)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -267,7 +266,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-3))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-3))" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_EDUCATION_TYPE', 'key')}>
+                {educationDistribution.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_EDUCATION_TYPE', entry.key)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -289,7 +292,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-4))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-4))" cursor="pointer" onClick={crossFilter.onCategoryClick('OCCUPATION_TYPE', 'name')}>
+                {topOccupations.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('OCCUPATION_TYPE', entry.name)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -310,9 +317,15 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
                 outerRadius={80}
                 fill="#8884d8"
                 dataKey="value"
+                cursor="pointer"
+                onClick={crossFilter.onCategoryClick('NAME_HOUSING_TYPE', 'key')}
               >
                 {housingDistribution.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={`hsl(var(--chart-${(index % 5) + 1}))`} />
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={`hsl(var(--chart-${(index % 5) + 1}))`}
+                    fillOpacity={crossFilter.categoryOpacity('NAME_HOUSING_TYPE', entry.key)}
+                  />
                 ))}
               </Pie>
               <Tooltip />
@@ -331,7 +344,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
               <XAxis dataKey="children" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-5))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-5))" cursor="pointer" onClick={crossFilter.onCategoryClick('CNT_CHILDREN', 'values')}>
+                {childrenDistribution.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('CNT_CHILDREN', entry.values)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -344,7 +361,11 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
           <div className="space-y-2">
             <h4 className="font-medium text-primary">Life Stage Patterns</h4>
             <ul className="space-y-1 text-muted-foreground">
-              <li>• Younger applicants ({avgAgeDefaulters.toFixed(1)} avg for defaulters) show higher risk</li>
+              <li>
+                • {labelled
+                  ? `Younger applicants (${avgAgeDefaulters.toFixed(1)} avg for defaulters) show higher risk`
+                  : `Applicants average ${avgAge.toFixed(1)} years of age`}
+              </li>
               <li>• {kpis.withChildrenPercentage}% of applicants have children, affecting household expenses</li>
               <li>• Average family size of {kpis.avgFamilySize} members indicates household dependency</li>
             </ul>
@@ -352,15 +373,15 @@ export function DemographicsPage({ data }: DemographicsPageProps) {
           <div className="space-y-2">
             <h4 className="font-medium text-primary">Education & Employment</h4>
             <ul className="space-y-1 text-muted-foreground">
-              <li>• {((higherEdCount / data.length) * 100).toFixed(1)}% have higher education, correlating with lower default rates</li>
-              <li>• {((workingCount / data.length) * 100).toFixed(1)}% are currently employed with avg {avgEmploymentYears.toFixed(1)} years experience</li>
+              <li>• {((higherEdCount / total) * 100).toFixed(1)}% have higher education, correlating with lower default rates</li>
+              <li>• {((workingCount / total) * 100).toFixed(1)}% are currently employed with avg {avgEmploymentYears.toFixed(1)} years experience</li>
               <li>• Employment stability is a key predictor of repayment ability</li>
             </ul>
           </div>
           <div className="space-y-2">
             <h4 className="font-medium text-primary">Housing & Stability</h4>
             <ul className="space-y-1 text-muted-foreground">
-              <li>• {((livingWithParentsCount / data.length) * 100).toFixed(1)}% live with parents, indicating potential financial dependency</li>
+              <li>• {((livingWithParentsCount / total) * 100).toFixed(1)}% live with parents, indicating potential financial dependency</li>
               <li>• Housing type reflects financial stability and independence level</li>
               <li>• Married applicants show different risk profiles than single applicants</li>
             </ul>
@@ -1,8 +1,10 @@
 import React from 'react';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { ChartCard } from '@/components/dashboard/ChartCard';
-import { HomeCreditRecord } from '@/lib/synthetic-data';
-import { calculateKPIs, prepareChartData } from '@/lib/data-utils';
+import { FinancialAggregates } from '@/lib/dashboard-aggregates';
+import { UnlabelledNotice } from '@/components/dashboard/UnlabelledNotice';
+import type { CrossFilter } from '@/hooks/use-cross-filter';
+import { IncomeBracketScheme, describeIncomeBrackets } from '@/lib/income-brackets';
 import { 
   BarChart, 
   Bar, 
@@ -17,107 +19,35 @@ import {
 } from 'recharts';
 
 interface FinancialHealthPageProps {
-  data: HomeCreditRecord[];
+  aggregates: FinancialAggregates;
+  labelled: boolean;
+  crossFilter: CrossFilter;
+  incomeBrackets: IncomeBracketScheme;
 }
 
-export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
-  const kpis = calculateKPIs(data);
-  
-  const incomeDistribution = prepareChartData(data, 'income_distribution');
-  
-  // Calculate financial metrics
-  const creditDistribution = data.reduce((acc, r) => {
-    const bin = Math.floor(r.AMT_CREDIT / 100000) * 100000;
-    const key = `${(bin / 1000).toFixed(0)}K-${((bin + 100000) / 1000).toFixed(0)}K`;
-    acc[key] = (acc[key] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+export function FinancialHealthPage({ aggregates, labelled, crossFilter, incomeBrackets }: FinancialHealthPageProps) {
+  const {
+    kpis,
+    total,
+    avgGoodsPrice,
+    incomeDistribution,
+    creditChartData,
+    annuityChartData,
+    incomeVsCreditData,
+    incomeVsAnnuityData,
+    creditByTargetData,
+    incomeByTargetData,
+    medianCredit,
+    medianAnnuity
+  } = aggregates;
 
-  const creditChartData = Object.entries(creditDistribution)
-    .map(([range, count]) => ({ range, count }))
-    .slice(0, 15);
-
-  const annuityDistribution = data
-    .filter(r => r.AMT_ANNUITY > 0)
-    .reduce((acc, r) => {
-      const bin = Math.floor(r.AMT_ANNUITY / 5000) * 5000;
-      const key = `${(bin / 1000).toFixed(0)}K-${((bin + 5000) / 1000).toFixed(0)}K`;
-      acc[key] = (acc[key] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-  const annuityChartData = Object.entries(annuityDistribution)
-    .map(([range, count]) => ({ range, count }))
-    .slice(0, 15);
-
-  // Income vs Credit scatter data
-  const incomeVsCreditData = data
-    .filter(r => r.AMT_INCOME_TOTAL > 0 && r.AMT_CREDIT > 0)
-    .slice(0, 1000)
-    .map(r => ({
-      income: r.AMT_INCOME_TOTAL,
-      credit: r.AMT_CREDIT,
-      target: r.TARGET,
-      lti: r.LOAN_TO_INCOME || (r.AMT_CREDIT / r.AMT_INCOME_TOTAL)
-    }));
-
-  // Income vs Annuity scatter data
-  const incomeVsAnnuityData = data
-    .filter(r => r.AMT_INCOME_TOTAL > 0 && r.AMT_ANNUITY > 0)
-    .slice(0, 1000)
-    .map(r => ({
-      income: r.AMT_INCOME_TOTAL,
-      annuity: r.AMT_ANNUITY,
-      target: r.TARGET,
-      dti: r.DTI || (r.AMT_ANNUITY / r.AMT_INCOME_TOTAL)
-    }));
-
-  // Credit by Target boxplot data (simplified as bar chart)
-  const defaulters = data.filter(r => r.TARGET === 1);
-  const nonDefaulters = data.filter(r => r.TARGET === 0);
-  
-  const creditByTargetData = [
-    {
-      category: 'Non-Defaulters',
-      avgCredit: nonDefaulters.reduce((sum, r) => sum + r.AMT_CREDIT, 0) / nonDefaulters.length,
-      medianCredit: nonDefaulters.map(r => r.AMT_CREDIT).sort()[Math.floor(nonDefaulters.length / 2)]
-    },
-    {
-      category: 'Defaulters',
-      avgCredit: defaulters.reduce((sum, r) => sum + r.AMT_CREDIT, 0) / defaulters.length,
-      medianCredit: defaulters.map(r => r.AMT_CREDIT).sort()[Math.floor(defaulters.length / 2)]
-    }
-  ];
-
-  const incomeByTargetData = [
-    {
-      category: 'Non-Defaulters',
-      avgIncome: kpis.avgIncomeNonDefaulters,
-      medianIncome: nonDefaulters.map(r => r.AMT_INCOME_TOTAL).sort()[Math.floor(nonDefaulters.length / 2)]
-    },
-    {
-      category: 'Defaulters',
-      avgIncome: kpis.avgIncomeDefaulters,
-      medianIncome: defaulters.map(r => r.AMT_INCOME_TOTAL).sort()[Math.floor(defaulters.length / 2)]
-    }
-  ];
-
-  // Income brackets vs default rate
-  const incomeBracketData = data.reduce((acc, r) => {
-    const bracket = r.INCOME_BRACKET || 'Unknown';
-    if (!acc[bracket]) {
-      acc[bracket] = { total: 0, defaults: 0 };
-    }
-    acc[bracket].total++;
-    if (r.TARGET === 1) acc[bracket].defaults++;
-    return acc;
-  }, {} as Record<string, { total: number; defaults: number }>);
-
-  const incomeBracketChart = Object.entries(incomeBracketData).map(([bracket, data]) => ({
-    bracket,
-    defaultRate: (data.defaults / data.total) * 100,
-    total: data.total
-  }));
+  // Brackets from lowest to highest income, unknown last
+  const bracketRank = (bracket: string) => {
+    const index = incomeBrackets.labels.indexOf(bracket);
+    return index === -1 ? incomeBrackets.labels.length : index;
+  };
+  const incomeBracketChart = [...aggregates.incomeBrackets]
+    .sort((a, b) => bracketRank(a.bracket) - bracketRank(b.bracket));
 
   // Financial correlations heatmap data (simplified)
   const correlationMatrix = [
@@ -163,7 +93,7 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
         />
         <KPICard 
           title="Avg Goods Price"
-          value={`$${(data.reduce((sum, r) => sum + r.AMT_GOODS_PRICE, 0) / data.length).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`}
+          value={`$${avgGoodsPrice.toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`}
         />
       </div>
 
@@ -180,18 +110,33 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
           variant={kpis.avgLTI > 6 ? "danger" : kpis.avgLTI > 4 ? "warning" : "success"}
           subtitle="Credit multiplier"
         />
-        <KPICard 
-          title="Income Gap"
-          value={`$${kpis.incomeGap?.toLocaleString() || 0}`}
-          subtitle="Non-def vs Defaulter"
-          trend="up"
-          trendValue="significant"
-        />
-        <KPICard 
-          title="Credit Gap"
-          value={`$${((creditByTargetData[0]?.avgCredit || 0) - (creditByTargetData[1]?.avgCredit || 0)).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`}
-          subtitle="Non-def vs Defaulter"
-        />
+        {labelled ? (
+          <>
+            <KPICard 
+              title="Income Gap"
+              value={`$${kpis.incomeGap?.toLocaleString() || 0}`}
+              subtitle="Non-def vs Defaulter"
+              trend="up"
+              trendValue="significant"
+            />
+            <KPICard 
+              title="Credit Gap"
+              value={`$${((creditByTargetData[0]?.avgCredit || 0) - (creditByTargetData[1]?.avgCredit || 0)).toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`}
+              subtitle="Non-def vs Defaulter"
+            />
+          </>
+        ) : (
+          <>
+            <KPICard 
+              title="Median Credit Amount"
+              value={`$${medianCredit.toLocaleString()}`}
+            />
+            <KPICard 
+              title="Median Annuity"
+              value={`$${medianAnnuity.toLocaleString()}`}
+            />
+          </>
+        )}
         <KPICard 
           title="% High Credit"
           value={`${kpis.highCreditPercentage}%`}
@@ -213,7 +158,11 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <XAxis dataKey="range" fontSize={11} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-1))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onBinClick('AMT_INCOME_TOTAL')}>
+                {incomeDistribution.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AMT_INCOME_TOTAL', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -229,7 +178,11 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <XAxis dataKey="range" fontSize={11} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-2))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-2))" cursor="pointer" onClick={crossFilter.onBinClick('AMT_CREDIT')}>
+                {creditChartData.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AMT_CREDIT', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -245,7 +198,11 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <XAxis dataKey="range" fontSize={11} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-3))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-3))" cursor="pointer" onClick={crossFilter.onBinClick('AMT_ANNUITY')}>
+                {annuityChartData.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AMT_ANNUITY', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -275,16 +232,22 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <Tooltip 
                 formatter={(value, name) => [`$${Number(value).toLocaleString()}`, name]}
               />
-              <Scatter 
-                data={incomeVsCreditData.filter(d => d.target === 0)} 
-                fill="hsl(var(--success))" 
-                name="Non-Defaulters"
-              />
-              <Scatter 
-                data={incomeVsCreditData.filter(d => d.target === 1)} 
-                fill="hsl(var(--destructive))" 
-                name="Defaulters"
-              />
+              {labelled ? (
+                <>
+                  <Scatter 
+                    data={incomeVsCreditData.filter(d => d.target === 0)} 
+                    fill="hsl(var(--success))" 
+                    name="Non-Defaulters"
+                  />
+                  <Scatter 
+                    data={incomeVsCreditData.filter(d => d.target === 1)} 
+                    fill="hsl(var(--destructive))" 
+                    name="Defaulters"
+                  />
+                </>
+              ) : (
+                <Scatter data={incomeVsCreditData} fill="hsl(var(--chart-1))" name="Applicants" />
+              )}
             </ScatterChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -310,16 +273,22 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <Tooltip 
                 formatter={(value, name) => [`$${Number(value).toLocaleString()}`, name]}
               />
-              <Scatter 
-                data={incomeVsAnnuityData.filter(d => d.target === 0)} 
-                fill="hsl(var(--success))" 
-                name="Non-Defaulters"
-              />
-              <Scatter 
-                data={incomeVsAnnuityData.filter(d => d.target === 1)} 
-                fill="hsl(var(--destructive))" 
-                name="Defaulters"
-              />
+              {labelled ? (
+                <>
+                  <Scatter 
+                    data={incomeVsAnnuityData.filter(d => d.target === 0)} 
+                    fill="hsl(var(--success))" 
+                    name="Non-Defaulters"
+                  />
+                  <Scatter 
+                    data={incomeVsAnnuityData.filter(d => d.target === 1)} 
+                    fill="hsl(var(--destructive))" 
+                    name="Defaulters"
+                  />
+                </>
+              ) : (
+                <Scatter data={incomeVsAnnuityData} fill="hsl(var(--chart-1))" name="Applicants" />
+              )}
             </ScatterChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -329,6 +298,9 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
           title="Credit Amount by Default Status"
           description="Average and median credit comparison"
         >
+          {!labelled ? (
+            <UnlabelledNotice className="h-[250px]" />
+          ) : (
           <ResponsiveContainer width="100%" height={250}>
             <BarChart data={creditByTargetData}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -340,6 +312,7 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <Bar dataKey="avgCredit" fill="hsl(var(--chart-4))" name="Average Credit" />
             </BarChart>
           </ResponsiveContainer>
+          )}
         </ChartCard>
 
         {/* Income by Target */}
@@ -347,6 +320,9 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
           title="Income by Default Status"
           description="Income comparison between groups"
         >
+          {!labelled ? (
+            <UnlabelledNotice className="h-[250px]" />
+          ) : (
           <ResponsiveContainer width="100%" height={250}>
             <BarChart data={incomeByTargetData}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -358,12 +334,13 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <Bar dataKey="avgIncome" fill="hsl(var(--chart-5))" name="Average Income" />
             </BarChart>
           </ResponsiveContainer>
+          )}
         </ChartCard>
 
         {/* Income Brackets vs Default Rate */}
         <ChartCard 
-          title="Default Rate by Income Bracket"
-          description="Risk varies by income level"
+          title={labelled ? "Default Rate by Income Bracket" : "Applicants by Income Bracket"}
+          description={`${labelled ? "Risk by income level" : "Bracket sizes; default rates need labels"}: ${describeIncomeBrackets(incomeBrackets)}`}
         >
           <ResponsiveContainer width="100%" height={250}>
             <BarChart data={incomeBracketChart}>
@@ -371,9 +348,15 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
               <XAxis dataKey="bracket" />
               <YAxis />
               <Tooltip 
-                formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Default Rate']}
+                formatter={(value) => labelled
+                  ? [`${Number(value).toFixed(1)}%`, 'Default Rate']
+                  : [Number(value).toLocaleString(), 'Applicants']}
               />
-              <Bar dataKey="defaultRate" fill="hsl(var(--chart-1))" />
+              <Bar dataKey={labelled ? "defaultRate" : "total"} fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onCategoryClick('INCOME_BRACKET', 'value')}>
+                {incomeBracketChart.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('INCOME_BRACKET', entry.value)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -388,7 +371,11 @@ export function FinancialHealthPage({ data }: FinancialHealthPageProps) {
             <ul className="space-y-1 text-muted-foreground">
               <li>• Average DTI of {(kpis.avgDTI * 100).toFixed(1)}% indicates moderate payment burden</li>
               <li>• Loan-to-Income ratio of {kpis.avgLTI?.toFixed(1)}x suggests manageable credit levels</li>
-              <li>• Income gaps indicate lower-income applicants face higher default risk</li>
+              <li>
+                • {labelled
+                  ? 'Income gaps indicate lower-income applicants face higher default risk'
+                  : `Median credit of $${medianCredit.toLocaleString()} across ${total.toLocaleString()} applicants`}
+              </li>
             </ul>
           </div>
           <div className="space-y-2">
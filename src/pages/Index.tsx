@@ -1,72 +1,307 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Navigation } from '@/components/ui/navigation';
-import { FilterSidebar, FilterState } from '@/components/dashboard/FilterSidebar';
+import { FilterSidebar } from '@/components/dashboard/FilterSidebar';
+import { QueryBuilder } from '@/components/dashboard/QueryBuilder';
+import { SegmentLibrary } from '@/components/dashboard/SegmentLibrary';
+import { FilterHistoryControls, FilterTimeline } from '@/components/dashboard/FilterHistory';
+import { Button } from '@/components/ui/button';
+import { Bookmark, Braces, Download, History, X } from 'lucide-react';
 import { DataUploader } from '@/components/DataUploader';
+import { AuxiliaryTablesUploader } from '@/components/AuxiliaryTablesUploader';
+import { DatasetCatalog } from '@/components/DatasetCatalog';
+import { ScenarioBuilder } from '@/components/ScenarioBuilder';
+import { SyntheticTwinPanel } from '@/components/SyntheticTwinPanel';
+import { IncomeBracketEditor } from '@/components/IncomeBracketEditor';
 import { OverviewPage } from '@/pages/OverviewPage';
 import { RiskSegmentationPage } from '@/pages/RiskSegmentationPage';
 import { DemographicsPage } from '@/pages/DemographicsPage';
 import { FinancialHealthPage } from '@/pages/FinancialHealthPage';
-import { HomeCreditRecord, generateCompleteDataset } from '@/lib/synthetic-data';
-import { applyFilters } from '@/lib/data-utils';
+import { ComparePage } from '@/pages/ComparePage';
+import { HomeCreditRecord } from '@/lib/synthetic-data';
+import { generateSampleDataset } from '@/lib/sample-data';
+import {
+  EMPTY_FILTERS,
+  FilterField,
+  filterChips,
+  loadFilterFields,
+  removeChip,
+  saveFilterFields,
+  withCategory,
+  withQuery
+} from '@/lib/filters';
+import { IncomeBracketScheme, loadIncomeBrackets, saveIncomeBrackets } from '@/lib/income-brackets';
+import { saveCSV } from '@/lib/csv-file';
+import { isDashboardPage } from '@/lib/dashboard-pages';
+import { isDashboardView } from '@/lib/dashboard-aggregates';
+import { ComparisonBaseline, ComparisonColumns, DEFAULT_COMPARISON_COLUMNS, baselineFilters } from '@/lib/compare';
+import { queryColumns } from '@/lib/query';
+import { Segment, loadSegments } from '@/lib/segments';
+import { EngineQuery } from '@/lib/data-engine';
+import { useUrlFilters } from '@/hooks/use-url-filters';
+import { useFilterHistory } from '@/hooks/use-filter-history';
+import { useCrossFilter } from '@/hooks/use-cross-filter';
+import { useDataEngine } from '@/hooks/use-data-engine';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import NotFound from '@/pages/NotFound';
+import { DEFAULT_SEED } from '@/lib/random';
+import { AuxiliaryAggregates, AuxiliaryAggregateSet, AuxiliaryTableName, joinAuxiliaryAggregates } from '@/lib/auxiliary-tables';
+import { DatasetSource } from '@/lib/dataset-catalog';
+import { useDatasetCatalog } from '@/hooks/use-dataset-catalog';
+import { useToast } from '@/hooks/use-toast';
 
 const Index = () => {
-  const [activeTab, setActiveTab] = useState('overview');
+  // Each page has its own route; filters live in the query string (see useUrlFilters)
+  const { page: activeTab } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const setActiveTab = (tab: string) => navigate({ pathname: `/${tab}`, search: location.search });
   const [showFilters, setShowFilters] = useState(false);
-  const [rawData, setRawData] = useState<HomeCreditRecord[]>([]);
-  const [filteredData, setFilteredData] = useState<HomeCreditRecord[]>([]);
-  const [filters, setFilters] = useState<FilterState>({
-    gender: [],
-    education: [],
-    familyStatus: [],
-    housingType: [],
-    ageRange: [18, 80],
-    incomeBracket: 'all',
-    employmentRange: [0, 40]
-  });
-
-  // Load sample data on mount
+  // Tool panel open under the records bar
+  const [toolPanel, setToolPanel] = useState<'query' | 'segments' | 'history' | null>(null);
+  const [applicationData, setApplicationData] = useState<HomeCreditRecord[]>([]);
+  const [auxiliaryTables, setAuxiliaryTables] = useState<AuxiliaryAggregateSet>({});
+  // Latest tables for loaders that add several in a row between renders
+  const auxiliaryRef = useRef(auxiliaryTables);
+  auxiliaryRef.current = auxiliaryTables;
+  const catalog = useDatasetCatalog();
+  const { toast } = useToast();
+  const [filters, setFilters] = useUrlFilters();
+  const [filterFields, setFilterFields] = useState<FilterField[]>(loadFilterFields);
+  // Segment B on the comparison page; segment A is the active filters
+  const [comparisonBaseline, setComparisonBaseline] = useState<ComparisonBaseline>({ kind: 'rest' });
+  const [comparisonColumns, setComparisonColumns] = useState<ComparisonColumns>(DEFAULT_COMPARISON_COLUMNS);
+  const [segments, setSegments] = useState<Segment[]>(loadSegments);
+
+  // Income brackets follow the active dataset's own scheme
+  const datasetKey = catalog.activeId ?? 'sample';
+  // Generated data is not saved to the catalog, so its name is kept here
+  const [unsavedName, setUnsavedName] = useState(`Synthetic sample (seed ${DEFAULT_SEED})`);
+  const datasetName = catalog.datasets.find(d => d.id === catalog.activeId)?.name ?? unsavedName;
+  const [incomeBrackets, setIncomeBrackets] = useState<IncomeBracketScheme>(() => loadIncomeBrackets(datasetKey));
   useEffect(() => {
-    const sampleData = generateCompleteDataset(10000);
-    setRawData(sampleData);
-    setFilteredData(sampleData);
-  }, []);
+    setIncomeBrackets(loadIncomeBrackets(datasetKey));
+  }, [datasetKey]);
+
+  // Auxiliary aggregates are joined onto applicants as extra columns. The data
+  // engine gets the joined records and assigns income brackets itself.
+  const joinedData = useMemo(
+    () => joinAuxiliaryAggregates(applicationData, auxiliaryTables),
+    [applicationData, auxiliaryTables]
+  );
+
+  // Clicking chart elements adds filters; every criterion shows as a removable chip
+  const crossFilter = useCrossFilter(filters, setFilters);
+  const filterHistory = useFilterHistory(filters, setFilters);
+  const chips = filterChips(filters);
+
+  // Range filters are relative to a dataset's own bounds, so switching datasets
+  // clears them; the first load keeps any ranges from a shared link
+  const datasetLoadedRef = useRef(false);
+  useEffect(() => {
+    if (applicationData.length === 0) return;
+    if (datasetLoadedRef.current) {
+      setFilters(current => ({ ...current, ranges: {} }));
+    }
+    datasetLoadedRef.current = true;
+  }, [applicationData, setFilters]);
+
+  const reportCatalogError = (title: string) => (err: unknown) => {
+    toast({
+      title,
+      description: err instanceof Error ? err.message : 'Dataset catalog is unavailable',
+      variant: 'destructive',
+    });
+  };
+
+  // Same records and history as loading the sample with default options
+  const loadSample = () => {
+    const sample = generateSampleDataset();
+    setApplicationData(sample.records);
+    auxiliaryRef.current = sample.auxiliary;
+    setAuxiliaryTables(sample.auxiliary);
+    setUnsavedName(`Synthetic sample (seed ${DEFAULT_SEED})`);
+  };
 
-  // Apply filters whenever filters or raw data change
+  // Restore the last active dataset, falling back to sample data
   useEffect(() => {
-    if (rawData.length > 0) {
-      const filtered = applyFilters(rawData, filters);
-      setFilteredData(filtered);
+    catalog.restore()
+      .then(stored => {
+        if (stored) {
+          setApplicationData(stored.records);
+          setAuxiliaryTables(stored.auxiliary);
+        } else {
+          loadSample();
+        }
+      })
+      .catch(loadSample);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Filtering and aggregation run in the data engine worker: page aggregates,
+  // the matching count, filter option counts and slider bounds, counts for the
+  // open history or segments panel, query builder suggestions, the segment
+  // comparison and the dataset's profile
+  const facetColumns = useMemo(
+    () => Array.from(new Set(filterFields.filter(field => field.kind === 'category').map(field => field.column))),
+    [filterFields]
+  );
+  const rangeColumns = useMemo(
+    () => Array.from(new Set(filterFields.filter(field => field.kind === 'range').map(field => field.column))),
+    [filterFields]
+  );
+  const engineQuery = useMemo((): EngineQuery => {
+    const summaries = toolPanel === 'history'
+      ? filterHistory.entries.map(entry => entry.filters)
+      : toolPanel === 'segments' ? segments.map(segment => segment.filters) : [];
+    return {
+      filters,
+      view: isDashboardView(activeTab) ? activeTab : null,
+      facets: facetColumns,
+      summaries,
+      ranges: rangeColumns,
+      suggestions: toolPanel === 'query' ? queryColumns(filters.query) : [],
+      comparison: activeTab === 'compare'
+        ? { baseline: baselineFilters(comparisonBaseline), columns: comparisonColumns }
+        : null
+    };
+  }, [filters, activeTab, facetColumns, rangeColumns, toolPanel, filterHistory.entries, segments, comparisonBaseline, comparisonColumns]);
+  const engine = useDataEngine(joinedData, incomeBrackets, engineQuery);
+  const matchingCount = engine.result?.count ?? joinedData.length;
+  // Filter options come from the data; counts follow the other active filters
+  const facets = engine.result?.facets ?? {};
+  const rangeBounds = engine.result?.bounds ?? {};
+  const summaries = engine.result?.summaries ?? {};
+  // Data quality is profiled once per dataset, independent of filters
+  const dataset = engine.result?.dataset;
+  const profile = dataset?.profile;
+  const labelled = dataset?.labelled ?? true;
+
+  const handleDataLoaded = (data: HomeCreditRecord[], source: DatasetSource) => {
+    setApplicationData(data);
+    auxiliaryRef.current = {};
+    setAuxiliaryTables({});
+    // Only uploaded files are saved; samples, scenarios and twins regenerate from their seed
+    if (source.sourceFile) {
+      catalog.add(data, source).catch(reportCatalogError('Dataset not saved to catalog'));
+    } else {
+      setUnsavedName(source.name);
+      catalog.detach().catch(reportCatalogError('Could not update dataset catalog'));
     }
-  }, [rawData, filters]);
+  };
+
+  const updateAuxiliaryTables = (next: AuxiliaryAggregateSet) => {
+    auxiliaryRef.current = next;
+    setAuxiliaryTables(next);
+    catalog.updateAuxiliary(next).catch(reportCatalogError('Auxiliary tables not saved to catalog'));
+  };
+
+  const handleAuxiliaryLoaded = (aggregates: AuxiliaryAggregates) => {
+    updateAuxiliaryTables({ ...auxiliaryRef.current, [aggregates.table]: aggregates });
+  };
+
+  const handleAuxiliaryRemoved = (table: AuxiliaryTableName) => {
+    const { [table]: _removed, ...rest } = auxiliaryRef.current;
+    updateAuxiliaryTables(rest);
+  };
 
-  const handleDataLoaded = (data: HomeCreditRecord[]) => {
-    setRawData(data);
+  const handleActivateDataset = (id: string) => {
+    catalog.activate(id)
+      .then(stored => {
+        setApplicationData(stored.records);
+        setAuxiliaryTables(stored.auxiliary);
+        toast({
+          title: "Dataset activated",
+          description: `${stored.summary.name} (${stored.summary.rowCount.toLocaleString()} records)`,
+        });
+      })
+      .catch(reportCatalogError('Could not load dataset'));
+  };
+
+  // The active dataset's records go with it, leaving the sample in their place
+  const handleDeleteDataset = (id: string) => {
+    const wasActive = id === catalog.activeId;
+    catalog.remove(id)
+      .then(() => {
+        if (wasActive) loadSample();
+      })
+      .catch(reportCatalogError('Could not delete dataset'));
   };
 
   const resetFilters = () => {
-    setFilters({
-      gender: [],
-      education: [],
-      familyStatus: [],
-      housingType: [],
-      ageRange: [18, 80],
-      incomeBracket: 'all',
-      employmentRange: [0, 40]
-    });
+    setFilters(EMPTY_FILTERS);
+  };
+
+  // Old bracket labels mean nothing under a new scheme, so their filter is cleared
+  const updateIncomeBrackets = (scheme: IncomeBracketScheme | null) => {
+    saveIncomeBrackets(datasetKey, scheme);
+    setIncomeBrackets(loadIncomeBrackets(datasetKey));
+    setFilters(current => withCategory(current, 'INCOME_BRACKET', []));
   };
 
+  // The worker assembles the CSV from its own copy of the records
+  const exportFiltered = () => {
+    const fileName = `${datasetName.replace(/[^\w-]+/g, '_')}_filtered.csv`;
+    engine.exportCSV(filters)
+      .then(csv => saveCSV(fileName, csv))
+      .catch((err: unknown) => {
+        toast({
+          title: 'Export failed',
+          description: err instanceof Error ? err.message : 'Could not export the filtered records',
+          variant: 'destructive',
+        });
+      });
+  };
+
+  const updateFilterFields = (fields: FilterField[]) => {
+    setFilterFields(fields);
+    saveFilterFields(fields);
+  };
+
+  // Shown until the engine has the active page's aggregates
+  const renderEngineStatus = () => (
+    <div className="flex items-center justify-center p-12">
+      {engine.error ? (
+        <p className="text-destructive">Could not compute this page: {engine.error}</p>
+      ) : (
+        <div className="animate-pulse text-muted-foreground">Computing...</div>
+      )}
+    </div>
+  );
+
   const renderContent = () => {
-    const dataToUse = filteredData;
+    const view = engine.result?.view;
 
     switch (activeTab) {
       case 'overview':
-        return <OverviewPage data={dataToUse} />;
+        return view?.view === 'overview'
+          ? <OverviewPage aggregates={view.aggregates} profile={profile} labelled={labelled} crossFilter={crossFilter} />
+          : renderEngineStatus();
       case 'risk':
-        return <RiskSegmentationPage data={dataToUse} />;
+        return view?.view === 'risk'
+          ? <RiskSegmentationPage aggregates={view.aggregates} labelled={labelled} crossFilter={crossFilter} />
+          : renderEngineStatus();
       case 'demographics':
-        return <DemographicsPage data={dataToUse} />;
+        return view?.view === 'demographics'
+          ? <DemographicsPage aggregates={view.aggregates} labelled={labelled} crossFilter={crossFilter} />
+          : renderEngineStatus();
       case 'financial':
-        return <FinancialHealthPage data={dataToUse} />;
+        return view?.view === 'financial'
+          ? <FinancialHealthPage aggregates={view.aggregates} labelled={labelled} crossFilter={crossFilter} incomeBrackets={incomeBrackets} />
+          : renderEngineStatus();
+      case 'compare':
+        return engine.result?.comparison ? (
+          <ComparePage
+            comparison={engine.result.comparison}
+            columns={comparisonColumns}
+            filters={filters}
+            labelled={labelled}
+            baseline={comparisonBaseline}
+            segments={segments}
+            onBaselineChange={setComparisonBaseline}
+            onColumnsChange={setComparisonColumns}
+            onFiltersChange={setFilters}
+          />
+        ) : renderEngineStatus();
       case 'correlations':
         return <div className="p-6">
           <h1 className="text-3xl font-bold mb-4">Correlations & Drivers</h1>
@@ -75,7 +310,35 @@ const Index = () => {
       case 'data':
         return <div className="p-6">
           <h1 className="text-3xl font-bold mb-6">Data Management</h1>
-          <DataUploader onDataLoaded={handleDataLoaded} />
+          <div className="space-y-6">
+            <DatasetCatalog
+              datasets={catalog.datasets}
+              activeId={catalog.activeId}
+              onActivate={handleActivateDataset}
+              onRename={(id, name) => catalog.rename(id, name).catch(reportCatalogError('Could not rename dataset'))}
+              onDelete={handleDeleteDataset}
+            />
+            <DataUploader onDataLoaded={handleDataLoaded} onAuxiliaryLoaded={handleAuxiliaryLoaded} />
+            <IncomeBracketEditor
+              data={joinedData}
+              datasetName={datasetName}
+              scheme={incomeBrackets}
+              onChange={updateIncomeBrackets}
+            />
+            <ScenarioBuilder onGenerate={handleDataLoaded} />
+            <SyntheticTwinPanel
+              key={datasetKey}
+              data={applicationData}
+              datasetName={datasetName}
+              incomeBrackets={incomeBrackets}
+              onUseDataset={handleDataLoaded}
+            />
+            <AuxiliaryTablesUploader
+              tables={auxiliaryTables}
+              onTableLoaded={handleAuxiliaryLoaded}
+              onTableRemoved={handleAuxiliaryRemoved}
+            />
+          </div>
         </div>;
       case 'modeling':
         return <div className="p-6">
@@ -83,10 +346,14 @@ const Index = () => {
           <p className="text-muted-foreground">ML model training interface - Coming Soon!</p>
         </div>;
       default:
-        return <OverviewPage data={dataToUse} />;
+        return null;
     }
   };
 
+  if (!isDashboardPage(activeTab)) {
+    return <NotFound />;
+  }
+
   // Check if we should show filters (not on data/modeling pages)
   const shouldShowFilters = !['data', 'modeling'].includes(activeTab);
 
@@ -100,21 +367,30 @@ const Index = () => {
         {shouldShowFilters && (
           <FilterSidebar 
             filters={filters} 
+            fields={filterFields}
+            facets={facets}
+            bounds={rangeBounds}
+            columns={profile?.columns ?? []}
             onFiltersChange={setFilters}
+            onFieldsChange={updateFilterFields}
             onReset={resetFilters}
           />
         )}
         
         {/* Main Content */}
         <div className="flex-1 overflow-auto">
-          {rawData.length === 0 ? (
+          {!profile ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-center">
                 <h2 className="text-2xl font-bold mb-4">Welcome to Home Credit Risk Analytics</h2>
                 <p className="text-muted-foreground mb-4">
-                  Loading sample dataset for demonstration...
+                  Loading the active dataset...
                 </p>
-                <div className="animate-pulse">Loading...</div>
+                {engine.error ? (
+                  <p className="text-destructive">Could not load the dataset: {engine.error}</p>
+                ) : (
+                  <div className="animate-pulse">Loading...</div>
+                )}
               </div>
             </div>
           ) : (
@@ -123,14 +399,109 @@ const Index = () => {
                 <div className="bg-muted/50 px-6 py-3 border-b">
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">
-                      Showing {filteredData.length.toLocaleString()} of {rawData.length.toLocaleString()} records
+                      Showing {matchingCount.toLocaleString()} of {profile.rowCount.toLocaleString()} records
+                      {engine.pending && <span className="ml-2 animate-pulse">Updating...</span>}
                     </span>
-                    {filteredData.length !== rawData.length && (
-                      <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded">
-                        Filters applied
-                      </span>
-                    )}
+                    <div className="flex items-center gap-2">
+                      <FilterHistoryControls history={filterHistory} />
+                      <Button
+                        variant={toolPanel === 'query' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => setToolPanel(toolPanel === 'query' ? null : 'query')}
+                      >
+                        <Braces className="w-3 h-3 mr-1" />
+                        Query Builder
+                      </Button>
+                      <Button
+                        variant={toolPanel === 'segments' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => setToolPanel(toolPanel === 'segments' ? null : 'segments')}
+                      >
+                        <Bookmark className="w-3 h-3 mr-1" />
+                        Segments
+                      </Button>
+                      <Button
+                        variant={toolPanel === 'history' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => setToolPanel(toolPanel === 'history' ? null : 'history')}
+                      >
+                        <History className="w-3 h-3 mr-1" />
+                        History
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        title="Download the filtered records as CSV"
+                        onClick={exportFiltered}
+                      >
+                        <Download className="w-3 h-3 mr-1" />
+                        Export CSV
+                      </Button>
+                      {!labelled && (
+                        <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded">
+                          Unlabelled dataset
+                        </span>
+                      )}
+                      {matchingCount !== profile.rowCount && (
+                        <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded">
+                          Filters applied
+                        </span>
+                      )}
+                    </div>
                   </div>
+                  {chips.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      {chips.map(chip => (
+                        <span
+                          key={`${chip.kind}:${chip.column ?? ''}`}
+                          className="inline-flex items-center gap-1 text-xs bg-primary/10 text-primary pl-2 pr-1 py-0.5 rounded max-w-md"
+                          title={chip.label}
+                        >
+                          <span className="truncate">{chip.label}</span>
+                          <button
+                            type="button"
+                            className="rounded hover:bg-primary/20 p-0.5"
+                            aria-label={`Remove ${chip.label}`}
+                            onClick={() => setFilters(current => removeChip(current, chip))}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <span className="text-xs text-muted-foreground">Click chart bars to filter; shift-click to add to the selection</span>
+                    </div>
+                  )}
+                  {toolPanel === 'query' && (
+                    <div className="mt-3 pt-3 border-t">
+                      <QueryBuilder
+                        query={filters.query}
+                        columns={profile.columns}
+                        suggestions={engine.result?.suggestions ?? {}}
+                        onChange={(query) => setFilters(current => withQuery(current, query))}
+                      />
+                    </div>
+                  )}
+                  {toolPanel === 'segments' && (
+                    <div className="mt-3 pt-3 border-t">
+                      <SegmentLibrary
+                        segments={segments}
+                        onSegmentsChange={setSegments}
+                        stats={summaries}
+                        filters={filters}
+                        labelled={labelled}
+                        onApply={setFilters}
+                      />
+                    </div>
+                  )}
+                  {toolPanel === 'history' && (
+                    <div className="mt-3 pt-3 border-t">
+                      <FilterTimeline history={filterHistory} bounds={rangeBounds} summaries={summaries} />
+                    </div>
+                  )}
                 </div>
               )}
               {renderContent()}
@@ -1,8 +1,11 @@
 import React from 'react';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { ChartCard } from '@/components/dashboard/ChartCard';
-import { HomeCreditRecord } from '@/lib/synthetic-data';
-import { calculateKPIs, prepareChartData } from '@/lib/data-utils';
+import { OverviewAggregates } from '@/lib/dashboard-aggregates';
+import { DatasetProfile, topMissingColumns } from '@/lib/data-profile';
+import { ColumnProfileTable } from '@/components/dashboard/ColumnProfileTable';
+import { UnlabelledNotice } from '@/components/dashboard/UnlabelledNotice';
+import type { CrossFilter } from '@/hooks/use-cross-filter';
 import { 
   PieChart, 
   Pie, 
@@ -10,6 +13,8 @@ import {
   ResponsiveContainer, 
   BarChart, 
   Bar, 
+  ComposedChart,
+  Line,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -18,27 +23,26 @@ import {
 } from 'recharts';
 
 interface OverviewPageProps {
-  data: HomeCreditRecord[];
+  aggregates: OverviewAggregates;
+  profile: DatasetProfile;
+  labelled: boolean;
+  crossFilter: CrossFilter;
 }
 
-export function OverviewPage({ data }: OverviewPageProps) {
-  const kpis = calculateKPIs(data);
-  
-  const targetDistribution = prepareChartData(data, 'target_distribution');
-  const ageDistribution = prepareChartData(data, 'age_distribution');
-  const incomeDistribution = prepareChartData(data, 'income_distribution');
-  const genderDistribution = prepareChartData(data, 'gender_distribution');
-  const educationDistribution = prepareChartData(data, 'education_distribution');
-  const familyStatusDistribution = prepareChartData(data, 'family_status_distribution');
+export function OverviewPage({ aggregates, profile, labelled, crossFilter }: OverviewPageProps) {
+  const {
+    kpis,
+    targetDistribution,
+    ageDistribution,
+    incomeDistribution,
+    genderDistribution,
+    educationDistribution,
+    monthlyTrend
+  } = aggregates;
 
-  // Simulate missing data analysis for display
-  const missingDataFeatures = [
-    { feature: 'OCCUPATION_TYPE', missingPercent: 31.3 },
-    { feature: 'EXT_SOURCE_3', missingPercent: 19.8 },
-    { feature: 'EXT_SOURCE_2', missingPercent: 0.7 },
-    { feature: 'AMT_GOODS_PRICE', missingPercent: 2.8 },
-    { feature: 'NAME_TYPE_SUITE', missingPercent: 0.4 }
-  ];
+  // Data quality metrics come from the profile of the full active dataset
+  const missingDataFeatures = topMissingColumns(profile);
+  const sentinelColumns = profile.columns.filter(c => c.sentinels.length > 0);
 
   return (
     <div className="space-y-6 p-6">
@@ -57,28 +61,44 @@ export function OverviewPage({ data }: OverviewPageProps) {
           value={kpis.totalApplicants?.toLocaleString() || '0'}
           subtitle="Applications"
         />
-        <KPICard 
-          title="Default Rate"
-          value={`${kpis.defaultRate || 0}%`}
-          variant="danger"
-          trend={kpis.defaultRate > 10 ? "up" : "down"}
-          trendValue="vs industry avg"
-        />
-        <KPICard 
-          title="Repaid Rate"
-          value={`${kpis.repaidRate || 0}%`}
-          variant="success"
-          trend="up"
-          trendValue="+2.1%"
-        />
+        {labelled ? (
+          <>
+            <KPICard 
+              title="Default Rate"
+              value={`${kpis.defaultRate || 0}%`}
+              variant="danger"
+              trend={kpis.defaultRate > 10 ? "up" : "down"}
+              trendValue="vs industry avg"
+            />
+            <KPICard 
+              title="Repaid Rate"
+              value={`${kpis.repaidRate || 0}%`}
+              variant="success"
+              trend="up"
+              trendValue="+2.1%"
+            />
+          </>
+        ) : (
+          <>
+            <KPICard 
+              title="Labels"
+              value="None"
+              subtitle="No TARGET column"
+            />
+            <KPICard 
+              title="Average Income"
+              value={`$${(kpis.avgIncome || 0).toLocaleString()}`}
+            />
+          </>
+        )}
         <KPICard 
           title="Total Features"
-          value={kpis.totalFeatures || 0}
+          value={profile.columnCount}
           subtitle="Data columns"
         />
         <KPICard 
           title="Numerical Features"
-          value={kpis.numericalFeatures || 0}
+          value={profile.numericColumns}
           subtitle="Quantitative vars"
         />
       </div>
@@ -86,7 +106,7 @@ export function OverviewPage({ data }: OverviewPageProps) {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <KPICard 
           title="Categorical Features" 
-          value={kpis.categoricalFeatures || 0}
+          value={profile.categoricalColumns}
           subtitle="Qualitative vars"
         />
         <KPICard 
@@ -103,7 +123,7 @@ export function OverviewPage({ data }: OverviewPageProps) {
         />
         <KPICard 
           title="Avg Missing per Feature"
-          value="8.2%"
+          value={`${profile.avgMissingRate}%`}
           subtitle="Data completeness"
           variant="warning"
         />
@@ -116,6 +136,9 @@ export function OverviewPage({ data }: OverviewPageProps) {
           title="Target Distribution"
           description="Loan repayment vs default distribution"
         >
+          {!labelled ? (
+            <UnlabelledNotice className="h-[250px]" />
+          ) : (
           <ResponsiveContainer width="100%" height={250}>
             <PieChart>
               <Pie
@@ -127,14 +150,17 @@ export function OverviewPage({ data }: OverviewPageProps) {
                 outerRadius={80}
                 fill="#8884d8"
                 dataKey="value"
+                cursor="pointer"
+                onClick={crossFilter.onCategoryClick('TARGET', 'key')}
               >
                 {targetDistribution.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.color} />
+                  <Cell key={`cell-${index}`} fill={entry.color} fillOpacity={crossFilter.categoryOpacity('TARGET', entry.key)} />
                 ))}
               </Pie>
               <Tooltip />
             </PieChart>
           </ResponsiveContainer>
+          )}
         </ChartCard>
 
         {/* Missing Data Analysis */}
@@ -142,21 +168,27 @@ export function OverviewPage({ data }: OverviewPageProps) {
           title="Top Features by Missing %"
           description="Data quality assessment"
         >
-          <ResponsiveContainer width="100%" height={250}>
-            <BarChart data={missingDataFeatures}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis 
-                dataKey="feature" 
-                angle={-45}
-                textAnchor="end"
-                height={80}
-                fontSize={12}
-              />
-              <YAxis />
-              <Tooltip />
-              <Bar dataKey="missingPercent" fill="hsl(var(--warning))" />
-            </BarChart>
-          </ResponsiveContainer>
+          {missingDataFeatures.length > 0 ? (
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={missingDataFeatures}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis 
+                  dataKey="feature" 
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                  fontSize={12}
+                />
+                <YAxis />
+                <Tooltip formatter={(value) => [`${value}%`, 'Missing']} />
+                <Bar dataKey="missingPercent" fill="hsl(var(--warning))" />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex items-center justify-center h-[250px] text-sm text-muted-foreground">
+              No missing values in the active dataset
+            </div>
+          )}
         </ChartCard>
 
         {/* Age Distribution */}
@@ -170,7 +202,11 @@ export function OverviewPage({ data }: OverviewPageProps) {
               <XAxis dataKey="range" fontSize={12} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-1))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onBinClick('AGE_YEARS')}>
+                {ageDistribution.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AGE_YEARS', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -186,7 +222,11 @@ export function OverviewPage({ data }: OverviewPageProps) {
               <XAxis dataKey="range" fontSize={12} />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-2))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-2))" cursor="pointer" onClick={crossFilter.onBinClick('AMT_INCOME_TOTAL')}>
+                {incomeDistribution.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AMT_INCOME_TOTAL', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -202,7 +242,11 @@ export function OverviewPage({ data }: OverviewPageProps) {
               <XAxis dataKey="name" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="value" fill="hsl(var(--chart-3))" />
+              <Bar dataKey="value" fill="hsl(var(--chart-3))" cursor="pointer" onClick={crossFilter.onCategoryClick('CODE_GENDER', 'key')}>
+                {genderDistribution.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('CODE_GENDER', entry.key)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -224,12 +268,51 @@ export function OverviewPage({ data }: OverviewPageProps) {
               />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" fill="hsl(var(--chart-4))" />
+              <Bar dataKey="count" fill="hsl(var(--chart-4))" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_EDUCATION_TYPE', 'key')}>
+                {educationDistribution.slice(0, 8).map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_EDUCATION_TYPE', entry.key)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
       </div>
 
+      {/* Monthly Trend */}
+      {monthlyTrend.length > 0 && (
+        <ChartCard 
+          title="Applications by Month"
+          description={labelled ? 'Application volume and default rate per application month' : 'Application volume per application month'}
+        >
+          <ResponsiveContainer width="100%" height={280}>
+            <ComposedChart data={monthlyTrend}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" fontSize={12} />
+              <YAxis yAxisId="count" />
+              {labelled && <YAxis yAxisId="rate" orientation="right" unit="%" />}
+              <Tooltip formatter={(value, name) => name === 'Default rate' ? [`${Number(value).toFixed(2)}%`, name] : [value, name]} />
+              <Legend />
+              <Bar yAxisId="count" dataKey="applications" name="Applications" fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onCategoryClick('APPLICATION_MONTH', 'month')}>
+                {monthlyTrend.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('APPLICATION_MONTH', entry.month)} />
+                ))}
+              </Bar>
+              {labelled && (
+                <Line yAxisId="rate" type="monotone" dataKey="defaultRate" name="Default rate" stroke="hsl(var(--destructive))" dot={false} />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Column Profile */}
+      <ChartCard 
+        title="Column Profile"
+        description={`Per-column quality metrics across ${profile.rowCount.toLocaleString()} records`}
+      >
+        <ColumnProfileTable columns={profile.columns} />
+      </ChartCard>
+
       {/* Insights Section */}
       <div className="bg-card border rounded-lg p-6">
         <h3 className="text-lg font-semibold mb-4">Key Insights</h3>
@@ -238,8 +321,21 @@ export function OverviewPage({ data }: OverviewPageProps) {
             <h4 className="font-medium text-primary">Data Quality</h4>
             <ul className="space-y-1 text-muted-foreground">
               <li>• Dataset contains {kpis.totalApplicants?.toLocaleString()} loan applications</li>
-              <li>• Overall default rate of {kpis.defaultRate}% indicates moderate risk portfolio</li>
-              <li>• Missing data primarily in occupation type (31.3%) and external sources</li>
+              <li>
+                • {labelled
+                  ? `Overall default rate of ${kpis.defaultRate}% indicates moderate risk portfolio`
+                  : 'Unlabelled dataset: available for profiling, scoring and comparison'}
+              </li>
+              <li>
+                • {missingDataFeatures.length > 0
+                  ? `Most missing: ${missingDataFeatures.slice(0, 2).map(f => `${f.feature} (${f.missingPercent}%)`).join(', ')}`
+                  : 'No missing values detected'}
+              </li>
+              {sentinelColumns.map(c => (
+                <li key={c.column}>
+                  • {c.column} uses placeholder {c.sentinels.map(s => `${s.value} (${s.rate}%)`).join(', ')}
+                </li>
+              ))}
             </ul>
           </div>
           <div className="space-y-2">
@@ -1,11 +1,13 @@
 import React from 'react';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { ChartCard } from '@/components/dashboard/ChartCard';
-import { HomeCreditRecord } from '@/lib/synthetic-data';
-import { calculateKPIs, prepareChartData } from '@/lib/data-utils';
+import { RiskAggregates } from '@/lib/dashboard-aggregates';
+import { UnlabelledNotice } from '@/components/dashboard/UnlabelledNotice';
+import type { CrossFilter } from '@/hooks/use-cross-filter';
 import { 
   BarChart, 
   Bar, 
+  Cell,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -17,85 +19,78 @@ import {
 } from 'recharts';
 
 interface RiskSegmentationPageProps {
-  data: HomeCreditRecord[];
+  aggregates: RiskAggregates;
+  labelled: boolean;
+  crossFilter: CrossFilter;
 }
 
-export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
-  const kpis = calculateKPIs(data);
-  
-  const defaultByGender = prepareChartData(data, 'default_by_gender');
-  const defaultByEducation = prepareChartData(data, 'default_by_education');
-  const defaultByHousing = prepareChartData(data, 'default_by_housing');
-  
-  // Calculate additional risk metrics
-  const defaulters = data.filter(r => r.TARGET === 1);
-  const nonDefaulters = data.filter(r => r.TARGET === 0);
-  
-  const avgCreditDefaulters = defaulters.reduce((sum, r) => sum + r.AMT_CREDIT, 0) / defaulters.length;
-  const avgAnnuityDefaulters = defaulters.reduce((sum, r) => sum + r.AMT_ANNUITY, 0) / defaulters.length;
-  const avgEmploymentDefaulters = defaulters
-    .filter(r => r.EMPLOYMENT_YEARS && r.EMPLOYMENT_YEARS > 0)
-    .reduce((sum, r) => sum + r.EMPLOYMENT_YEARS!, 0) / defaulters.filter(r => r.EMPLOYMENT_YEARS && r.EMPLOYMENT_YEARS > 0).length;
-
-  // Box plot data for income by target
-  const incomeByTarget = [
-    {
-      category: 'Non-Defaulters',
-      data: nonDefaulters.map(r => r.AMT_INCOME_TOTAL).sort((a, b) => a - b)
-    },
-    {
-      category: 'Defaulters', 
-      data: defaulters.map(r => r.AMT_INCOME_TOTAL).sort((a, b) => a - b)
-    }
-  ];
-
-  const creditByTarget = [
-    {
-      category: 'Non-Defaulters',
-      data: nonDefaulters.map(r => r.AMT_CREDIT).sort((a, b) => a - b)
-    },
-    {
-      category: 'Defaulters',
-      data: defaulters.map(r => r.AMT_CREDIT).sort((a, b) => a - b)
-    }
+export function RiskSegmentationPage({ aggregates, labelled, crossFilter }: RiskSegmentationPageProps) {
+  const {
+    kpis,
+    defaultByGender,
+    defaultByEducation,
+    defaultByHousing,
+    avgCreditDefaulters,
+    avgAnnuityDefaulters,
+    avgEmploymentDefaulters,
+    ageTargetChart,
+    contractTypeChart
+  } = aggregates;
+  const targetCounts = [
+    { key: '0', status: 'Repaid', count: aggregates.targetCounts.repaid, fill: 'hsl(var(--success))' },
+    { key: '1', status: 'Default', count: aggregates.targetCounts.defaults, fill: 'hsl(var(--destructive))' }
   ];
 
-  // Age vs target distribution
-  const ageTargetData = data
-    .filter(r => r.AGE_YEARS)
-    .reduce((acc, r) => {
-      const ageBin = Math.floor(r.AGE_YEARS! / 5) * 5;
-      const key = `${ageBin}-${ageBin + 5}`;
-      if (!acc[key]) {
-        acc[key] = { ageRange: key, defaults: 0, total: 0 };
-      }
-      acc[key].total++;
-      if (r.TARGET === 1) acc[key].defaults++;
-      return acc;
-    }, {} as Record<string, { ageRange: string; defaults: number; total: number }>);
+  // Without labels only segment sizes can be shown
+  if (!labelled) {
+    const segments = [
+      { title: 'Applicants by Gender', column: 'CODE_GENDER', data: defaultByGender, fill: 'hsl(var(--chart-1))' },
+      { title: 'Applicants by Education Level', column: 'NAME_EDUCATION_TYPE', data: defaultByEducation, fill: 'hsl(var(--chart-2))' },
+      { title: 'Applicants by Housing Type', column: 'NAME_HOUSING_TYPE', data: defaultByHousing, fill: 'hsl(var(--chart-3))' }
+    ];
 
-  const ageTargetChart = Object.values(ageTargetData).map(item => ({
-    ...item,
-    defaultRate: (item.defaults / item.total) * 100,
-    nonDefaults: item.total - item.defaults
-  }));
+    return (
+      <div className="space-y-6 p-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Target & Risk Segmentation</h1>
+          <p className="text-muted-foreground">
+            Segment sizes for the active dataset
+          </p>
+        </div>
 
-  // Contract type distribution
-  const contractTypeData = data.reduce((acc, r) => {
-    if (!acc[r.NAME_CONTRACT_TYPE]) {
-      acc[r.NAME_CONTRACT_TYPE] = { defaults: 0, total: 0 };
-    }
-    acc[r.NAME_CONTRACT_TYPE].total++;
-    if (r.TARGET === 1) acc[r.NAME_CONTRACT_TYPE].defaults++;
-    return acc;
-  }, {} as Record<string, { defaults: number; total: number }>);
+        <UnlabelledNotice>
+          Risk segmentation compares default rates, which need a TARGET column. Load a labelled dataset
+          such as application_train.csv to see them; segment sizes are shown below.
+        </UnlabelledNotice>
 
-  const contractTypeChart = Object.entries(contractTypeData).map(([type, data]) => ({
-    contractType: type,
-    defaults: data.defaults,
-    nonDefaults: data.total - data.defaults,
-    defaultRate: (data.defaults / data.total) * 100
-  }));
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {segments.map(segment => (
+            <ChartCard key={segment.title} title={segment.title} description="Records per segment">
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={segment.data}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis 
+                    dataKey="category"
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                    fontSize={11}
+                  />
+                  <YAxis />
+                  <Tooltip formatter={(value) => [Number(value).toLocaleString(), 'Applicants']} />
+                  <Bar dataKey="total" fill={segment.fill} cursor="pointer" onClick={crossFilter.onCategoryClick(segment.column, 'category')}>
+                    {segment.data.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity(segment.column, entry.category)} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+          ))}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6 p-6">
@@ -178,15 +173,16 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
           description="Absolute numbers of defaults and repayments"
         >
           <ResponsiveContainer width="100%" height={250}>
-            <BarChart data={[
-              { status: 'Repaid', count: data.length - kpis.totalDefaults, fill: 'hsl(var(--success))' },
-              { status: 'Default', count: kpis.totalDefaults, fill: 'hsl(var(--destructive))' }
-            ]}>
+            <BarChart data={targetCounts}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="status" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="count" />
+              <Bar dataKey="count" cursor="pointer" onClick={crossFilter.onCategoryClick('TARGET', 'key')}>
+                {targetCounts.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.fill} fillOpacity={crossFilter.categoryOpacity('TARGET', entry.key)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -204,7 +200,11 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
               <Tooltip 
                 formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Default Rate']}
               />
-              <Bar dataKey="defaultRate" fill="hsl(var(--chart-1))" />
+              <Bar dataKey="defaultRate" fill="hsl(var(--chart-1))" cursor="pointer" onClick={crossFilter.onCategoryClick('CODE_GENDER', 'category')}>
+                {defaultByGender.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('CODE_GENDER', entry.category)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -228,7 +228,11 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
               <Tooltip 
                 formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Default Rate']}
               />
-              <Bar dataKey="defaultRate" fill="hsl(var(--chart-2))" />
+              <Bar dataKey="defaultRate" fill="hsl(var(--chart-2))" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_EDUCATION_TYPE', 'category')}>
+                {defaultByEducation.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_EDUCATION_TYPE', entry.category)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -252,7 +256,11 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
               <Tooltip 
                 formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Default Rate']}
               />
-              <Bar dataKey="defaultRate" fill="hsl(var(--chart-3))" />
+              <Bar dataKey="defaultRate" fill="hsl(var(--chart-3))" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_HOUSING_TYPE', 'category')}>
+                {defaultByHousing.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_HOUSING_TYPE', entry.category)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -273,7 +281,11 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
                   return [value, name];
                 }}
               />
-              <Bar dataKey="defaultRate" fill="hsl(var(--chart-4))" />
+              <Bar dataKey="defaultRate" fill="hsl(var(--chart-4))" cursor="pointer" onClick={crossFilter.onBinClick('AGE_YEARS')}>
+                {ageTargetChart.map((bin, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.binOpacity('AGE_YEARS', bin.min, bin.max)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -289,8 +301,16 @@ export function RiskSegmentationPage({ data }: RiskSegmentationPageProps) {
               <XAxis dataKey="contractType" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="nonDefaults" stackId="a" fill="hsl(var(--success))" name="Repaid" />
-              <Bar dataKey="defaults" stackId="a" fill="hsl(var(--destructive))" name="Default" />
+              <Bar dataKey="nonDefaults" stackId="a" fill="hsl(var(--success))" name="Repaid" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_CONTRACT_TYPE', 'contractType')}>
+                {contractTypeChart.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_CONTRACT_TYPE', entry.contractType)} />
+                ))}
+              </Bar>
+              <Bar dataKey="defaults" stackId="a" fill="hsl(var(--destructive))" name="Default" cursor="pointer" onClick={crossFilter.onCategoryClick('NAME_CONTRACT_TYPE', 'contractType')}>
+                {contractTypeChart.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fillOpacity={crossFilter.categoryOpacity('NAME_CONTRACT_TYPE', entry.contractType)} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
@@ -0,0 +1,19 @@
+import { ColumnarBatch } from '@/lib/columnar';
+import { EngineQuery, EngineResult } from '@/lib/data-engine';
+import { FilterState } from '@/lib/filters';
+import { IncomeBracketScheme } from '@/lib/income-brackets';
+
+// Messages exchanged between the data engine client and worker. A load
+// replaces the dataset and a bracket scheme its INCOME_BRACKET column;
+// queries and exports are answered in the order they were sent.
+
+export type EngineRequest =
+  | { type: 'load'; batch: ColumnarBatch }
+  | { type: 'brackets'; scheme: IncomeBracketScheme }
+  | { type: 'query'; id: number; query: EngineQuery }
+  | { type: 'export'; id: number; filters: FilterState };
+
+export type EngineResponse =
+  | { type: 'result'; id: number; result: EngineResult }
+  | { type: 'csv'; id: number; csv: string }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,45 @@
+import { DataEngine, createDataEngine } from '@/lib/data-engine';
+import { ColumnarBatch } from '@/lib/columnar';
+import { DEFAULT_INCOME_BRACKETS, IncomeBracketScheme } from '@/lib/income-brackets';
+import { EngineRequest, EngineResponse } from './data-engine-protocol';
+
+// Hosts the data engine for the active dataset, so filtering and page
+// aggregates are computed off the main thread. The engine is rebuilt on the
+// first query after the dataset or bracket scheme changes.
+
+let batch: ColumnarBatch | null = null;
+let brackets: IncomeBracketScheme = DEFAULT_INCOME_BRACKETS;
+let engine: DataEngine | null = null;
+
+function post(message: EngineResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    batch = request.batch;
+    engine = null;
+    return;
+  }
+  if (request.type === 'brackets') {
+    brackets = request.scheme;
+    engine = null;
+    return;
+  }
+
+  if (!batch) {
+    post({ type: 'error', id: request.id, message: 'No dataset loaded' });
+    return;
+  }
+  try {
+    if (!engine) engine = createDataEngine(batch, brackets);
+    if (request.type === 'export') {
+      post({ type: 'csv', id: request.id, csv: engine.exportCSV(request.filters) });
+    } else {
+      post({ type: 'result', id: request.id, result: engine.run(request.query) });
+    }
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : 'Query failed' });
+  }
+};
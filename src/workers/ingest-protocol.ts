@@ -0,0 +1,18 @@
+import { ColumnarBatch } from '@/lib/columnar';
+import { IngestionReport, RawRow } from '@/lib/ingestion';
+import { AuxiliaryAggregates, AuxiliaryTableName } from '@/lib/auxiliary-tables';
+import { ColumnMapping } from '@/lib/column-mapping';
+import { ReadOptions } from '@/lib/readers';
+
+// Messages exchanged between the ingestion client and worker
+
+export type IngestRequest =
+  | { type: 'application'; file: File; options?: ReadOptions; mapping?: ColumnMapping[] }
+  | { type: 'auxiliary'; file: File; options?: ReadOptions; table: AuxiliaryTableName };
+
+export type IngestResponse =
+  | { type: 'progress'; bytesRead: number; totalBytes: number; rowsRead: number }
+  | { type: 'batch'; batch: ColumnarBatch }
+  | { type: 'done'; report: IngestionReport; preview: RawRow[] }
+  | { type: 'aggregates'; aggregates: AuxiliaryAggregates }
+  | { type: 'error'; message: string };
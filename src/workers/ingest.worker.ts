@@ -0,0 +1,140 @@
+import { HomeCreditRecord } from '@/lib/synthetic-data';
+import {
+  RawRow,
+  coerceRow,
+  createEmptyReport,
+  finalizeRecords,
+  findMissingColumns,
+  recordIssue,
+  SAMPLE_ROWS
+} from '@/lib/ingestion';
+import { ColumnSpec, resolveColumnSpecs } from '@/lib/home-credit-schema';
+import { encodeColumns, transferablesOf } from '@/lib/columnar';
+import { AuxiliaryTableName, createAggregator, getAuxiliaryTable } from '@/lib/auxiliary-tables';
+import { ColumnMapping, applyMapping, mapHeader } from '@/lib/column-mapping';
+import { ReadOptions, RowChunk, getReader } from '@/lib/readers';
+import { IngestRequest, IngestResponse } from './ingest-protocol';
+
+// Parses and preprocesses uploaded files off the main thread.
+// Readers stream rows in chunks whatever the file format.
+// Application records are sent back as transferable column batches;
+// auxiliary tables are folded into per-applicant aggregates as they stream.
+
+const BATCH_SIZE = 50000;
+const PREVIEW_ROWS = 5;
+
+function post(message: IngestResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+function postProgress(chunk: RowChunk, rowsRead: number) {
+  post({ type: 'progress', bytesRead: chunk.bytesRead, totalBytes: chunk.totalBytes, rowsRead });
+}
+
+function readerFor(file: File) {
+  const reader = getReader(file.name);
+  if (!reader) throw new Error(`Unsupported file type: ${file.name}`);
+  return reader;
+}
+
+async function ingestApplication(file: File, options: ReadOptions, mapping?: ColumnMapping[]) {
+  const report = createEmptyReport();
+  // DAYS_* conversions count back from the moment the upload started
+  const referenceTime = Date.now();
+  const coerced: HomeCreditRecord[] = [];
+  const preview: RawRow[] = [];
+  let specs: ColumnSpec[] = [];
+  let chunksRead = 0;
+  let failed = false;
+
+  await readerFor(file).read(file, options, (chunk) => {
+    const rows = mapping ? chunk.rows.map(row => applyMapping(row, mapping, referenceTime)) : chunk.rows;
+    if (chunksRead === 0) {
+      const header = mapping ? mapHeader(chunk.fields, mapping) : chunk.fields;
+      const missingColumns = findMissingColumns(header);
+      if (missingColumns.length > 0) {
+        failed = true;
+        post({ type: 'error', message: `Missing required columns: ${missingColumns.join(', ')}` });
+        return false;
+      }
+      specs = resolveColumnSpecs(header, rows.slice(0, SAMPLE_ROWS));
+    }
+    chunksRead++;
+
+    // Rows with structural errors are rejected, the rest are coerced
+    rows.forEach((row, index) => {
+      report.totalRows++;
+      const parseError = chunk.errors.get(index);
+      if (parseError) {
+        report.rejectedRows++;
+        recordIssue(report, {
+          row: report.totalRows,
+          column: '*',
+          value: '',
+          action: 'rejected',
+          message: `Parsing error: ${parseError}`
+        });
+        return;
+      }
+      const record = coerceRow(row, report.totalRows, report, specs);
+      if (record) coerced.push(record);
+    });
+
+    if (preview.length < PREVIEW_ROWS) {
+      preview.push(...rows.slice(0, PREVIEW_ROWS - preview.length));
+    }
+
+    postProgress(chunk, report.totalRows);
+  });
+
+  if (failed) return;
+  if (report.totalRows === 0) {
+    post({ type: 'error', message: 'File appears to be empty' });
+    return;
+  }
+
+  const records = finalizeRecords(coerced);
+  for (let start = 0; start < records.length; start += BATCH_SIZE) {
+    const batch = encodeColumns(records.slice(start, start + BATCH_SIZE));
+    post({ type: 'batch', batch }, transferablesOf(batch));
+  }
+  post({ type: 'done', report, preview });
+}
+
+async function ingestAuxiliary(file: File, options: ReadOptions, table: AuxiliaryTableName) {
+  const definition = getAuxiliaryTable(table);
+  const aggregator = createAggregator(definition);
+  let chunksRead = 0;
+  let rowsRead = 0;
+  let failed = false;
+
+  await readerFor(file).read(file, options, (chunk) => {
+    if (chunksRead === 0) {
+      const missingColumns = definition.requiredColumns.filter(column => !chunk.fields.includes(column));
+      if (missingColumns.length > 0) {
+        failed = true;
+        post({ type: 'error', message: `${definition.fileName} is missing columns: ${missingColumns.join(', ')}` });
+        return false;
+      }
+    }
+    chunksRead++;
+    rowsRead += chunk.rows.length;
+    chunk.rows.forEach(aggregator.add);
+    postProgress(chunk, rowsRead);
+  });
+
+  if (failed) return;
+  post({ type: 'aggregates', aggregates: aggregator.result() });
+}
+
+self.onmessage = (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+  const options = request.options ?? {};
+  const job = request.type === 'application'
+    ? ingestApplication(request.file, options, request.mapping)
+    : ingestAuxiliary(request.file, options, request.table);
+
+  job.catch((err) => {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to read file' });
+  });
+};